@@ -49,24 +49,40 @@ const disableEntryPointTreeShaking = () => {
     }
 }
 
-export default {
-  input: 'src/index.ts',
-  output: {
-    // dir: 'dist',
-    format: 'esm',
-    file: 'dist/Code.gs',
-  },
-  plugins: [
-    cleanup({ comments: 'none', extensions: ['.ts'] }),
-    license({
-      banner: {
-        content: {
-          file: fileURLToPath(new URL('license-header.txt', import.meta.url)),
+export default [
+  {
+    input: 'src/index.ts',
+    output: {
+      // dir: 'dist',
+      format: 'esm',
+      file: 'dist/Code.gs',
+    },
+    plugins: [
+      cleanup({ comments: 'none', extensions: ['.ts'] }),
+      license({
+        banner: {
+          content: {
+            file: fileURLToPath(new URL('license-header.txt', import.meta.url)),
+          },
         },
-      },
-    }),
-    typescript(),
-    disableEntryPointTreeShaking(),
-  ],
-  context: 'this',
-};
+      }),
+      typescript(),
+      disableEntryPointTreeShaking(),
+    ],
+    context: 'this',
+  },
+  // Command line interface, run with Node (see the README)
+  {
+    input: 'src/node/main.ts',
+    output: {
+      format: 'esm',
+      file: 'dist/abm.mjs',
+      banner: '#!/usr/bin/env node',
+    },
+    external: ['child_process', 'fs'],
+    plugins: [
+      cleanup({ comments: 'none', extensions: ['.ts'] }),
+      typescript(),
+    ],
+  },
+];
@@ -0,0 +1,44 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * The Google Ads API version whose response shapes the response types
+ * (CampaignResponse, BiddingStrategyResponse, the simulations...) follow.
+ */
+export const DEFAULT_API_VERSION = 'v20';
+
+/**
+ * The Google Ads API versions the script can call. None of the fields the
+ * script reads or writes differ between them. A version is added here, with
+ * its tests, before switching to it in the API_VERSION setting.
+ */
+export const SUPPORTED_API_VERSIONS = ['v19', 'v20', 'v21'];
+
+/**
+ * Checks that a Google Ads API version can be called.
+ * @param version The version, e.g. v20.
+ * @return The version.
+ * @throws An error if the version is not supported.
+ */
+export function checkApiVersion(version: string): string {
+  if (!SUPPORTED_API_VERSIONS.includes(version)) {
+    throw new Error(
+      `Unsupported Google Ads API version: ${version}. Supported ` +
+        `versions: ${SUPPORTED_API_VERSIONS.join(', ')}`
+    );
+  }
+  return version;
+}
@@ -0,0 +1,232 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {TableStorage} from './table_storage';
+import {MutateStatus} from './google_ads_client';
+
+/**
+ * Enum for Audit log sheet columns
+ */
+export enum AuditLogLabelsIndex {
+  TIMESTAMP = 0,
+  USER = 1,
+  ACTION = 2,
+  CUSTOMER_ID = 3,
+  RESOURCE_NAME = 4,
+  STRATEGY_TYPE = 5,
+  OLD_TARGET = 6,
+  NEW_TARGET = 7,
+  OUTCOME = 8,
+  ERROR = 9,
+  BATCH_ID = 10,
+}
+
+/**
+ * The action that caused a target mutation.
+ */
+export enum AuditAction {
+  UPDATE = 'UPDATE',
+  REVERT = 'REVERT',
+  // A step of a plan of the Ramp plans sheet
+  RAMP = 'RAMP',
+}
+
+/**
+ * A single target mutation sent to Google Ads.
+ */
+export interface AuditLogEntry {
+  customerId: string;
+  resourceName: string;
+  strategyType: string;
+  oldTarget: string | number;
+  newTarget: number;
+  outcome: MutateStatus;
+  error?: string;
+}
+
+/**
+ * The target mutations appended by a single run.
+ */
+export interface AuditLogBatch {
+  batchId: string;
+  timestamp: string;
+  action: AuditAction;
+  entries: AuditLogEntry[];
+}
+
+/**
+ * Returns a new batch ID, unique even among the batches appended at the same
+ * time.
+ */
+function createBatchId(): string {
+  if (typeof Utilities !== 'undefined') {
+    return Utilities.getUuid();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Returns the ISO string of a timestamp cell, which Sheets may have turned
+ * into a date.
+ */
+function toTimestamp(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+/**
+ * A class for handling operations related to the "Audit log" sheet.
+ *
+ * Every target mutation is appended to the sheet, which is never cleared.
+ * The entries appended by a single run form a batch and share their batch ID,
+ * timestamp and user.
+ */
+export class AuditLogSheet {
+  static readonly AUDIT_LOG_SHEET = 'Audit log';
+  static readonly TRIGGER_USER = 'trigger';
+
+  /**
+   * @param storage The storage of the sheets.
+   * @param newBatchId Returns the ID of a new batch.
+   */
+  constructor(
+    private storage: TableStorage,
+    private newBatchId: () => string = createBatchId
+  ) {}
+
+  /**
+   * Initializes the Audit log sheet with its headers.
+   */
+  initializeSheet(): void {
+    this.storage.insertSheet(
+      AuditLogSheet.AUDIT_LOG_SHEET,
+      this.getAuditLogHeaders()
+    );
+  }
+
+  /**
+   * Appends the entries of a single run to the sheet, all with the same
+   * batch ID, timestamp and user.
+   * @param entries The target mutations to log.
+   * @param action The action that caused the mutations.
+   */
+  append(entries: AuditLogEntry[], action: AuditAction): void {
+    const batchId = this.newBatchId();
+    const timestamp = new Date().toISOString();
+    const user = this.getActiveUser();
+
+    const rows = entries.map(entry => {
+      const row: Array<string | number> = [];
+      row[AuditLogLabelsIndex.TIMESTAMP] = timestamp;
+      row[AuditLogLabelsIndex.USER] = user;
+      row[AuditLogLabelsIndex.ACTION] = action;
+      row[AuditLogLabelsIndex.CUSTOMER_ID] = entry.customerId;
+      row[AuditLogLabelsIndex.RESOURCE_NAME] = entry.resourceName;
+      row[AuditLogLabelsIndex.STRATEGY_TYPE] = entry.strategyType;
+      row[AuditLogLabelsIndex.OLD_TARGET] = entry.oldTarget;
+      row[AuditLogLabelsIndex.NEW_TARGET] = entry.newTarget;
+      row[AuditLogLabelsIndex.OUTCOME] = entry.outcome;
+      row[AuditLogLabelsIndex.ERROR] = entry.error ?? '';
+      row[AuditLogLabelsIndex.BATCH_ID] = batchId;
+      return row;
+    });
+
+    // Adds the Batch ID column to the sheets created before it, as the
+    // mutations are already sent
+    this.initializeSheet();
+    this.storage.appendRows(
+      AuditLogSheet.AUDIT_LOG_SHEET,
+      rows,
+      this.getAuditLogHeaders()
+    );
+  }
+
+  /**
+   * Reads the most recent batch of the sheet.
+   * @return The last batch, or undefined if the sheet has no entries.
+   */
+  getLastBatch(): AuditLogBatch | undefined {
+    this.initializeSheet();
+    const rows = this.storage.readRows<string | number | Date>(
+      AuditLogSheet.AUDIT_LOG_SHEET,
+      this.getAuditLogHeaders()
+    );
+    if (rows.length === 0) {
+      return undefined;
+    }
+
+    const lastRow = rows[rows.length - 1];
+    const batchId = this.getBatchId(lastRow);
+    const batchRows = rows.filter(r => this.getBatchId(r) === batchId);
+
+    return {
+      batchId,
+      timestamp: toTimestamp(lastRow[AuditLogLabelsIndex.TIMESTAMP]),
+      action: lastRow[AuditLogLabelsIndex.ACTION] as AuditAction,
+      entries: batchRows.map(r => ({
+        customerId: String(r[AuditLogLabelsIndex.CUSTOMER_ID]),
+        resourceName: String(r[AuditLogLabelsIndex.RESOURCE_NAME]),
+        strategyType: String(r[AuditLogLabelsIndex.STRATEGY_TYPE]),
+        oldTarget: r[AuditLogLabelsIndex.OLD_TARGET] as string | number,
+        newTarget: Number(r[AuditLogLabelsIndex.NEW_TARGET]),
+        outcome: r[AuditLogLabelsIndex.OUTCOME] as MutateStatus,
+        error: String(r[AuditLogLabelsIndex.ERROR] ?? ''),
+      })),
+    };
+  }
+
+  /**
+   * Returns the batch ID of a row. The rows logged before batch IDs are
+   * grouped by timestamp.
+   */
+  private getBatchId(row: Array<string | number | Date>): string {
+    const batchId = String(row[AuditLogLabelsIndex.BATCH_ID] ?? '');
+    if (batchId !== '') {
+      return batchId;
+    }
+    return `timestamp:${toTimestamp(row[AuditLogLabelsIndex.TIMESTAMP])}`;
+  }
+
+  /**
+   * Returns the headers for the Audit log sheet.
+   */
+  private getAuditLogHeaders(): string[] {
+    const headers: string[] = [];
+    headers[AuditLogLabelsIndex.TIMESTAMP] = 'Timestamp';
+    headers[AuditLogLabelsIndex.USER] = 'User';
+    headers[AuditLogLabelsIndex.ACTION] = 'Action';
+    headers[AuditLogLabelsIndex.CUSTOMER_ID] = 'Customer ID';
+    headers[AuditLogLabelsIndex.RESOURCE_NAME] = 'Resource name';
+    headers[AuditLogLabelsIndex.STRATEGY_TYPE] = 'Bidding strategy type';
+    headers[AuditLogLabelsIndex.OLD_TARGET] = 'Old target';
+    headers[AuditLogLabelsIndex.NEW_TARGET] = 'New target';
+    headers[AuditLogLabelsIndex.OUTCOME] = 'Outcome';
+    headers[AuditLogLabelsIndex.ERROR] = 'Error';
+    headers[AuditLogLabelsIndex.BATCH_ID] = 'Batch ID';
+
+    return headers;
+  }
+
+  /**
+   * Returns the email of the user running the script, or "trigger" when it
+   * is not available (time-driven triggers and Ads Scripts).
+   */
+  private getActiveUser(): string {
+    if (typeof Session === 'undefined') {
+      return AuditLogSheet.TRIGGER_USER;
+    }
+    return Session.getActiveUser().getEmail() || AuditLogSheet.TRIGGER_USER;
+  }
+}
@@ -14,8 +14,9 @@
  * limitations under the License.
  */
 
-import {SpreadsheetService} from './spreadsheet_service';
+import {TableStorage} from './table_storage';
 import {CustomerClientResponse, GoogleAdsClient} from './google_ads_client';
+import {select} from './gaql';
 
 /**
  * Enum of Customers sheet columns
@@ -34,7 +35,7 @@ export enum CustomerLabelsIndex {
 export class CidSheet {
   static readonly CID_SHEET = 'Customers';
 
-  constructor(private spreadsheetService: SpreadsheetService) {}
+  constructor(private storage: TableStorage) {}
 
   /**
    * Returns the headers for Customer Ids sheet.
@@ -54,10 +55,7 @@ export class CidSheet {
    * Initializes the Customers sheet with its headers.
    */
   initializeSheet(): void {
-    this.spreadsheetService.insertSheet(
-      CidSheet.CID_SHEET,
-      this.getCustomerHeaders()
-    );
+    this.storage.insertSheet(CidSheet.CID_SHEET, this.getCustomerHeaders());
   }
 
   /**
@@ -65,45 +63,62 @@ export class CidSheet {
    * @return An array of customer IDs.
    */
   getCustomerIds(): string[] {
-    return this.spreadsheetService.fetchValuesFromColumn<string>(
-      CidSheet.CID_SHEET,
-      CustomerLabelsIndex.CUSTOMER_ID
-    );
+    const headers = this.getCustomerHeaders();
+    return this.storage
+      .readRows<string>(CidSheet.CID_SHEET, [
+        headers[CustomerLabelsIndex.CUSTOMER_ID],
+      ])
+      .map(r => r[0])
+      .filter(cid => cid !== '' && cid !== null);
   }
 
   /**
    * Loads all CIDs under the login customer ID from the API to the spreadsheet.
+   * The sheet is only replaced once the CIDs are fetched, so that a failing
+   * fetch keeps the CIDs of the previous load.
    * @param googleAdsClient instance of GoogleAdsClient
    * @param loginCustomerId the MCC
+   * @throws An error if the CIDs cannot be fetched.
    */
   loadCids(googleAdsClient: GoogleAdsClient, loginCustomerId: string): void {
-    this.spreadsheetService.clearSheet(CidSheet.CID_SHEET);
     if (!loginCustomerId) {
-      throw new Error('Please update LOGIN_CUSTOMER_ID to fetch customer ids');
+      throw new Error(
+        'Please set LOGIN_CUSTOMER_ID in the Settings sheet to fetch customer ids'
+      );
     }
 
     const customerIdsRows = this.getAllMccChildren(
       googleAdsClient,
       loginCustomerId
     );
-    this.spreadsheetService.appendRows(CidSheet.CID_SHEET, customerIdsRows);
+    this.storage.clearSheet(CidSheet.CID_SHEET);
+    this.storage.appendRows(
+      CidSheet.CID_SHEET,
+      customerIdsRows,
+      this.getCustomerHeaders()
+    );
   }
 
   private getAllMccChildren(
     googleAdsClient: GoogleAdsClient,
     mcc: string
   ): Array<Array<string | number | boolean>> {
-    const query = `
-        SELECT customer_client.client_customer, customer_client.level,
-          customer_client.manager, customer_client.descriptive_name,
-          customer_client.id
-        FROM customer_client
-        WHERE customer_client.status = 'ENABLED'`;
+    const query = select(
+      'customer_client.client_customer',
+      'customer_client.level',
+      'customer_client.manager',
+      'customer_client.descriptive_name',
+      'customer_client.id'
+    )
+      .from('customer_client')
+      .where('customer_client.status', '=', 'ENABLED');
 
-    const customers = googleAdsClient.searchStreamApi<CustomerClientResponse>(
-      [mcc],
-      query
-    );
+    const client = googleAdsClient.withCids([mcc]);
+    const customers = client.searchStream<CustomerClientResponse>(query);
+    const error = client.getFailures()[mcc];
+    if (error !== undefined) {
+      throw new Error(`The customer IDs of ${mcc} cannot be fetched: ${error}`);
+    }
     return customers.map(c => this.mapCustomerToRow(c, mcc));
   }
 
@@ -0,0 +1,33 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Converts an amount in micros, as returned by the API, to account currency.
+ * @param micros The amount in micros.
+ * @return The amount in account currency.
+ */
+export function microsToCurrency(micros: number): number {
+  return micros / 1e6;
+}
+
+/**
+ * Converts an amount in account currency to micros, as expected by the API.
+ * @param amount The amount in account currency.
+ * @return The amount in whole micros.
+ */
+export function currencyToMicros(amount: number): number {
+  return Math.round(amount * 1e6);
+}
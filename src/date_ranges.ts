@@ -0,0 +1,106 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {GaqlQuery} from './gaql';
+
+// Predefined date ranges supported on the list of bidding targets
+// https://developers.google.com/google-ads/api/docs/query/date-ranges#predefined_date_range
+export const PREDEFINED_DATE_RANGES = [
+  'TODAY',
+  'YESTERDAY',
+  'LAST_7_DAYS',
+  'LAST_14_DAYS',
+  'LAST_30_DAYS',
+  'LAST_BUSINESS_WEEK',
+  'LAST_WEEK_MON_SUN',
+  'LAST_WEEK_SUN_SAT',
+  'THIS_WEEK_MON_TODAY',
+  'THIS_WEEK_SUN_TODAY',
+  'THIS_MONTH',
+  'LAST_MONTH',
+];
+
+// Custom date window, e.g. BETWEEN 2025-01-01 AND 2025-01-31
+const BETWEEN_REGEX =
+  /^BETWEEN\s+'?(\d{4}-\d{2}-\d{2})'?\s+AND\s+'?(\d{4}-\d{2}-\d{2})'?$/i;
+
+/**
+ * Validates and normalizes a date range, either one of the predefined date
+ * ranges or a custom window written "BETWEEN <start> AND <end>" with
+ * YYYY-MM-DD dates.
+ * @param value The raw date range.
+ * @return The normalized date range.
+ * @throws An error if the date range is not supported.
+ */
+export function parseDateRange(value: string): string {
+  const range = value.trim();
+  if (PREDEFINED_DATE_RANGES.includes(range.toUpperCase())) {
+    return range.toUpperCase();
+  }
+
+  const match = range.match(BETWEEN_REGEX);
+  if (!match) {
+    throw new Error(
+      `"${range}" is not one of ${PREDEFINED_DATE_RANGES.join(', ')} ` +
+        'nor BETWEEN YYYY-MM-DD AND YYYY-MM-DD'
+    );
+  }
+  const [, start, end] = match;
+  for (const date of [start, end]) {
+    if (!isValidDate(date)) {
+      throw new Error(`"${date}" is not a valid date`);
+    }
+  }
+  if (start > end) {
+    throw new Error(`"${range}" starts after it ends`);
+  }
+  return `BETWEEN ${start} AND ${end}`;
+}
+
+/**
+ * Restricts a query to a date range.
+ * @param query The query.
+ * @param dateRange A date range normalized by parseDateRange.
+ * @return The query with a condition on segments.date.
+ */
+export function whereDateRange<Row>(
+  query: GaqlQuery<Row>,
+  dateRange: string
+): GaqlQuery<Row> {
+  const match = dateRange.match(BETWEEN_REGEX);
+  if (match) {
+    return query.between(match[1], match[2]);
+  }
+  return query.during(dateRange);
+}
+
+/**
+ * Returns the label of a date range used in the sheet headers.
+ * @param dateRange A date range normalized by parseDateRange.
+ * @return The label, e.g. LAST_30_DAYS or 2025-01-01 to 2025-01-31.
+ */
+export function getDateRangeLabel(dateRange: string): string {
+  const match = dateRange.match(BETWEEN_REGEX);
+  if (match) {
+    return `${match[1]} to ${match[2]}`;
+  }
+  return dateRange;
+}
+
+function isValidDate(date: string): boolean {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date;
+}
@@ -0,0 +1,320 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * A value compared to a field in a condition. Strings are quoted, which is
+ * also how enum values and dates are written in GAQL.
+ */
+export type GaqlValue = string | number | boolean;
+
+/**
+ * The operators comparing a field to a single value.
+ */
+export type GaqlOperator =
+  | '='
+  | '!='
+  | '>'
+  | '>='
+  | '<'
+  | '<='
+  | 'LIKE'
+  | 'NOT LIKE'
+  | 'REGEXP_MATCH'
+  | 'NOT REGEXP_MATCH';
+
+/**
+ * The operators comparing a field to a list of values.
+ */
+export type GaqlListOperator =
+  | 'IN'
+  | 'NOT IN'
+  | 'CONTAINS ANY'
+  | 'CONTAINS ALL'
+  | 'CONTAINS NONE';
+
+/**
+ * The operators without a value.
+ */
+export type GaqlNullOperator = 'IS NULL' | 'IS NOT NULL';
+
+// e.g. target_cpa_micros to targetCpaMicros, as fields are named in the rows
+type CamelCase<S extends string> = S extends `${infer Head}_${infer Tail}`
+  ? `${Head}${Capitalize<CamelCase<Tail>>}`
+  : S;
+
+// The nested object of a field in the rows, e.g.
+// {campaign: {targetRoas: {targetRoas: unknown}}} for
+// campaign.target_roas.target_roas
+type FieldObject<F extends string> = F extends `${infer Head}.${infer Tail}`
+  ? {[K in CamelCase<Head>]: FieldObject<Tail>}
+  : {[K in CamelCase<F>]: unknown};
+
+type UnionToIntersection<U> = (
+  U extends unknown ? (u: U) => void : never
+) extends (i: infer I) => void
+  ? I
+  : never;
+
+/**
+ * The rows returned for the selected fields, e.g.
+ * {campaign: {name: unknown}, metrics: {clicks: unknown}} for campaign.name
+ * and metrics.clicks. The type of the values depends on the field, so it is
+ * left unknown.
+ */
+export type GaqlRow<F extends string> = UnionToIntersection<FieldObject<F>>;
+
+/**
+ * The fields a response interface requires, whatever their type. The rows of
+ * a query can be read as the interface if they have these fields, see
+ * GoogleAdsClient.searchStream(). Lists, e.g. simulation points, are a single
+ * field.
+ */
+export type SelectedFields<T> = T extends ReadonlyArray<unknown>
+  ? unknown
+  : T extends object
+  ? {[K in keyof T]: SelectedFields<NonNullable<T[K]>>}
+  : unknown;
+
+// Resources and fields, e.g. campaign.target_roas.target_roas
+const RESOURCE_REGEX = /^[a-z][a-z0-9_]*$/;
+const FIELD_REGEX = /^[a-z][a-z0-9_]*(\.[a-z][a-z0-9_]*)*$/;
+// e.g. LAST_30_DAYS
+const DATE_RANGE_REGEX = /^[A-Z][A-Z0-9_]*$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const LIST_OPERATORS: string[] = [
+  'IN',
+  'NOT IN',
+  'CONTAINS ANY',
+  'CONTAINS ALL',
+  'CONTAINS NONE',
+];
+const NULL_OPERATORS: string[] = ['IS NULL', 'IS NOT NULL'];
+
+/**
+ * The clauses of a query.
+ */
+interface QueryClauses {
+  fields: string[];
+  resource: string;
+  conditions: string[];
+  orderings: string[];
+  limit?: number;
+}
+
+/**
+ * A GAQL query. Queries are immutable: each condition returns a new query,
+ * so that a query can be shared, e.g. run for several date ranges.
+ * https://developers.google.com/google-ads/api/docs/query/overview
+ *
+ * Start a query with select().
+ */
+export class GaqlQuery<Row> {
+  // The type of the rows returned, for type checking only
+  readonly row?: Row;
+
+  /**
+   * @param clauses The clauses of the query.
+   */
+  constructor(private readonly clauses: QueryClauses) {}
+
+  /**
+   * Adds a condition, joined to the others with AND.
+   * @param field The field, which does not need to be selected.
+   * @param operator The operator.
+   * @param value The value, a list for IN and the other list operators, none
+   *     for IS NULL and IS NOT NULL.
+   * @return The new query.
+   * @throws An error if the value does not fit the operator.
+   */
+  where(field: string, operator: GaqlNullOperator): GaqlQuery<Row>;
+  where(
+    field: string,
+    operator: GaqlListOperator,
+    values: GaqlValue[]
+  ): GaqlQuery<Row>;
+  where(
+    field: string,
+    operator: GaqlOperator,
+    value: GaqlValue
+  ): GaqlQuery<Row>;
+  where(
+    field: string,
+    operator: string,
+    value?: GaqlValue | GaqlValue[]
+  ): GaqlQuery<Row> {
+    checkField(field);
+    if (NULL_OPERATORS.includes(operator)) {
+      return this.withCondition(`${field} ${operator}`);
+    }
+    if (LIST_OPERATORS.includes(operator)) {
+      if (!Array.isArray(value) || value.length === 0) {
+        throw new Error(`${operator} on ${field} needs a list of values`);
+      }
+      return this.withCondition(
+        `${field} ${operator} (${value.map(quote).join(', ')})`
+      );
+    }
+    if (value === undefined || Array.isArray(value)) {
+      throw new Error(`${operator} on ${field} needs a single value`);
+    }
+    return this.withCondition(`${field} ${operator} ${quote(value)}`);
+  }
+
+  /**
+   * Restricts the query to a predefined date range.
+   * @param dateRange The date range, e.g. LAST_30_DAYS.
+   * @param field The date field.
+   * @return The new query.
+   * @throws An error if the date range is not written as a predefined one.
+   */
+  during(dateRange: string, field = 'segments.date'): GaqlQuery<Row> {
+    checkField(field);
+    if (!DATE_RANGE_REGEX.test(dateRange)) {
+      throw new Error(`"${dateRange}" is not a predefined date range`);
+    }
+    return this.withCondition(`${field} DURING ${dateRange}`);
+  }
+
+  /**
+   * Restricts the query to the days between two dates, both included.
+   * @param start The first day, as YYYY-MM-DD.
+   * @param end The last day, as YYYY-MM-DD.
+   * @param field The date field.
+   * @return The new query.
+   * @throws An error if a date is not written as YYYY-MM-DD.
+   */
+  between(start: string, end: string, field = 'segments.date'): GaqlQuery<Row> {
+    checkField(field);
+    for (const date of [start, end]) {
+      if (!DATE_REGEX.test(date)) {
+        throw new Error(`"${date}" is not a YYYY-MM-DD date`);
+      }
+    }
+    return this.withCondition(
+      `${field} BETWEEN ${quote(start)} AND ${quote(end)}`
+    );
+  }
+
+  /**
+   * Orders the rows by a field, after the orderings already added.
+   * @param field The field.
+   * @param direction The direction.
+   * @return The new query.
+   */
+  orderBy(field: string, direction: 'ASC' | 'DESC' = 'ASC'): GaqlQuery<Row> {
+    checkField(field);
+    return new GaqlQuery({
+      ...this.clauses,
+      orderings: [...this.clauses.orderings, `${field} ${direction}`],
+    });
+  }
+
+  /**
+   * Limits the number of rows returned.
+   * @param count The maximum number of rows.
+   * @return The new query.
+   * @throws An error if the count is not a positive integer.
+   */
+  limit(count: number): GaqlQuery<Row> {
+    if (!Number.isInteger(count) || count <= 0) {
+      throw new Error(`The limit must be a positive integer, got ${count}`);
+    }
+    return new GaqlQuery({...this.clauses, limit: count});
+  }
+
+  /**
+   * Returns the text of the query, as sent to the API.
+   */
+  toString(): string {
+    const {fields, resource, conditions, orderings, limit} = this.clauses;
+    let query = `SELECT ${fields.join(', ')} FROM ${resource}`;
+    if (conditions.length) {
+      query += ` WHERE ${conditions.join(' AND ')}`;
+    }
+    if (orderings.length) {
+      query += ` ORDER BY ${orderings.join(', ')}`;
+    }
+    if (limit !== undefined) {
+      query += ` LIMIT ${limit}`;
+    }
+    return query;
+  }
+
+  private withCondition(condition: string): GaqlQuery<Row> {
+    return new GaqlQuery({
+      ...this.clauses,
+      conditions: [...this.clauses.conditions, condition],
+    });
+  }
+}
+
+/**
+ * Starts a query selecting fields. The fields should be string literals for
+ * the rows to be typed, see GaqlRow.
+ * @param fields The fields, e.g. campaign.name or metrics.clicks.
+ * @return The step choosing the resource queried.
+ * @throws An error if there is no field or a field is not valid.
+ */
+export function select<F extends string>(
+  ...fields: F[]
+): {
+  from<R extends string>(
+    resource: R
+  ): GaqlQuery<GaqlRow<F | `${R}.resource_name`>>;
+} {
+  if (fields.length === 0) {
+    throw new Error('A query must select at least one field');
+  }
+  fields.forEach(checkField);
+  return {
+    // The resource name of the resource queried is always returned
+    from: <R extends string>(resource: R) => {
+      if (!RESOURCE_REGEX.test(resource)) {
+        throw new Error(`Invalid GAQL resource: ${resource}`);
+      }
+      return new GaqlQuery<GaqlRow<F | `${R}.resource_name`>>({
+        fields: [...fields],
+        resource,
+        conditions: [],
+        orderings: [],
+      });
+    },
+  };
+}
+
+function checkField(field: string): void {
+  if (!FIELD_REGEX.test(field)) {
+    throw new Error(`Invalid GAQL field: ${field}`);
+  }
+}
+
+/**
+ * Writes a value in a condition: strings are quoted, with their quotes and
+ * backslashes escaped.
+ */
+function quote(value: GaqlValue): string {
+  if (typeof value === 'boolean') {
+    return value ? 'TRUE' : 'FALSE';
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`${value} cannot be used in a query`);
+    }
+    return String(value);
+  }
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
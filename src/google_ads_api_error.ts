@@ -0,0 +1,171 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// gRPC statuses and Google Ads error codes of failures worth retrying
+const TRANSIENT_STATUSES = ['RESOURCE_EXHAUSTED', 'UNAVAILABLE', 'INTERNAL'];
+const TRANSIENT_ERROR_CODES = [
+  'RESOURCE_EXHAUSTED',
+  'RESOURCE_TEMPORARILY_EXHAUSTED',
+  'INTERNAL_ERROR',
+  'TRANSIENT_ERROR',
+];
+
+/**
+ * The body of a Google Ads API error response.
+ * https://developers.google.com/google-ads/api/docs/get-started/common-errors
+ */
+interface ErrorResponse {
+  error?: {
+    code?: number;
+    message?: string;
+    status?: string;
+    details?: Array<{
+      errors?: Array<{
+        errorCode?: {[category: string]: string};
+        message?: string;
+        location?: {
+          fieldPathElements?: Array<{fieldName: string; index?: number}>;
+        };
+      }>;
+      requestId?: string;
+    }>;
+  };
+}
+
+/**
+ * An error returned by the Google Ads API.
+ */
+export class GoogleAdsApiError extends Error {
+  /**
+   * @param message The message of the error.
+   * @param httpStatus The HTTP status of the response, 0 if there was none.
+   * @param status The gRPC status, e.g. RESOURCE_EXHAUSTED.
+   * @param errorCodes The Google Ads error codes, e.g.
+   *     quotaError.RESOURCE_EXHAUSTED.
+   * @param requestId The ID of the request, to share with the support.
+   * @param fieldPaths The paths of the failing fields, e.g.
+   *     mutate_operations[0].campaign_operation.update.
+   */
+  constructor(
+    message: string,
+    readonly httpStatus: number,
+    readonly status = '',
+    readonly errorCodes: string[] = [],
+    readonly requestId = '',
+    readonly fieldPaths: string[] = []
+  ) {
+    super(message);
+    this.name = 'GoogleAdsApiError';
+  }
+
+  /**
+   * Whether the request may succeed if sent again: throttling, server errors,
+   * failures without a response and successful responses that cannot be read.
+   */
+  isTransient(): boolean {
+    return (
+      this.httpStatus < 400 ||
+      this.httpStatus === 429 ||
+      this.httpStatus >= 500 ||
+      TRANSIENT_STATUSES.includes(this.status) ||
+      this.errorCodes.some(c => TRANSIENT_ERROR_CODES.includes(c.split('.')[1]))
+    );
+  }
+
+  /**
+   * Builds the error of a successful API response whose body is not JSON,
+   * e.g. a truncated body.
+   * @param url The URL of the request.
+   * @param httpStatus The HTTP status of the response.
+   * @param body The body of the response.
+   * @param requestId The request ID header of the response, if any.
+   * @return The error.
+   */
+  static fromInvalidBody(
+    url: string,
+    httpStatus: number,
+    body: string,
+    requestId = ''
+  ): GoogleAdsApiError {
+    return new GoogleAdsApiError(
+      `API error: Invalid response of ${url}: HTTP ${httpStatus}: ` +
+        (body ? body.slice(0, 500) : '(empty body)'),
+      httpStatus,
+      '',
+      [],
+      requestId
+    );
+  }
+
+  /**
+   * Builds the error of an API response.
+   * @param httpStatus The HTTP status of the response.
+   * @param body The body of the response, which is not always JSON.
+   * @param requestId The request ID header of the response, if any.
+   * @return The error.
+   */
+  static fromResponse(
+    httpStatus: number,
+    body: string,
+    requestId = ''
+  ): GoogleAdsApiError {
+    let parsed: ErrorResponse | ErrorResponse[];
+    try {
+      parsed = JSON.parse(body);
+    } catch (e) {
+      // e.g. an HTML page from a proxy or a load balancer
+      return new GoogleAdsApiError(
+        `API error: HTTP ${httpStatus}: ${body.slice(0, 500)}`,
+        httpStatus,
+        '',
+        [],
+        requestId
+      );
+    }
+    // searchStream wraps its response, errors included, in an array
+    const error = (Array.isArray(parsed) ? parsed[0] : parsed)?.error ?? {};
+
+    const errorCodes: string[] = [];
+    const fieldPaths: string[] = [];
+    for (const detail of error.details ?? []) {
+      requestId = requestId || (detail.requestId ?? '');
+      for (const e of detail.errors ?? []) {
+        for (const [category, code] of Object.entries(e.errorCode ?? {})) {
+          errorCodes.push(`${category}.${code}`);
+        }
+        const path = (e.location?.fieldPathElements ?? [])
+          .map(p =>
+            p.index === undefined ? p.fieldName : `${p.fieldName}[${p.index}]`
+          )
+          .join('.');
+        if (path) {
+          fieldPaths.push(path);
+        }
+      }
+    }
+
+    const message = error.message ?? `HTTP ${httpStatus}`;
+    return new GoogleAdsApiError(
+      `API error: ${message}` +
+        (errorCodes.length ? ` (${errorCodes.join(', ')})` : ''),
+      httpStatus,
+      error.status ?? '',
+      errorCodes,
+      requestId,
+      fieldPaths
+    );
+  }
+}
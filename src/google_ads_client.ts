@@ -14,10 +14,10 @@
  * limitations under the License.
  */
 
-/**
- * The Google Ads API endpoint.
- */
-export const API_ENDPOINT = 'https://googleads.googleapis.com/v20/customers/';
+import {microsToCurrency} from './currency';
+import {GaqlQuery, SelectedFields, select} from './gaql';
+import {GoogleAdsTransport} from './google_ads_transport';
+import {QueryCache} from './query_cache';
 
 /**
  * The bidding strategy type.
@@ -29,6 +29,29 @@ export enum StrategyType {
   MAXIMIZE_CONVERSIONS = 'MAXIMIZE_CONVERSIONS',
 }
 
+// The simulation types loaded, also the bidding strategy types of the
+// portfolio strategies whose simulations are loaded
+const SIMULATION_TYPES = [StrategyType.TARGET_ROAS, StrategyType.TARGET_CPA];
+
+/**
+ * The outcome of a single target mutate operation.
+ */
+export enum MutateStatus {
+  SUCCESS = 'SUCCESS',
+  FAILED = 'FAILED',
+  SKIPPED = 'SKIPPED',
+  BLOCKED = 'BLOCKED',
+}
+
+/**
+ * The result of a single target mutate operation.
+ */
+export interface MutateOperationResult {
+  status: MutateStatus;
+  resourceName?: string;
+  error?: string;
+}
+
 /**
  * An interface for the Ad Group response from the Google Ads API.
  */
@@ -44,6 +67,9 @@ export interface AdGroupResponse {
   campaign: {
     biddingStrategyType: StrategyType;
   };
+  customer?: {
+    currencyCode: string;
+  };
   metrics: {
     conversions?: number;
     conversionsValue?: number;
@@ -73,6 +99,9 @@ export interface CampaignResponse {
       targetCpaMicros: number;
     };
   };
+  customer?: {
+    currencyCode: string;
+  };
   metrics: {
     conversions?: number;
     conversionsValue?: number;
@@ -102,6 +131,9 @@ export interface BiddingStrategyResponse {
       targetCpaMicros: number;
     };
   };
+  customer?: {
+    currencyCode: string;
+  };
   metrics: {
     conversions?: number;
     conversionsValue?: number;
@@ -175,6 +207,7 @@ export interface BaseSimulation {
 export interface BaseSimulationResponse {
   customer: {
     descriptiveName: string;
+    currencyCode: string;
   };
 }
 
@@ -241,18 +274,37 @@ export interface BiddingStrategySimulationResponse
 }
 
 /**
- * A client for interacting with the Google Ads API.
+ * What was fetched from an account, for the Run report sheet.
+ */
+export interface AccountReport {
+  // Rows returned by the API
+  rows: number;
+  // Time spent fetching, shared by the accounts fetched together
+  durationMs: number;
+  // The first error of the account, if any of its calls failed
+  error?: string;
+}
+
+/**
+ * A client for interacting with Google Ads, through the transport of the
+ * environment.
  */
 export class GoogleAdsClient {
+  // What was fetched from each CID, errors included, shared with the clients
+  // created by withCids()
+  private reports: {[cid: string]: AccountReport} = {};
+
   /**
-   * @param devToken The developer token.
-   * @param loginCustomerId The login customer ID.
+   * @param transport Runs the searches and mutates, e.g. the Google Ads API
+   *     or AdsApp. See getDefaultTransport().
    * @param cids The customer IDs to run against.
+   * @param queryCache The cache of the results of the cached queries, shared
+   *     by the clients of an execution.
    */
   constructor(
-    private devToken: string,
-    private loginCustomerId: string,
-    private cids: string[]
+    private transport: GoogleAdsTransport,
+    private cids: string[],
+    private queryCache = new QueryCache()
   ) {}
 
   /**
@@ -264,254 +316,239 @@ export class GoogleAdsClient {
   }
 
   /**
-   * Calls searchStream for all configured CIDs.
-   *
-   * It will use AdsApp if run in the Google Ads Scripts environment, otherwise
-   * it will use the Google Ads API.
-   * @param query The GAQL query.
-   * @return The aggregated results.
+   * Returns a client with the same transport for other customer IDs.
+   * @param cids The customer IDs to run against.
+   * @return The new client.
    */
-  searchStream<T>(query: string): T[] {
-    if (typeof AdsApp !== 'undefined') {
-      return this.searchStreamAdsApp<T>(this.cids, query);
-    }
-
-    return this.searchStreamApi<T>(this.cids, query);
+  withCids(cids: string[]): GoogleAdsClient {
+    const client = new GoogleAdsClient(this.transport, cids, this.queryCache);
+    client.reports = this.reports;
+    return client;
   }
 
   /**
-   * Calls searchStream via Google Ads API.
-   * @param cids The customer IDs.
-   * @param query The GAQL query.
-   * @return The aggregated results.
+   * Returns what was fetched from each CID so far, errors included.
+   * @return The reports, keyed by CID.
    */
-  searchStreamApi<T>(cids: string[], query: string): T[] {
-    const aggregate: T[] = [];
-
-    for (const cid of cids) {
-      const url = `${API_ENDPOINT}${cid}/googleAds:searchStream`;
-      const response = this.callApi<T>(url, {query});
-      aggregate.push(...response.results);
-    }
-    return aggregate;
+  getAccountReports(): {[cid: string]: AccountReport} {
+    return this.reports;
   }
 
   /**
-   * Calls searchStream via AdsApp.
-   * @param cids The customer IDs.
-   * @param query The GAQL query.
-   * @return The aggregated results.
+   * Returns the CIDs whose data could not be fetched, with their error.
+   * @return The errors, keyed by CID.
    */
-  searchStreamAdsApp<T>(cids: string[], query: string): T[] {
-    const results: T[] = [];
-    const childAccounts = AdsManagerApp.accounts().withIds(cids).get();
-
-    while (childAccounts.hasNext()) {
-      const childAccount = childAccounts.next();
-      AdsManagerApp.select(childAccount);
-      const rows = AdsApp.search(query);
-      while (rows.hasNext()) {
-        results.push(rows.next() as T);
+  getFailures(): {[cid: string]: string} {
+    const failures: {[cid: string]: string} = {};
+    for (const [cid, report] of Object.entries(this.reports)) {
+      if (report.error !== undefined) {
+        failures[cid] = report.error;
       }
     }
+    return failures;
+  }
 
-    return results;
+  /**
+   * Whether any call for a CID failed, in which case its data is incomplete.
+   * @param cid The customer ID.
+   * @return Whether the CID failed.
+   */
+  hasFailed(cid: string): boolean {
+    return this.reports[String(cid)]?.error !== undefined;
   }
 
-  mutateTargets(
+  /**
+   * Adds the outcome of a call for a CID to its report.
+   */
+  private record(
     cid: string,
-    mutateOperations: GoogleAds.MutateOperation[]
+    rows: number,
+    durationMs: number,
+    error?: string
   ): void {
-    Logger.log(mutateOperations);
-    if (typeof AdsApp !== 'undefined') {
-      return this.mutateTargetsAdsApp(cid, mutateOperations);
+    const report = (this.reports[String(cid)] ??= {rows: 0, durationMs: 0});
+    report.rows += rows;
+    report.durationMs += durationMs;
+    if (error !== undefined && report.error === undefined) {
+      report.error = error;
     }
-
-    const url = API_ENDPOINT + cid + '/googleAds:mutate';
-    this.callApi(url, {mutateOperations});
   }
 
-  mutateTargetsAdsApp(
-    cid: string,
-    operations: GoogleAds.MutateOperation[]
-  ): void {
-    const formattedCid = this.formatCid(cid);
-    const accountIterator = AdsManagerApp.accounts()
-      .withIds([formattedCid])
-      .get();
-    if (!accountIterator.hasNext()) {
-      throw new Error(`Google Ads account with CID ${formattedCid} not found.`);
+  /**
+   * Calls searchStream for all configured CIDs. The CIDs whose call fails are
+   * skipped, and recorded in the failures of the client.
+   *
+   * The rows of a built query are typed from its fields, unless read as a
+   * response interface, whose required fields must then be selected.
+   * @param query The GAQL query.
+   * @param cached Whether the results can be read from and kept in the query
+   *     cache, for data that the script does not change, e.g. simulations.
+   * @return The aggregated results of the other CIDs.
+   */
+  searchStream<Row>(query: GaqlQuery<Row>, cached?: boolean): Row[];
+  searchStream<T>(
+    query: string | GaqlQuery<SelectedFields<T>>,
+    cached?: boolean
+  ): T[];
+  searchStream<T>(gaql: string | GaqlQuery<unknown>, cached = false): T[] {
+    const query = String(gaql);
+    const results: T[] = [];
+    const cids = cached ? this.readCache(this.cids, query, results) : this.cids;
+    if (cids.length === 0) {
+      return results;
     }
 
-    const account = accountIterator.next();
-    AdsManagerApp.select(account);
-
-    try {
-      const mutateResults: GoogleAds.MutateResult[] =
-        AdsApp.mutateAll(operations);
-      for (const mutateResult of mutateResults) {
-        if (!mutateResult.isSuccessful()) {
-          Logger.log(mutateResult.getErrorMessages().join('\n'));
-        }
+    for (const result of this.transport.search<T>(cids, query)) {
+      this.record(
+        result.cid,
+        result.results.length,
+        result.durationMs,
+        result.error
+      );
+      if (result.error !== undefined) {
+        continue;
       }
-    } catch (e: unknown) {
-      Logger.log(`Failed to execute operation for account ${cid}. Error: ${e}`);
+      if (cached) {
+        this.queryCache.put(result.cid, query, result.results);
+      }
+      results.push(...result.results);
     }
+    return results;
   }
 
   /**
-   * Formats a 10-digit customer ID into XXX-XXX-XXXX format.
-   * @param cid The customer ID to format.
-   * @return The formatted customer ID.
-   * @throws An error if the CID is not 10 digits long or contains non-digits.
+   * Returns the cached results of the CIDs whose query results are cached.
+   * @param cids The customer IDs.
+   * @param query The GAQL query.
+   * @param results The array the cached results are added to.
+   * @return The CIDs whose results are not cached.
    */
-  private formatCid(cid: string): string {
-    const stringCid = String(cid);
-    if (stringCid.length !== 10 || !/^\d+$/.test(stringCid)) {
-      throw new Error(`Invalid CID '${cid}'. Expected a 10-digit string.`);
-    }
-    return [stringCid.slice(0, 3), stringCid.slice(3, 6), stringCid.slice(6, 10)].join('-');
+  private readCache<T>(cids: string[], query: string, results: T[]): string[] {
+    return cids.filter(cid => {
+      const cachedResults = this.queryCache.get<T>(cid, query);
+      if (!cachedResults) {
+        return true;
+      }
+      this.record(cid, cachedResults.length, 0);
+      results.push(...cachedResults);
+      return false;
+    });
   }
 
   /**
-   * Calls Ads API (POST).
-   * @param url The API endpoint URL.
-   * @param data The payload to send.
-   * @return The API response.
-   * @throws An error if the API call fails.
+   * Sends target mutate operations for a single CID, with partial failure
+   * enabled so that a failing operation does not fail the whole batch.
+   * @param cid The customer ID.
+   * @param mutateOperations The operations to send.
+   * @param validateOnly Whether the request should only be validated, without
+   *     being executed. Only supported via Google Ads API.
+   * @return One result per operation, in the order of the operations.
+   * @throws An error if validation is requested in the Google Ads Scripts
+   *     environment, or if the request as a whole fails.
    */
-  callApi<T>(url: string, data?: object): ApiResponse<T> {
-    const headers: GoogleAppsScript.URL_Fetch.HttpHeaders = {};
-    const token = ScriptApp.getOAuthToken();
-    headers['Authorization'] = 'Bearer ' + token;
-    headers['developer-token'] = this.devToken;
-    if (this.loginCustomerId) {
-      headers['login-customer-id'] = this.loginCustomerId;
-    }
-
-    const options: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {
-      method: 'post',
-      contentType: 'application/json',
-      headers,
-      muteHttpExceptions: true,
-    };
-
-    if (data) {
-      options['payload'] = JSON.stringify(data);
-    }
-
-    const response = UrlFetchApp.fetch(url, options);
-
-    if (response.getResponseCode() >= 400) {
-      const errorContent = JSON.parse(response.getContentText());
-      Logger.log(errorContent);
-      throw new Error(`API error: ${errorContent.error.message}`);
-    }
-
-    const responseContentText = JSON.parse(response.getContentText());
-
-    // searchStream returns the response wrapped in a JSON array
-    if (url.includes('searchStream')) {
-      const streamResults: ApiResponse<T> = {
-        results: [],
-      };
-      for (const r of responseContentText) {
-        if ('results' in r) {
-          streamResults.results.push(...r.results);
-        }
-      }
-
-      return streamResults;
-    } else {
-      return responseContentText as ApiResponse<T>;
-    }
+  mutateTargets(
+    cid: string,
+    mutateOperations: GoogleAds.MutateOperation[],
+    validateOnly = false
+  ): MutateOperationResult[] {
+    Logger.log(mutateOperations);
+    return this.transport.mutate(cid, mutateOperations, validateOnly);
   }
 
   /**
-   * Retrieves bidding strategy simulations from the Google Ads API.
+   * Retrieves bidding strategy simulations from the Google Ads API, or from
+   * the query cache.
    * @return An array of bidding strategy simulation responses.
    */
   fetchBiddingStrategySimulations(): BiddingStrategySimulationResponse[] {
-    const query = `
-          SELECT
-            bidding_strategy.resource_name,
-            bidding_strategy_simulation.bidding_strategy_id,
-            bidding_strategy_simulation.type,
-            bidding_strategy.type,
-            bidding_strategy_simulation.start_date,
-            bidding_strategy_simulation.end_date,
-            bidding_strategy_simulation.target_roas_point_list.points,
-            bidding_strategy_simulation.target_cpa_point_list.points,
-            bidding_strategy.name,
-            bidding_strategy.target_roas.target_roas,
-            bidding_strategy.target_cpa.target_cpa_micros,
-            customer.descriptive_name
-          FROM bidding_strategy_simulation
-          WHERE bidding_strategy_simulation.type IN ('${StrategyType.TARGET_ROAS}', '${StrategyType.TARGET_CPA}')
-            AND bidding_strategy.type IN ('${StrategyType.TARGET_ROAS}', '${StrategyType.TARGET_CPA}')`;
-    return this.searchStream<BiddingStrategySimulationResponse>(query);
+    const query = select(
+      'bidding_strategy.resource_name',
+      'bidding_strategy_simulation.bidding_strategy_id',
+      'bidding_strategy_simulation.type',
+      'bidding_strategy.type',
+      'bidding_strategy_simulation.start_date',
+      'bidding_strategy_simulation.end_date',
+      'bidding_strategy_simulation.target_roas_point_list.points',
+      'bidding_strategy_simulation.target_cpa_point_list.points',
+      'bidding_strategy.name',
+      'bidding_strategy.target_roas.target_roas',
+      'bidding_strategy.target_cpa.target_cpa_micros',
+      'customer.descriptive_name',
+      'customer.currency_code'
+    )
+      .from('bidding_strategy_simulation')
+      .where('bidding_strategy_simulation.type', 'IN', SIMULATION_TYPES)
+      .where('bidding_strategy.type', 'IN', SIMULATION_TYPES);
+    return this.searchStream<BiddingStrategySimulationResponse>(query, true);
   }
 
   /**
-   * Retrieves campaign simulations from the Google Ads API.
+   * Retrieves campaign simulations from the Google Ads API, or from the query
+   * cache.
    * @return An array of campaign simulation responses.
    */
   fetchCampaignSimulations(): CampaignSimulationResponse[] {
-    const query = `
-        SELECT
-          customer.descriptive_name,
-          campaign.resource_name,
-          campaign.name,
-          campaign_simulation.type,
-          campaign.bidding_strategy_type,
-          campaign.maximize_conversion_value.target_roas,
-          campaign.maximize_conversions.target_cpa_micros,
-          campaign.target_cpa.target_cpa_micros,
-          campaign.target_roas.target_roas,
-          campaign_simulation.campaign_id,
-          campaign_simulation.start_date,
-          campaign_simulation.end_date,
-          campaign_simulation.target_roas_point_list.points,
-          campaign_simulation.target_cpa_point_list.points
-        FROM campaign_simulation
-        WHERE campaign_simulation.type IN ('${StrategyType.TARGET_ROAS}', '${StrategyType.TARGET_CPA}')
-          AND campaign_simulation.modification_method != "SCALING"
-          AND campaign.bidding_strategy_type IN ('${StrategyType.MAXIMIZE_CONVERSION_VALUE}', '${StrategyType.MAXIMIZE_CONVERSIONS}',
-          '${StrategyType.TARGET_ROAS}', '${StrategyType.TARGET_CPA}')
-          AND campaign.bidding_strategy IS NULL
-      `;
-    return this.searchStream<CampaignSimulationResponse>(query);
+    const query = select(
+      'customer.descriptive_name',
+      'customer.currency_code',
+      'campaign.resource_name',
+      'campaign.name',
+      'campaign_simulation.type',
+      'campaign.bidding_strategy_type',
+      'campaign.maximize_conversion_value.target_roas',
+      'campaign.maximize_conversions.target_cpa_micros',
+      'campaign.target_cpa.target_cpa_micros',
+      'campaign.target_roas.target_roas',
+      'campaign_simulation.campaign_id',
+      'campaign_simulation.start_date',
+      'campaign_simulation.end_date',
+      'campaign_simulation.target_roas_point_list.points',
+      'campaign_simulation.target_cpa_point_list.points'
+    )
+      .from('campaign_simulation')
+      .where('campaign_simulation.type', 'IN', SIMULATION_TYPES)
+      .where('campaign_simulation.modification_method', '!=', 'SCALING')
+      .where('campaign.bidding_strategy_type', 'IN', [
+        StrategyType.MAXIMIZE_CONVERSION_VALUE,
+        StrategyType.MAXIMIZE_CONVERSIONS,
+        StrategyType.TARGET_ROAS,
+        StrategyType.TARGET_CPA,
+      ])
+      .where('campaign.bidding_strategy', 'IS NULL');
+    return this.searchStream<CampaignSimulationResponse>(query, true);
   }
 
   /**
-   * Retrieves ad group simulations from the Google Ads API.
+   * Retrieves ad group simulations from the Google Ads API, or from the query
+   * cache.
    * @return An array of ad group simulation responses.
    */
   fetchAdGroupSimulations(): AdGroupSimulationResponse[] {
-    const query = `
-        SELECT
-          customer.descriptive_name,
-          ad_group.resource_name,
-          ad_group.name,
-          ad_group_simulation.type,
-          ad_group.effective_target_cpa_micros,
-          ad_group.effective_target_roas,
-          ad_group_simulation.ad_group_id,
-          ad_group_simulation.start_date,
-          ad_group_simulation.end_date,
-          ad_group_simulation.target_roas_point_list.points,
-          ad_group_simulation.target_cpa_point_list.points
-        FROM ad_group_simulation
-        WHERE ad_group_simulation.type IN ('${StrategyType.TARGET_ROAS}', '${StrategyType.TARGET_CPA}')
-      `;
-    return this.searchStream<AdGroupSimulationResponse>(query);
+    const query = select(
+      'customer.descriptive_name',
+      'customer.currency_code',
+      'ad_group.resource_name',
+      'ad_group.name',
+      'ad_group_simulation.type',
+      'ad_group.effective_target_cpa_micros',
+      'ad_group.effective_target_roas',
+      'ad_group_simulation.ad_group_id',
+      'ad_group_simulation.start_date',
+      'ad_group_simulation.end_date',
+      'ad_group_simulation.target_roas_point_list.points',
+      'ad_group_simulation.target_cpa_point_list.points'
+    )
+      .from('ad_group_simulation')
+      .where('ad_group_simulation.type', 'IN', SIMULATION_TYPES);
+    return this.searchStream<AdGroupSimulationResponse>(query, true);
   }
 
   /**
    * Gets the target value from a Google Ads entity based on its strategy type.
    * @param strategyType The bidding strategy type.
    * @param entity The Google Ads entity (Campaign, Ad Group, or Bidding Strategy).
-   * @return The target value, or undefined if not found.
+   * @return The target value, in account currency for CPA targets, or
+   *     undefined if not found.
    */
   getEntityTarget(
     strategyType: StrategyType,
@@ -544,16 +581,16 @@ export class GoogleAdsClient {
       strategyType === StrategyType.MAXIMIZE_CONVERSIONS
     ) {
       if ('maximizeConversions' in entity && entity.maximizeConversions) {
-        return entity.maximizeConversions.targetCpaMicros / 1e6;
+        return microsToCurrency(entity.maximizeConversions.targetCpaMicros);
       }
       if ('targetCpa' in entity && entity.targetCpa) {
-        return entity.targetCpa.targetCpaMicros / 1e6;
+        return microsToCurrency(entity.targetCpa.targetCpaMicros);
       }
       if (
         'effectiveTargetCpaMicros' in entity &&
         entity.effectiveTargetCpaMicros
       ) {
-        return entity.effectiveTargetCpaMicros / 1e6;
+        return microsToCurrency(entity.effectiveTargetCpaMicros);
       }
     }
     return undefined;
@@ -575,19 +612,13 @@ export class GoogleAdsClient {
    * Gets the target value from a single simulation point.
    * @param strategyType The bidding strategy type of the simulation.
    * @param point The simulation point.
-   * @return The target value for the point.
+   * @return The target value for the point, in account currency for CPA
+   *     targets.
    */
   getPointTarget(strategyType: StrategyType, point: SimulationPoint): number {
     if (strategyType === StrategyType.TARGET_ROAS) {
       return (point as TargetRoasPoint).targetRoas;
     }
-    return (point as TargetCpaPoint).targetCpaMicros / 1e6;
+    return microsToCurrency((point as TargetCpaPoint).targetCpaMicros);
   }
 }
-
-interface ApiResponse<T> {
-  error?: {
-    message: string;
-  };
-  results: T[];
-}
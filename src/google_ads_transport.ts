@@ -0,0 +1,569 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {DEFAULT_API_VERSION, checkApiVersion} from './api_version';
+import {GoogleAdsApiError} from './google_ads_api_error';
+import {MutateOperationResult, MutateStatus} from './google_ads_client';
+import {
+  AuthProvider,
+  HttpResponse,
+  HttpTransport,
+  ScriptAppAuth,
+  UrlFetchTransport,
+} from './http_transport';
+import {DEFAULT_RETRY_CONFIG, RetryConfig, RetryPolicy} from './retry';
+
+/**
+ * The Google Ads API endpoint, without the version.
+ */
+export const API_ENDPOINT = 'https://googleads.googleapis.com';
+
+/**
+ * The default maximum number of API requests sent at once.
+ */
+export const DEFAULT_CONCURRENCY = 10;
+
+/**
+ * The outcome of a search for a single CID.
+ */
+export interface SearchResult<T> {
+  cid: string;
+  // The rows returned, empty if the search failed
+  results: T[];
+  // Time spent fetching, shared by the CIDs fetched together
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Runs searches and mutates against Google Ads, in the runtime the script is
+ * run in.
+ */
+export interface GoogleAdsTransport {
+  /**
+   * Runs a query for each CID. A failing CID does not fail the others.
+   * @param cids The customer IDs.
+   * @param query The GAQL query.
+   * @return The outcome of each CID, in no particular order.
+   */
+  search<T>(cids: string[], query: string): Array<SearchResult<T>>;
+
+  /**
+   * Sends mutate operations for a single CID, with partial failure enabled so
+   * that a failing operation does not fail the whole batch.
+   * @param cid The customer ID.
+   * @param operations The operations to send.
+   * @param validateOnly Whether the request should only be validated, without
+   *     being executed.
+   * @return One result per operation, in the order of the operations.
+   * @throws An error if the request as a whole fails.
+   */
+  mutate(
+    cid: string,
+    operations: GoogleAds.MutateOperation[],
+    validateOnly: boolean
+  ): MutateOperationResult[];
+}
+
+/**
+ * Returns the transport of the environment: AdsApp in Google Ads Scripts, the
+ * Google Ads API with the token of the user in Apps Script.
+ * @param devToken The developer token.
+ * @param loginCustomerId The login customer ID.
+ * @param retryConfig The limits of the retries of failed requests.
+ * @param concurrency The maximum number of requests sent at once.
+ * @param apiVersion The Google Ads API version, e.g. v20.
+ * @return The transport.
+ */
+export function getDefaultTransport(
+  devToken: string,
+  loginCustomerId: string,
+  retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG,
+  concurrency = DEFAULT_CONCURRENCY,
+  apiVersion = DEFAULT_API_VERSION
+): GoogleAdsTransport {
+  if (typeof AdsApp !== 'undefined') {
+    return new AdsAppTransport(apiVersion);
+  }
+  return new ApiTransport(
+    devToken,
+    loginCustomerId,
+    retryConfig,
+    concurrency,
+    apiVersion
+  );
+}
+
+/**
+ * Calls the Google Ads REST API, through an HTTP transport and an access
+ * token provider, so that it can run in Apps Script as well as in Node.
+ */
+export class ApiTransport implements GoogleAdsTransport {
+  private retryPolicy: RetryPolicy;
+  private apiVersion: string;
+
+  /**
+   * @param devToken The developer token.
+   * @param loginCustomerId The login customer ID.
+   * @param retryConfig The limits of the retries of failed requests, over all
+   *     the requests of the transport.
+   * @param concurrency The maximum number of requests sent at once.
+   * @param apiVersion The Google Ads API version, e.g. v20.
+   * @param http Sends the HTTP requests.
+   * @param auth Provides the access token.
+   * @param endpoint The base URL of the API, e.g. that of a local stand-in
+   *     server in end-to-end tests.
+   */
+  constructor(
+    private devToken: string,
+    private loginCustomerId: string,
+    retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG,
+    private concurrency = DEFAULT_CONCURRENCY,
+    apiVersion = DEFAULT_API_VERSION,
+    private http: HttpTransport = new UrlFetchTransport(),
+    private auth: AuthProvider = new ScriptAppAuth(),
+    private endpoint = API_ENDPOINT
+  ) {
+    this.retryPolicy = new RetryPolicy(retryConfig);
+    this.apiVersion = checkApiVersion(apiVersion);
+  }
+
+  /**
+   * Calls searchStream for batches of CIDs at once.
+   */
+  search<T>(cids: string[], query: string): Array<SearchResult<T>> {
+    const searchResults: Array<SearchResult<T>> = [];
+    for (let i = 0; i < cids.length; i += this.concurrency) {
+      const batch = cids.slice(i, i + this.concurrency);
+      const requests = batch.map(cid => ({
+        url: this.getUrl(cid, 'googleAds:searchStream'),
+        data: {query},
+      }));
+      const start = Date.now();
+      const responses = this.fetchAllWithRetries(requests);
+      const durationMs = Date.now() - start;
+      batch.forEach((cid, j) => {
+        const response = responses[j];
+        if (response instanceof GoogleAdsApiError) {
+          searchResults.push({
+            cid,
+            results: [],
+            durationMs,
+            error: response.message,
+          });
+          return;
+        }
+        const {results} = this.parseResponse<T>(
+          requests[j].url,
+          response.content
+        );
+        searchResults.push({cid, results, durationMs});
+      });
+    }
+    return searchResults;
+  }
+
+  mutate(
+    cid: string,
+    operations: GoogleAds.MutateOperation[],
+    validateOnly: boolean
+  ): MutateOperationResult[] {
+    const url = this.getUrl(cid, 'googleAds:mutate');
+    const response = this.callApi(url, {
+      mutateOperations: operations,
+      partialFailure: true,
+      validateOnly,
+    }) as unknown as MutateResponse;
+    return this.getMutateResults(response, operations.length);
+  }
+
+  /**
+   * Returns the URL of a method of a customer, in the version of the
+   * transport.
+   */
+  private getUrl(cid: string, method: string): string {
+    return `${this.endpoint}/${this.apiVersion}/customers/${cid}/${method}`;
+  }
+
+  /**
+   * Maps a Google Ads API mutate response to one result per operation.
+   *
+   * Errors of the partial failure response are matched to their operation
+   * through the index of the mutate_operations field path.
+   * @param response The mutate response.
+   * @param operationsCount The number of operations sent.
+   * @return One result per operation.
+   */
+  private getMutateResults(
+    response: MutateResponse,
+    operationsCount: number
+  ): MutateOperationResult[] {
+    const errors: {[index: number]: string[]} = {};
+    const unmatchedErrors: string[] = [];
+    for (const detail of response.partialFailureError?.details ?? []) {
+      for (const error of detail.errors ?? []) {
+        const operationPath = error.location?.fieldPathElements?.find(
+          e => e.fieldName === 'mutate_operations'
+        );
+        if (operationPath?.index !== undefined) {
+          errors[operationPath.index] = errors[operationPath.index] ?? [];
+          errors[operationPath.index].push(error.message);
+        } else {
+          unmatchedErrors.push(error.message);
+        }
+      }
+    }
+    if (response.partialFailureError && unmatchedErrors.length === 0) {
+      unmatchedErrors.push(response.partialFailureError.message);
+    }
+
+    const results: MutateOperationResult[] = [];
+    for (let i = 0; i < operationsCount; i++) {
+      const operationResponse = response.mutateOperationResponses?.[i] ?? {};
+      const resourceName = Object.values(operationResponse).find(
+        r => r?.resourceName
+      )?.resourceName;
+
+      if (errors[i]) {
+        results.push({
+          status: MutateStatus.FAILED,
+          error: errors[i].join('\n'),
+        });
+      } else if (resourceName || !response.partialFailureError) {
+        results.push({status: MutateStatus.SUCCESS, resourceName});
+      } else {
+        results.push({
+          status: MutateStatus.FAILED,
+          error: unmatchedErrors.join('\n'),
+        });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Calls Ads API (POST). Transient failures are retried with a jittered
+   * exponential backoff, within the retry budget of the transport.
+   * @param url The API endpoint URL.
+   * @param data The payload to send.
+   * @return The API response.
+   * @throws A GoogleAdsApiError if the API call fails.
+   */
+  callApi<T>(url: string, data?: object): ApiResponse<T> {
+    const [response] = this.fetchAllWithRetries([{url, data}]);
+    if (response instanceof GoogleAdsApiError) {
+      throw response;
+    }
+    return this.parseResponse<T>(url, response.content);
+  }
+
+  /**
+   * Reads the response of a successful API call.
+   * @param url The API endpoint URL.
+   * @param content The JSON content of the response.
+   * @return The API response.
+   */
+  private parseResponse<T>(url: string, content: unknown): ApiResponse<T> {
+    // searchStream returns the response wrapped in a JSON array, as checked
+    // by parseContent()
+    if (url.includes('searchStream')) {
+      const streamResults: ApiResponse<T> = {
+        results: [],
+      };
+      for (const r of content as Array<ApiResponse<T>>) {
+        if ('results' in r) {
+          streamResults.results.push(...r.results);
+        }
+      }
+
+      return streamResults;
+    } else {
+      return content as ApiResponse<T>;
+    }
+  }
+
+  /**
+   * Sends API calls concurrently. The calls failing with a transient error
+   * are sent again, together, after a jittered exponential backoff, within
+   * the retry budget of the transport.
+   * @param requests The API endpoint URLs and payloads.
+   * @return The response or the error of each call, in the order of the
+   *     requests.
+   */
+  private fetchAllWithRetries(
+    requests: ApiRequest[]
+  ): Array<ApiContent | GoogleAdsApiError> {
+    const results: Array<ApiContent | GoogleAdsApiError> = [];
+    let pending = requests.map((_r, i) => i);
+    for (let retry = 0; ; retry++) {
+      const responses = this.fetchAll(pending.map(i => requests[i]));
+      pending.forEach((index, i) => (results[index] = responses[i]));
+      pending = pending.filter(index => {
+        const result = results[index];
+        return result instanceof GoogleAdsApiError && result.isTransient();
+      });
+      if (pending.length === 0) {
+        return results;
+      }
+      const delay = this.retryPolicy.nextDelayMs(retry);
+      if (delay === undefined) {
+        return results;
+      }
+      this.http.sleep(delay);
+    }
+  }
+
+  private fetchAll(
+    requests: ApiRequest[]
+  ): Array<ApiContent | GoogleAdsApiError> {
+    const headers: {[name: string]: string} = {};
+    headers['Authorization'] = 'Bearer ' + this.auth.getAccessToken();
+    headers['developer-token'] = this.devToken;
+    if (this.loginCustomerId) {
+      headers['login-customer-id'] = this.loginCustomerId;
+    }
+
+    let responses: HttpResponse[];
+    try {
+      responses = this.http.fetchAll(
+        requests.map(({url, data}) => ({
+          url,
+          method: 'post',
+          contentType: 'application/json',
+          headers,
+          payload: data ? JSON.stringify(data) : undefined,
+        }))
+      );
+    } catch (e) {
+      // No response, e.g. a timeout or a DNS failure, which fails all the
+      // requests sent together
+      const message = `API error: ${(e as Error).message}`;
+      Logger.log(message);
+      return requests.map(() => new GoogleAdsApiError(message, 0));
+    }
+
+    return responses.map((response, i) => {
+      let error: GoogleAdsApiError;
+      if (response.status >= 400) {
+        error = GoogleAdsApiError.fromResponse(
+          response.status,
+          response.body,
+          response.headers['request-id']
+        );
+      } else {
+        const content = this.parseContent(requests[i].url, response.body);
+        if (content) {
+          return content;
+        }
+        // e.g. a truncated body, an HTML page from a proxy, or an error object
+        // instead of the results
+        error = GoogleAdsApiError.fromInvalidBody(
+          requests[i].url,
+          response.status,
+          response.body,
+          response.headers['request-id']
+        );
+      }
+      Logger.log(error.message);
+      return error;
+    });
+  }
+
+  /**
+   * Parses the body of a successful API response.
+   * @param url The API endpoint URL.
+   * @param body The body of the response.
+   * @return The content, or undefined if the body is not JSON, or if the
+   *     response of searchStream is not an array of objects.
+   */
+  private parseContent(url: string, body: string): ApiContent | undefined {
+    let content: unknown;
+    try {
+      content = JSON.parse(body);
+    } catch (e) {
+      return undefined;
+    }
+    if (
+      url.includes('searchStream') &&
+      !(
+        Array.isArray(content) &&
+        content.every(r => typeof r === 'object' && r !== null)
+      )
+    ) {
+      return undefined;
+    }
+    return {content};
+  }
+}
+
+/**
+ * Searches and mutates with AdsApp, in Google Ads Scripts, on the accounts
+ * of the manager account the script runs in.
+ */
+export class AdsAppTransport implements GoogleAdsTransport {
+  private apiVersion: string;
+
+  /**
+   * @param apiVersion The Google Ads API version, e.g. v20.
+   */
+  constructor(apiVersion = DEFAULT_API_VERSION) {
+    this.apiVersion = checkApiVersion(apiVersion);
+  }
+
+  /**
+   * Searches each account in turn. The CIDs which are not accounts of the
+   * manager account anymore are reported as failed.
+   */
+  search<T>(cids: string[], query: string): Array<SearchResult<T>> {
+    if (cids.length === 0) {
+      return [];
+    }
+    const searchResults: Array<SearchResult<T>> = [];
+    const childAccounts = AdsManagerApp.accounts().withIds(cids).get();
+    const missing = new Set(cids.map(String));
+
+    while (childAccounts.hasNext()) {
+      const childAccount = childAccounts.next();
+      const cid = childAccount.getCustomerId().replace(/-/g, '');
+      missing.delete(cid);
+      const start = Date.now();
+      const results: T[] = [];
+      try {
+        AdsManagerApp.select(childAccount);
+        const rows = AdsApp.search(query, {apiVersion: this.apiVersion});
+        while (rows.hasNext()) {
+          results.push(rows.next() as T);
+        }
+      } catch (e) {
+        Logger.log(`Search of ${cid} failed: ${(e as Error).message}`);
+        searchResults.push({
+          cid,
+          results: [],
+          durationMs: Date.now() - start,
+          error: (e as Error).message,
+        });
+        continue;
+      }
+      searchResults.push({cid, results, durationMs: Date.now() - start});
+    }
+    // e.g. cancelled accounts, or accounts unlinked from the manager account
+    for (const cid of missing) {
+      searchResults.push({
+        cid,
+        results: [],
+        durationMs: 0,
+        error: 'The account cannot be found under the manager account',
+      });
+    }
+    return searchResults;
+  }
+
+  /**
+   * @throws An error if validation is requested, which AdsApp does not
+   *     support, or if the account cannot be found.
+   */
+  mutate(
+    cid: string,
+    operations: GoogleAds.MutateOperation[],
+    validateOnly: boolean
+  ): MutateOperationResult[] {
+    if (validateOnly) {
+      throw new Error(
+        'Validation without applying changes is not supported in Google Ads Scripts.'
+      );
+    }
+    const formattedCid = this.formatCid(cid);
+    const accountIterator = AdsManagerApp.accounts()
+      .withIds([formattedCid])
+      .get();
+    if (!accountIterator.hasNext()) {
+      throw new Error(`Google Ads account with CID ${formattedCid} not found.`);
+    }
+
+    const account = accountIterator.next();
+    AdsManagerApp.select(account);
+
+    const mutateResults: GoogleAds.MutateResult[] = AdsApp.mutateAll(
+      operations,
+      {partialFailure: true, apiVersion: this.apiVersion}
+    );
+    return mutateResults.map(mutateResult => {
+      if (mutateResult.isSuccessful()) {
+        return {
+          status: MutateStatus.SUCCESS,
+          resourceName: mutateResult.getResourceName(),
+        };
+      }
+      const error = mutateResult.getErrorMessages().join('\n');
+      Logger.log(error);
+      return {status: MutateStatus.FAILED, error};
+    });
+  }
+
+  /**
+   * Formats a 10-digit customer ID into XXX-XXX-XXXX format.
+   * @param cid The customer ID to format.
+   * @return The formatted customer ID.
+   * @throws An error if the CID is not 10 digits long or contains non-digits.
+   */
+  private formatCid(cid: string): string {
+    const stringCid = String(cid);
+    if (stringCid.length !== 10 || !/^\d+$/.test(stringCid)) {
+      throw new Error(`Invalid CID '${cid}'. Expected a 10-digit string.`);
+    }
+    return [
+      stringCid.slice(0, 3),
+      stringCid.slice(3, 6),
+      stringCid.slice(6, 10),
+    ].join('-');
+  }
+}
+
+interface ApiResponse<T> {
+  error?: {
+    message: string;
+  };
+  results: T[];
+}
+
+interface MutateResponse {
+  mutateOperationResponses?: Array<{
+    [result: string]: {resourceName?: string} | undefined;
+  }>;
+  partialFailureError?: {
+    message: string;
+    details?: Array<{
+      errors?: Array<{
+        message: string;
+        location?: {
+          fieldPathElements?: Array<{fieldName: string; index?: number}>;
+        };
+      }>;
+    }>;
+  };
+}
+
+interface ApiRequest {
+  url: string;
+  data?: object;
+}
+
+/**
+ * The JSON content of a successful API response.
+ */
+interface ApiContent {
+  content: unknown;
+}
@@ -0,0 +1,112 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {StrategyType} from './google_ads_client';
+
+/**
+ * Limits applied to target changes of a bidding strategy type.
+ */
+export interface GuardrailConfig {
+  // Maximum change from the current target, in percent, in either direction
+  maxChangePercent?: number;
+  // Absolute bounds of the new target, in the unit of the Targets sheet
+  minTarget?: number;
+  maxTarget?: number;
+}
+
+/**
+ * Guardrails configuration by bidding strategy type.
+ */
+export type GuardrailsConfig = {[type in StrategyType]: GuardrailConfig};
+
+const ROAS_GUARDRAILS: GuardrailConfig = {
+  maxChangePercent: 50,
+  minTarget: 0.1,
+  maxTarget: 100,
+};
+
+const CPA_GUARDRAILS: GuardrailConfig = {
+  maxChangePercent: 50,
+};
+
+/**
+ * Default guardrails: targets can move by at most 50% per update, and target
+ * ROAS must stay between 10% and 10000%.
+ */
+export const DEFAULT_GUARDRAILS: GuardrailsConfig = {
+  [StrategyType.TARGET_ROAS]: ROAS_GUARDRAILS,
+  [StrategyType.MAXIMIZE_CONVERSION_VALUE]: ROAS_GUARDRAILS,
+  [StrategyType.TARGET_CPA]: CPA_GUARDRAILS,
+  [StrategyType.MAXIMIZE_CONVERSIONS]: CPA_GUARDRAILS,
+};
+
+/**
+ * Checks target changes against the configured guardrails before they are
+ * sent to Google Ads.
+ */
+export class Guardrails {
+  /**
+   * @param config The guardrails by bidding strategy type.
+   */
+  constructor(private config: GuardrailsConfig = DEFAULT_GUARDRAILS) {}
+
+  /**
+   * Checks a target change against the guardrails of its strategy type.
+   * @param strategyType The bidding strategy type.
+   * @param currentTarget The current target, or an empty string if unknown.
+   * @param newTarget The new target.
+   * @return The descriptions of the broken rules, empty if none is broken.
+   */
+  check(
+    strategyType: StrategyType,
+    currentTarget: number | string,
+    newTarget: number
+  ): string[] {
+    const config = this.config[strategyType];
+    if (!config) {
+      return [];
+    }
+
+    const violations: string[] = [];
+    if (config.minTarget !== undefined && newTarget < config.minTarget) {
+      violations.push(
+        `New target ${newTarget} is below the minimum of ${config.minTarget}`
+      );
+    }
+    if (config.maxTarget !== undefined && newTarget > config.maxTarget) {
+      violations.push(
+        `New target ${newTarget} is above the maximum of ${config.maxTarget}`
+      );
+    }
+
+    const current = Number(currentTarget);
+    if (
+      config.maxChangePercent !== undefined &&
+      currentTarget !== '' &&
+      current > 0
+    ) {
+      const changePercent = (Math.abs(newTarget - current) / current) * 100;
+      if (changePercent > config.maxChangePercent) {
+        violations.push(
+          `Change of ${changePercent.toFixed(1)}% exceeds the maximum of ` +
+            `${config.maxChangePercent}%`
+        );
+      }
+    }
+
+    return violations;
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * An HTTP request sent to the Google Ads API or to the OAuth server.
+ */
+export interface HttpRequest {
+  url: string;
+  method: 'get' | 'post';
+  contentType?: string;
+  headers?: {[name: string]: string};
+  payload?: string;
+}
+
+/**
+ * The response of an HTTP request, whatever its status.
+ */
+export interface HttpResponse {
+  status: number;
+  body: string;
+  headers: {[name: string]: string};
+}
+
+/**
+ * Sends HTTP requests, in the runtime the script is run in.
+ */
+export interface HttpTransport {
+  /**
+   * Sends requests concurrently.
+   * @param requests The requests.
+   * @return The response of each request, in the order of the requests.
+   * @throws An error if a request gets no response, e.g. a timeout or a DNS
+   *     failure, which fails all the requests sent together.
+   */
+  fetchAll(requests: HttpRequest[]): HttpResponse[];
+
+  /**
+   * Waits before the next requests, e.g. between retries.
+   * @param ms The time to wait, in milliseconds.
+   */
+  sleep(ms: number): void;
+}
+
+/**
+ * Provides the OAuth access token of the calls to the Google Ads API.
+ */
+export interface AuthProvider {
+  /**
+   * Returns a valid access token.
+   * @return The access token.
+   */
+  getAccessToken(): string;
+}
+
+/**
+ * Sends HTTP requests with UrlFetchApp, in Apps Script and Google Ads
+ * Scripts.
+ */
+export class UrlFetchTransport implements HttpTransport {
+  fetchAll(requests: HttpRequest[]): HttpResponse[] {
+    const fetchRequests = requests.map(r => {
+      const request: GoogleAppsScript.URL_Fetch.URLFetchRequest = {
+        url: r.url,
+        method: r.method,
+        headers: r.headers ?? {},
+        muteHttpExceptions: true,
+      };
+      if (r.contentType) {
+        request['contentType'] = r.contentType;
+      }
+      if (r.payload !== undefined) {
+        request['payload'] = r.payload;
+      }
+      return request;
+    });
+
+    return UrlFetchApp.fetchAll(fetchRequests).map(response => ({
+      status: response.getResponseCode(),
+      body: response.getContentText(),
+      headers: response.getHeaders() as {[name: string]: string},
+    }));
+  }
+
+  sleep(ms: number): void {
+    Utilities.sleep(ms);
+  }
+}
+
+/**
+ * Uses the OAuth token of the user running the script, with the scopes of
+ * the script manifest.
+ */
+export class ScriptAppAuth implements AuthProvider {
+  getAccessToken(): string {
+    return ScriptApp.getOAuthToken();
+  }
+}
+
+// The Google OAuth 2.0 token endpoint
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+// Access tokens are renewed this long before they expire
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Exchanges the refresh token of an OAuth client for access tokens, e.g. to
+ * run outside of Apps Script. Access tokens are renewed when they expire.
+ */
+export class RefreshTokenAuth implements AuthProvider {
+  private accessToken = '';
+  private expiresAt = 0;
+
+  /**
+   * @param clientId The ID of the OAuth client.
+   * @param clientSecret The secret of the OAuth client.
+   * @param refreshToken A refresh token of the OAuth client, with the
+   *     https://www.googleapis.com/auth/adwords scope.
+   * @param http Sends the token requests.
+   * @param now Returns the current time, in milliseconds.
+   */
+  constructor(
+    private clientId: string,
+    private clientSecret: string,
+    private refreshToken: string,
+    private http: HttpTransport,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * @throws An error if the refresh token is rejected, e.g. revoked.
+   */
+  getAccessToken(): string {
+    if (this.accessToken && this.now() < this.expiresAt) {
+      return this.accessToken;
+    }
+
+    const params: {[name: string]: string} = {
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+      refresh_token: this.refreshToken,
+      grant_type: 'refresh_token',
+    };
+    const [response] = this.http.fetchAll([
+      {
+        url: TOKEN_URL,
+        method: 'post',
+        contentType: 'application/x-www-form-urlencoded',
+        payload: Object.entries(params)
+          .map(([k, v]) => `${k}=${encodeURIComponent(v)}`)
+          .join('&'),
+      },
+    ]);
+    let token: TokenResponse;
+    try {
+      token = JSON.parse(response.body);
+    } catch (e) {
+      token = {};
+    }
+    if (response.status >= 400 || !token.access_token) {
+      const reason = token.error_description ?? token.error ?? response.body;
+      throw new Error(`OAuth error: HTTP ${response.status}: ${reason}`);
+    }
+
+    this.accessToken = token.access_token;
+    this.expiresAt =
+      this.now() + (token.expires_in ?? 0) * 1000 - TOKEN_EXPIRY_MARGIN_MS;
+    return this.accessToken;
+  }
+}
+
+/**
+ * The body of a response of the OAuth token endpoint.
+ */
+interface TokenResponse {
+  access_token?: string;
+  expires_in?: number;
+  error?: string;
+  error_description?: string;
+}
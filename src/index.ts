@@ -14,119 +14,353 @@
  * limitations under the License.
  */
 
+// The rest of the configuration is read from the Settings sheet
 const SPREADSHEET_ID = 'YOUR-SPREADSHEET-ID-HERE';
 
-// Apps Script configuration
-const DEV_TOKEN = 'YOUR-DEV-TOKEN';
-const LOGIN_CUSTOMER_ID = 'YOUR-MCC-CUSTOMER-ID';
-
-// Ads Script configuration
-const CUSTOMER_IDS = ['YOUR-CUSTOMER-ID'];
-
+import {AuditLogSheet} from './audit_log_sheet';
 import {CidSheet, CustomerLabelsIndex} from './cid_sheet';
 import {GoogleAdsClient} from './google_ads_client';
+import {ApiTransport, getDefaultTransport} from './google_ads_transport';
+import {JobsSheet, ResumableJob} from './jobs_sheet';
+import {PendingChangesSheet} from './pending_changes_sheet';
+import {QueryCache} from './query_cache';
+import {RampPlansSheet} from './ramp_plans_sheet';
+import {RunReportSheet} from './run_report_sheet';
+import {SchedulesSheet} from './schedules_sheet';
+import {Settings} from './settings';
+import {SettingsSheet} from './settings_sheet';
 import {SimulationsSheet} from './simulations_sheet';
 import {SpreadsheetService} from './spreadsheet_service';
 import {SuggestedTargetsSheet} from './suggestions_sheet';
 import {TargetsSheet} from './targets_sheet';
 
 const spreadsheetService = new SpreadsheetService(SPREADSHEET_ID);
+// For the jobs to stop before the execution time limit
+const EXECUTION_START = Date.now();
+// Shared by the clients of an execution, so that the loads run one after the
+// other fetch the cached queries once
+let queryCache: QueryCache | undefined;
+
+function getSettings(): Settings {
+  return new SettingsSheet(spreadsheetService).getSettings();
+}
 
-function googleAdsClient(): GoogleAdsClient {
+function googleAdsClient(settings: Settings): GoogleAdsClient {
   const cidSheet = new CidSheet(spreadsheetService);
   const cids = cidSheet.getCustomerIds();
-  return new GoogleAdsClient(DEV_TOKEN, LOGIN_CUSTOMER_ID, cids);
+  queryCache ??= new QueryCache(settings.queryCacheMinutes);
+  return new GoogleAdsClient(
+    getDefaultTransport(
+      settings.devToken,
+      settings.loginCustomerId,
+      settings.retry,
+      settings.apiConcurrency,
+      settings.apiVersion
+    ),
+    cids,
+    queryCache
+  );
+}
+
+/**
+ * Runs a load, then writes what was fetched from each account to the Run
+ * report sheet, whether the load completes or not
+ */
+function runLoad<T>(load: string, client: GoogleAdsClient, run: () => T): T {
+  try {
+    return run();
+  } finally {
+    writeRunReport(load, client);
+  }
+}
+
+function writeRunReport(load: string, client: GoogleAdsClient): void {
+  new RunReportSheet(spreadsheetService).write(
+    load,
+    client.getAccountReports()
+  );
+}
+
+/**
+ * Throws an error listing the accounts whose data could not be fetched, once
+ * the data of the other accounts is written
+ */
+function reportFailures(...clients: GoogleAdsClient[]): void {
+  const failures = Object.entries(
+    Object.assign({}, ...clients.map(c => c.getFailures()))
+  );
+  if (failures.length > 0) {
+    throw new Error(
+      `The data of ${failures.length} account(s) could not be loaded:\n` +
+        failures.map(([cid, error]) => `${cid}: ${error}`).join('\n')
+    );
+  }
+}
+
+function jobsSheet(): JobsSheet {
+  return new JobsSheet(spreadsheetService, EXECUTION_START);
+}
+
+function getLoadJobs(settings: Settings): ResumableJob[] {
+  return [
+    new SimulationsSheet(spreadsheetService),
+    new SuggestedTargetsSheet(spreadsheetService, settings),
+  ];
 }
 
 /**
  * Function to initialize the spreadsheet
  */
 export function initializeSheets(): void {
+  // The Settings sheet comes first, as the other headers depend on it
+  const settingsSheet = new SettingsSheet(spreadsheetService);
+  settingsSheet.initializeSheet();
+  const settings = settingsSheet.getSettings();
+
   const simulationsSheet = new SimulationsSheet(spreadsheetService);
-  const targetsSheet = new TargetsSheet(spreadsheetService);
+  const targetsSheet = new TargetsSheet(spreadsheetService, settings);
   const cidSheet = new CidSheet(spreadsheetService);
-  const suggestedTargetsSheet = new SuggestedTargetsSheet(spreadsheetService);
+  const suggestedTargetsSheet = new SuggestedTargetsSheet(
+    spreadsheetService,
+    settings
+  );
+  const pendingChangesSheet = new PendingChangesSheet(spreadsheetService);
+  const auditLogSheet = new AuditLogSheet(spreadsheetService);
+  const rampPlansSheet = new RampPlansSheet(spreadsheetService, settings);
+  const schedulesSheet = new SchedulesSheet(spreadsheetService);
+  const jobsSheet = new JobsSheet(spreadsheetService);
+  const runReportSheet = new RunReportSheet(spreadsheetService);
 
   targetsSheet.initializeSheet();
   simulationsSheet.initializeSheet();
   cidSheet.initializeSheet();
   suggestedTargetsSheet.initializeSheet();
+  pendingChangesSheet.initializeSheet();
+  auditLogSheet.initializeSheet();
+  rampPlansSheet.initializeSheet();
+  schedulesSheet.initializeSheet();
+  jobsSheet.initializeSheet();
+  runReportSheet.initializeSheet();
 }
 
 /**
  * Updates bidding strategy targets via Google Ads API
  */
 export function updateTargets(): void {
-  const targetsSheet = new TargetsSheet(spreadsheetService);
-  targetsSheet.update(googleAdsClient());
+  const settings = getSettings();
+  const targetsSheet = new TargetsSheet(spreadsheetService, settings);
+  targetsSheet.update(googleAdsClient(settings));
+}
+
+/**
+ * Updates the bidding strategy targets scheduled with an Apply on time that
+ * has passed. Meant to be run by a time-driven trigger, e.g. every hour
+ */
+export function applyScheduledTargets(): void {
+  const settings = getSettings();
+  const targetsSheet = new TargetsSheet(spreadsheetService, settings);
+  targetsSheet.applyScheduled(googleAdsClient(settings));
+}
+
+/**
+ * Carries out the plans of the Ramp plans sheet, sending the steps that are
+ * due. Meant to be run by a time-driven trigger, e.g. every day
+ */
+export function runRampPlans(): void {
+  const settings = getSettings();
+  const rampPlansSheet = new RampPlansSheet(spreadsheetService, settings);
+  rampPlansSheet.run(
+    googleAdsClient(settings),
+    new TargetsSheet(spreadsheetService, settings)
+  );
+}
+
+/**
+ * Previews bidding strategy target updates in the Pending changes sheet,
+ * validating them via Google Ads API without applying them
+ */
+export function previewTargets(): void {
+  const settings = getSettings();
+  const targetsSheet = new TargetsSheet(spreadsheetService, settings);
+  targetsSheet.preview(googleAdsClient(settings));
+}
+
+/**
+ * Reverts the last bidding strategy target update logged in the Audit log
+ */
+export function revertLastUpdate(): void {
+  const settings = getSettings();
+  const targetsSheet = new TargetsSheet(spreadsheetService, settings);
+  targetsSheet.revertLastUpdate(googleAdsClient(settings));
 }
 
 /**
  * Loads bidding targets from API to spreadsheet
  */
 export function loadTargets(): void {
-  const targetsSheet = new TargetsSheet(spreadsheetService);
-  targetsSheet.load(googleAdsClient());
+  const settings = getSettings();
+  const targetsSheet = new TargetsSheet(spreadsheetService, settings);
+  const client = googleAdsClient(settings);
+  runLoad(TargetsSheet.TARGETS_SHEET, client, () => targetsSheet.load(client));
+  reportFailures(client);
 }
 
 /**
- * Loads bidding strategies simulations from API to spreadsheet
+ * Loads bidding strategies simulations from API to spreadsheet, as a job
+ * resumed by a trigger if it does not fit in a single execution
  */
 export function loadSimulations(): void {
   const simulationsSheet = new SimulationsSheet(spreadsheetService);
-  simulationsSheet.load(googleAdsClient());
+  const client = googleAdsClient(getSettings());
+  runLoad(simulationsSheet.jobName, client, () =>
+    jobsSheet().run(simulationsSheet, client)
+  );
+  reportFailures(client);
 }
 
 /**
- * Loads all cids under LOGIN_CUSTOMER_ID from API to spreadsheet
+ * Loads all cids under the LOGIN_CUSTOMER_ID setting from API to spreadsheet
  */
 export function loadCids(): void {
+  const settings = getSettings();
   const cidSheet = new CidSheet(spreadsheetService);
   cidSheet.loadCids(
-    new GoogleAdsClient(DEV_TOKEN, LOGIN_CUSTOMER_ID, []),
-    LOGIN_CUSTOMER_ID
+    // The manager account itself cannot be searched through AdsApp
+    new GoogleAdsClient(
+      new ApiTransport(
+        settings.devToken,
+        settings.loginCustomerId,
+        settings.retry,
+        settings.apiConcurrency,
+        settings.apiVersion
+      ),
+      []
+    ),
+    settings.loginCustomerId
   );
 }
 
 /**
- * Loads bidding suggestions from API to spreadsheet.
+ * Loads bidding suggestions from API to spreadsheet, as a job resumed by a
+ * trigger if it does not fit in a single execution.
  */
 export function loadSuggestions(): void {
-  const suggestionsSheet = new SuggestedTargetsSheet(spreadsheetService);
-  suggestionsSheet.load(googleAdsClient());
+  const settings = getSettings();
+  const suggestionsSheet = new SuggestedTargetsSheet(
+    spreadsheetService,
+    settings
+  );
+  const client = googleAdsClient(settings);
+  runLoad(suggestionsSheet.jobName, client, () =>
+    jobsSheet().run(suggestionsSheet, client)
+  );
+  reportFailures(client);
 }
+
+/**
+ * Resumes the loads that did not fit in a single execution. Run by the
+ * continuation triggers of the jobs
+ */
+export function resumeJobs(): void {
+  const settings = getSettings();
+  const clients: {[load: string]: GoogleAdsClient} = {};
+  try {
+    jobsSheet().resume(
+      getLoadJobs(settings),
+      job => (clients[job.jobName] = googleAdsClient(settings))
+    );
+  } finally {
+    for (const [load, client] of Object.entries(clients)) {
+      writeRunReport(load, client);
+    }
+  }
+  reportFailures(...Object.values(clients));
+}
+
+/**
+ * Installs a time-driven trigger per schedule of the Schedules sheet,
+ * replacing the existing triggers of the schedulable functions
+ */
+export function installSchedules(): void {
+  new SchedulesSheet(spreadsheetService).install();
+}
+
+/**
+ * Lists the time-driven triggers of the schedulable functions in the
+ * Schedules sheet
+ */
+export function listSchedules(): void {
+  new SchedulesSheet(spreadsheetService).list();
+}
+
+/**
+ * Removes the time-driven triggers of the schedulable functions
+ */
+export function removeSchedules(): void {
+  new SchedulesSheet(spreadsheetService).remove();
+}
+
 /**
  * Executed when opening the spreadsheet
  */
 export function onOpen(): void {
-  SpreadsheetApp.getUi()
-    .createMenu('Ads Bidding')
+  const ui = SpreadsheetApp.getUi();
+  ui.createMenu('Ads Bidding')
     .addItem('Initialize spreadsheet', 'initializeSheets')
     .addItem('Load Customer Ids', 'loadCids')
     .addSeparator()
     .addItem('Load targets', 'loadTargets')
+    .addItem('Preview update', 'previewTargets')
     .addItem('Update targets', 'updateTargets')
+    .addItem('Revert last update', 'revertLastUpdate')
     .addSeparator()
     .addItem('Load Simulations', 'loadSimulations')
     .addItem('Load Suggestions', 'loadSuggestions')
+    .addSeparator()
+    .addSubMenu(
+      ui
+        .createMenu('Schedules')
+        .addItem('Install schedules', 'installSchedules')
+        .addItem('List schedules', 'listSchedules')
+        .addItem('Remove schedules', 'removeSchedules')
+    )
     .addToUi();
 }
 
 /**
- * Ads Script main function, loads targets & simulations of CUSTOMER_IDS
+ * Ads Script main function, applies the scheduled targets and ramp plans, then
+ * loads targets & simulations of the CUSTOMER_IDS setting. The loads that do not
+ * fit in a run are resumed by the next one
  */
 export function main(): void {
   initializeSheets();
   spreadsheetService.clearSheet(CidSheet.CID_SHEET);
   spreadsheetService.appendRows(
     CidSheet.CID_SHEET,
-    CUSTOMER_IDS.map(cid => {
+    getSettings().customerIds.map(cid => {
       const row = new Array(CustomerLabelsIndex.CUSTOMER_ID + 1);
       row[CustomerLabelsIndex.CUSTOMER_ID] = cid;
       return row;
-    })
+    }),
+    new CidSheet(spreadsheetService).getCustomerHeaders()
+  );
+  applyScheduledTargets();
+  runRampPlans();
+  const settings = getSettings();
+  const targetsClient = googleAdsClient(settings);
+  const clients = [targetsClient];
+  runLoad(TargetsSheet.TARGETS_SHEET, targetsClient, () =>
+    new TargetsSheet(spreadsheetService, settings).load(targetsClient)
   );
-  loadTargets();
-  loadSimulations();
-  loadSuggestions();
+  // Loads that did not fit in the previous run are resumed
+  for (const job of getLoadJobs(settings)) {
+    const client = googleAdsClient(settings);
+    clients.push(client);
+    if (
+      !runLoad(job.jobName, client, () => jobsSheet().run(job, client, true))
+    ) {
+      break;
+    }
+  }
+  reportFailures(...clients);
 }
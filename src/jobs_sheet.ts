@@ -0,0 +1,323 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {GoogleAdsClient} from './google_ads_client';
+import {TableStorage} from './table_storage';
+import {TriggerService} from './trigger_service';
+
+/**
+ * Enum for Jobs sheet columns
+ */
+export enum JobsLabelsIndex {
+  JOB = 0,
+  STATUS = 1,
+  CHUNKS_DONE = 2,
+  CHUNKS_TOTAL = 3,
+  CUSTOMER_IDS = 4,
+  STARTED_ON = 5,
+  UPDATED_ON = 6,
+  NOTE = 7,
+}
+
+/**
+ * The status of a job.
+ */
+export enum JobStatus {
+  IN_PROGRESS = 'IN PROGRESS',
+  COMPLETE = 'COMPLETE',
+  FAILED = 'FAILED',
+}
+
+/**
+ * The entity types a job is split by, for each customer ID.
+ */
+export enum ChunkType {
+  BIDDING_STRATEGY = 'BIDDING_STRATEGY',
+  CAMPAIGN = 'CAMPAIGN',
+  AD_GROUP = 'AD_GROUP',
+}
+
+/**
+ * A load that can be split into chunks, one per customer ID and entity type,
+ * and spread over several executions.
+ */
+export interface ResumableJob {
+  // The name of the job, which identifies its row in the Jobs sheet
+  readonly jobName: string;
+
+  /**
+   * Prepares a new run of the job, e.g. removes the rows of the customer IDs
+   * that are not part of it anymore.
+   * @param cids The customer IDs of the run.
+   */
+  start(cids: string[]): void;
+
+  /**
+   * Loads a chunk of the job.
+   * @param googleAdsClient A client for the customer ID of the chunk.
+   * @param chunkType The entity type of the chunk.
+   */
+  loadChunk(googleAdsClient: GoogleAdsClient, chunkType: ChunkType): void;
+
+  /**
+   * Completes the job once all its chunks are loaded.
+   */
+  complete(): void;
+}
+
+// The function resuming the jobs from continuation triggers
+export const RESUME_HANDLER = 'resumeJobs';
+
+// Time after which no new chunk is started, well before the execution time
+// limit of Apps Script (6 minutes) and Google Ads Scripts (30 minutes)
+const APPS_SCRIPT_BUDGET_MS = 4.5 * 60 * 1000;
+const ADS_SCRIPTS_BUDGET_MS = 25 * 60 * 1000;
+const CONTINUATION_DELAY_MS = 60 * 1000;
+
+const CHUNK_TYPES = Object.values(ChunkType);
+
+/**
+ * The progress of a job, saved in its row of the Jobs sheet.
+ */
+interface Checkpoint {
+  chunksDone: number;
+  cids: string[];
+}
+
+/**
+ * A class for handling operations related to the "Jobs" sheet.
+ *
+ * Long loads are run as jobs, split into chunks. After each chunk, the
+ * progress of the job is saved as a checkpoint in the sheet, and the job
+ * stops before the execution time limit. It is resumed by a continuation
+ * trigger in Apps Script, and by the next run of the script in Google Ads
+ * Scripts. A job is marked COMPLETE only once all its chunks are loaded.
+ */
+export class JobsSheet {
+  static readonly JOBS_SHEET = 'Jobs';
+
+  /**
+   * @param storage The storage of the sheets.
+   * @param executionStart The time the execution started, in milliseconds,
+   *     to stop before its time limit.
+   * @param triggerService The service creating the continuation triggers.
+   */
+  constructor(
+    private storage: TableStorage,
+    private executionStart = Date.now(),
+    private triggerService: TriggerService = new TriggerService()
+  ) {}
+
+  /**
+   * Initializes the Jobs sheet with its headers.
+   */
+  initializeSheet(): void {
+    const headers = this.getJobsHeaders();
+    this.storage.insertSheet(JobsSheet.JOBS_SHEET, headers);
+    // Keeps the list of customer IDs from being read as a number
+    this.storage.setColumnFormat(
+      JobsSheet.JOBS_SHEET,
+      headers[JobsLabelsIndex.CUSTOMER_IDS],
+      '@'
+    );
+  }
+
+  /**
+   * Runs a job over the customer IDs of the client, until it is complete or
+   * the execution is about to time out.
+   * @param job The job.
+   * @param googleAdsClient instance of GoogleAdsClient
+   * @param resume Whether to resume the job if it is not complete, rather
+   *     than start it again.
+   * @return Whether the job is complete.
+   */
+  run(
+    job: ResumableJob,
+    googleAdsClient: GoogleAdsClient,
+    resume = false
+  ): boolean {
+    let checkpoint = resume ? this.getCheckpoint(job) : undefined;
+    if (!checkpoint) {
+      checkpoint = {chunksDone: 0, cids: googleAdsClient.getCids()};
+      job.start(checkpoint.cids);
+      this.saveCheckpoint(job, checkpoint, JobStatus.IN_PROGRESS, '', true);
+    }
+    return this.process(job, googleAdsClient, checkpoint);
+  }
+
+  /**
+   * Resumes the jobs that are not complete, one after the other. Meant to be
+   * run by the continuation triggers.
+   * @param jobs The jobs.
+   * @param googleAdsClient Returns the client of a job, so that each job
+   *     reports its own accounts.
+   */
+  resume(
+    jobs: ResumableJob[],
+    googleAdsClient: (job: ResumableJob) => GoogleAdsClient
+  ): void {
+    if (this.triggerService.isAvailable()) {
+      this.triggerService.deleteTriggers(RESUME_HANDLER);
+    }
+    for (const job of jobs) {
+      const checkpoint = this.getCheckpoint(job);
+      if (checkpoint && !this.process(job, googleAdsClient(job), checkpoint)) {
+        return;
+      }
+    }
+  }
+
+  private process(
+    job: ResumableJob,
+    googleAdsClient: GoogleAdsClient,
+    checkpoint: Checkpoint
+  ): boolean {
+    const total = checkpoint.cids.length * CHUNK_TYPES.length;
+    while (checkpoint.chunksDone < total) {
+      if (this.isOutOfTime()) {
+        this.saveCheckpoint(
+          job,
+          checkpoint,
+          JobStatus.IN_PROGRESS,
+          this.scheduleContinuation()
+        );
+        return false;
+      }
+
+      const cid =
+        checkpoint.cids[Math.floor(checkpoint.chunksDone / CHUNK_TYPES.length)];
+      const chunkType = CHUNK_TYPES[checkpoint.chunksDone % CHUNK_TYPES.length];
+      try {
+        job.loadChunk(googleAdsClient.withCids([cid]), chunkType);
+      } catch (e) {
+        this.saveCheckpoint(
+          job,
+          checkpoint,
+          JobStatus.FAILED,
+          `${chunkType} of ${cid}: ${(e as Error).message}`
+        );
+        throw e;
+      }
+      checkpoint.chunksDone++;
+      this.saveCheckpoint(job, checkpoint, JobStatus.IN_PROGRESS, '');
+    }
+
+    job.complete();
+    this.saveCheckpoint(job, checkpoint, JobStatus.COMPLETE, '');
+    return true;
+  }
+
+  private isOutOfTime(): boolean {
+    const budget =
+      typeof AdsApp !== 'undefined'
+        ? ADS_SCRIPTS_BUDGET_MS
+        : APPS_SCRIPT_BUDGET_MS;
+    return Date.now() - this.executionStart > budget;
+  }
+
+  /**
+   * Schedules the next execution of the jobs that are not complete.
+   * @return A note on when the jobs are resumed.
+   */
+  private scheduleContinuation(): string {
+    if (!this.triggerService.isAvailable()) {
+      return 'Resumed by the next run of the script';
+    }
+    this.triggerService.createContinuation(
+      RESUME_HANDLER,
+      CONTINUATION_DELAY_MS
+    );
+    return 'Resumed in a minute by a trigger';
+  }
+
+  /**
+   * Returns the checkpoint of a job that is not complete, undefined if the
+   * job is complete or was never run.
+   */
+  private getCheckpoint(job: ResumableJob): Checkpoint | undefined {
+    const row = this.storage
+      .readRows(JobsSheet.JOBS_SHEET, this.getJobsHeaders())
+      .find(r => String(r[JobsLabelsIndex.JOB]) === job.jobName);
+    if (!row || row[JobsLabelsIndex.STATUS] === JobStatus.COMPLETE) {
+      return undefined;
+    }
+    return {
+      chunksDone: Number(row[JobsLabelsIndex.CHUNKS_DONE]) || 0,
+      cids: String(row[JobsLabelsIndex.CUSTOMER_IDS])
+        .split(',')
+        .map(cid => cid.trim())
+        .filter(cid => cid !== ''),
+    };
+  }
+
+  private saveCheckpoint(
+    job: ResumableJob,
+    checkpoint: Checkpoint,
+    status: JobStatus,
+    note: string,
+    started = false
+  ): void {
+    const headers = this.getJobsHeaders();
+    const now = new Date().toISOString();
+    const row: Array<string | number> = [];
+    row[JobsLabelsIndex.JOB] = job.jobName;
+    row[JobsLabelsIndex.STATUS] = status;
+    row[JobsLabelsIndex.CHUNKS_DONE] = checkpoint.chunksDone;
+    row[JobsLabelsIndex.CHUNKS_TOTAL] =
+      checkpoint.cids.length * CHUNK_TYPES.length;
+    row[JobsLabelsIndex.CUSTOMER_IDS] = checkpoint.cids.join(', ');
+    row[JobsLabelsIndex.STARTED_ON] = now;
+    row[JobsLabelsIndex.UPDATED_ON] = now;
+    row[JobsLabelsIndex.NOTE] = note;
+
+    const exists = this.storage
+      .readRows(JobsSheet.JOBS_SHEET, headers)
+      .some(r => String(r[JobsLabelsIndex.JOB]) === job.jobName);
+    if (!exists) {
+      this.storage.appendRows(JobsSheet.JOBS_SHEET, [row], headers);
+      return;
+    }
+    // The start time is only written when the job starts
+    const columns = headers.filter(
+      (_h, i) =>
+        i !== JobsLabelsIndex.JOB &&
+        (started || i !== JobsLabelsIndex.STARTED_ON)
+    );
+    this.storage.updateColumnsById(
+      JobsSheet.JOBS_SHEET,
+      headers[JobsLabelsIndex.JOB],
+      columns,
+      {[job.jobName]: columns.map(h => row[headers.indexOf(h)])}
+    );
+  }
+
+  /**
+   * Returns the headers for the Jobs sheet.
+   */
+  private getJobsHeaders(): string[] {
+    const headers: string[] = [];
+    headers[JobsLabelsIndex.JOB] = 'Job';
+    headers[JobsLabelsIndex.STATUS] = 'Status';
+    headers[JobsLabelsIndex.CHUNKS_DONE] = 'Chunks done';
+    headers[JobsLabelsIndex.CHUNKS_TOTAL] = 'Chunks total';
+    headers[JobsLabelsIndex.CUSTOMER_IDS] = 'Customer IDs';
+    headers[JobsLabelsIndex.STARTED_ON] = 'Started on';
+    headers[JobsLabelsIndex.UPDATED_ON] = 'Updated on';
+    headers[JobsLabelsIndex.NOTE] = 'Note';
+
+    return headers;
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  Cell,
+  MergeOptions,
+  TableStorage,
+  mergeTable,
+  resolveColumns,
+} from './table_storage';
+
+/**
+ * A table kept in memory.
+ */
+export interface Table {
+  headers: string[];
+  rows: Cell[][];
+}
+
+/**
+ * A storage keeping the tables in memory, with the same semantics as the
+ * sheets of a spreadsheet. Formats, highlights and formulas are ignored.
+ *
+ * Runs the sheets classes without a spreadsheet, e.g. from the command line or
+ * in tests.
+ */
+export class MemoryStorage implements TableStorage {
+  private tables = new Map<string, Table>();
+
+  /**
+   * Returns a table.
+   * @param sheetName The name of the table.
+   * @return The table, whose rows are as long as its headers.
+   * @throws An error if the table is not found.
+   */
+  getTable(sheetName: string): Table {
+    const table = this.findTable(sheetName);
+    if (!table) {
+      throw new Error(
+        `Sheet ${sheetName} cannot be found. Please initialize first.`
+      );
+    }
+    return table;
+  }
+
+  /**
+   * Replaces a table, or adds it.
+   * @param sheetName The name of the table.
+   * @param table The table.
+   */
+  setTable(sheetName: string, table: Table): void {
+    this.tables.set(sheetName, {
+      headers: [...table.headers],
+      rows: table.rows.map(r => table.headers.map((_h, i) => r[i] ?? '')),
+    });
+    this.save?.(sheetName, this.getTable(sheetName));
+  }
+
+  insertSheet(sheetName: string, headers: string[]): void {
+    const table = this.findTable(sheetName) ?? {headers: [], rows: []};
+    const missingHeaders = headers.filter(h => !table.headers.includes(h));
+    this.setTable(sheetName, {
+      headers: [...table.headers, ...missingHeaders],
+      rows: table.rows,
+    });
+  }
+
+  readRows<T = Cell>(sheetName: string, headers: string[]): T[][] {
+    const table = this.getTable(sheetName);
+    const columns = resolveColumns(sheetName, table.headers, headers);
+    return table.rows.map(r => columns.map(c => r[c] as unknown as T));
+  }
+
+  getColumnIndexes(sheetName: string, headers: string[]): number[] {
+    return resolveColumns(sheetName, this.getTable(sheetName).headers, headers);
+  }
+
+  appendRows(sheetName: string, rows: Cell[][], headers?: string[]): void {
+    if (rows.length === 0) {
+      return;
+    }
+    const table = this.getTable(sheetName);
+    if (headers) {
+      const columns = resolveColumns(sheetName, table.headers, headers);
+      rows = rows.map(r => {
+        const row: Cell[] = new Array(table.headers.length).fill('');
+        columns.forEach((column, i) => (row[column] = r[i] ?? ''));
+        return row;
+      });
+    }
+    this.setTable(sheetName, {
+      headers: table.headers,
+      rows: [...table.rows, ...rows],
+    });
+  }
+
+  mergeRows(
+    sheetName: string,
+    headers: string[],
+    apiRows: Cell[][],
+    idColumn: number,
+    options: MergeOptions
+  ): void {
+    const table = this.getTable(sheetName);
+    this.setTable(
+      sheetName,
+      mergeTable(table.headers, table.rows, headers, apiRows, idColumn, options)
+    );
+  }
+
+  updateColumnsById(
+    sheetName: string,
+    idHeader: string,
+    headers: string[],
+    valuesById: {[id: string]: Array<Cell | Date>}
+  ): void {
+    const table = this.getTable(sheetName);
+    const [idColumn, ...columns] = resolveColumns(sheetName, table.headers, [
+      idHeader,
+      ...headers,
+    ]);
+    const rows = table.rows.map(r => {
+      const values = valuesById[String(r[idColumn])];
+      const row = [...r];
+      columns.forEach((column, i) => {
+        const value = values?.[i];
+        if (value !== undefined) {
+          // Dates are kept as text, like the other timestamps of the tables
+          row[column] = value instanceof Date ? value.toISOString() : value;
+        }
+      });
+      return row;
+    });
+    this.setTable(sheetName, {headers: table.headers, rows});
+  }
+
+  deleteRows(
+    sheetName: string,
+    headers: string[],
+    matches: (row: Cell[]) => boolean
+  ): number {
+    const table = this.getTable(sheetName);
+    const values = this.readRows(sheetName, headers);
+    const rows = table.rows.filter((_r, i) => !matches(values[i]));
+    if (rows.length < table.rows.length) {
+      this.setTable(sheetName, {headers: table.headers, rows});
+    }
+    return table.rows.length - rows.length;
+  }
+
+  clearSheet(sheetName: string): void {
+    this.setTable(sheetName, {
+      headers: this.getTable(sheetName).headers,
+      rows: [],
+    });
+  }
+
+  // Formats, highlights and formulas only check that their columns exist
+
+  setColumnFormat(sheetName: string, header: string): void {
+    this.getColumnIndexes(sheetName, [header]);
+  }
+
+  setThresholdHighlights(sheetName: string, headers: string[]): void {
+    this.getColumnIndexes(sheetName, headers);
+  }
+
+  fillFormulas(sheetName: string, formulas: {[header: string]: string}): void {
+    this.getColumnIndexes(sheetName, Object.keys(formulas));
+  }
+
+  private findTable(sheetName: string): Table | undefined {
+    let table = this.tables.get(sheetName);
+    if (!table) {
+      table = this.load?.(sheetName);
+      if (table) {
+        this.tables.set(sheetName, table);
+      }
+    }
+    return table;
+  }
+
+  /**
+   * Loads a table that is not in memory yet, e.g. from a file.
+   * @param sheetName The name of the table.
+   * @return The table, undefined if it does not exist.
+   */
+  protected load?(sheetName: string): Table | undefined;
+
+  /**
+   * Saves a table after each change, e.g. to a file.
+   * @param sheetName The name of the table.
+   * @param table The table.
+   */
+  protected save?(sheetName: string, table: Table): void;
+}
@@ -0,0 +1,286 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {GoogleAdsClient, MutateStatus} from '../google_ads_client';
+import {
+  API_ENDPOINT,
+  ApiTransport,
+  GoogleAdsTransport,
+} from '../google_ads_transport';
+import {RefreshTokenAuth} from '../http_transport';
+import {MemoryStorage} from '../memory_storage';
+import {getCustomerId} from '../resource_names';
+import {DEFAULT_SETTINGS} from '../settings';
+import {SuggestedTargetsSheet} from '../suggestions_sheet';
+import {TargetsSheet, TargetsLabelsIndex} from '../targets_sheet';
+import {parseCsv, parseCsvValue, toCsv, toJson} from './csv';
+import {CsvStorage} from './csv_storage';
+import {FetchTransport} from './fetch_transport';
+
+export const USAGE = `Usage: abm <command> [options]
+
+Commands:
+  load-targets            Writes the bidding targets of the accounts
+  suggestions             Writes the suggested targets of the accounts
+  update --file <csv>     Sends the new targets of a file in the layout of
+                          the Targets sheet, and writes the outcome of each row
+
+Options:
+  --cids <ids>            Comma-separated customer IDs. Defaults to the
+                          customer IDs of the rows for update
+  --format <csv|json>     Output format, csv by default
+  --output <path>         Output file, stdout by default
+  --dir <path>            Directory of the CSV files keeping the sheets between
+                          runs, e.g. the new targets of Targets.csv, for
+                          load-targets and suggestions
+
+Environment:
+  GOOGLE_ADS_DEVELOPER_TOKEN, GOOGLE_ADS_LOGIN_CUSTOMER_ID,
+  GOOGLE_ADS_CLIENT_ID, GOOGLE_ADS_CLIENT_SECRET, GOOGLE_ADS_REFRESH_TOKEN,
+  GOOGLE_ADS_API_ENDPOINT (optional, e.g. a local stand-in server),
+  GOOGLE_ADS_API_VERSION (optional, e.g. v20)
+`;
+
+const COMMANDS = ['load-targets', 'suggestions', 'update'];
+const FORMATS = ['csv', 'json'];
+
+/**
+ * The options of a run of the command line interface.
+ */
+export interface CliOptions {
+  command: string;
+  cids: string[];
+  format: string;
+  output?: string;
+  file?: string;
+  dir?: string;
+}
+
+/**
+ * What the command line interface reads and writes.
+ */
+export interface CliIo {
+  readFile(path: string): string;
+  // Writes to stdout if no path is given
+  write(text: string, path?: string): void;
+  // Reports errors and warnings, on stderr
+  error(text: string): void;
+}
+
+/**
+ * Parses the arguments of the command line.
+ * @param args The arguments, without the node and script paths.
+ * @return The options.
+ * @throws An error if an argument is unknown or invalid.
+ */
+export function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = {command: '', cids: [], format: 'csv'};
+  for (let i = 0; i < args.length; i++) {
+    const [arg, inlineValue] = args[i].split(/=(.*)/s);
+    if (!arg.startsWith('--')) {
+      if (options.command) {
+        throw new Error(`Unexpected argument: ${arg}`);
+      }
+      options.command = arg;
+      continue;
+    }
+    const value = inlineValue ?? args[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value of ${arg}`);
+    }
+    switch (arg) {
+      case '--cids':
+        options.cids = value
+          .split(',')
+          .map(cid => cid.trim().replace(/-/g, ''))
+          .filter(cid => cid !== '');
+        break;
+      case '--format':
+        options.format = value;
+        break;
+      case '--output':
+        options.output = value;
+        break;
+      case '--file':
+        options.file = value;
+        break;
+      case '--dir':
+        options.dir = value;
+        break;
+      default:
+        throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  if (!COMMANDS.includes(options.command)) {
+    throw new Error(
+      options.command ? `Unknown command: ${options.command}` : 'No command'
+    );
+  }
+  if (!FORMATS.includes(options.format)) {
+    throw new Error(`Unknown format: ${options.format}`);
+  }
+  if (options.command === 'update' && !options.file) {
+    throw new Error('The update command requires --file');
+  }
+  if (options.command !== 'update' && options.cids.length === 0) {
+    throw new Error(`The ${options.command} command requires --cids`);
+  }
+  return options;
+}
+
+/**
+ * Returns a transport calling the Google Ads API with the credentials of the
+ * environment variables.
+ * @param env The environment variables.
+ * @return The transport.
+ * @throws An error if a credential is missing.
+ */
+export function createTransport(env: {
+  [name: string]: string | undefined;
+}): GoogleAdsTransport {
+  const required = [
+    'GOOGLE_ADS_DEVELOPER_TOKEN',
+    'GOOGLE_ADS_CLIENT_ID',
+    'GOOGLE_ADS_CLIENT_SECRET',
+    'GOOGLE_ADS_REFRESH_TOKEN',
+  ];
+  const missing = required.filter(name => !env[name]);
+  if (missing.length > 0) {
+    throw new Error(`Missing environment variables: ${missing.join(', ')}`);
+  }
+
+  const http = new FetchTransport();
+  return new ApiTransport(
+    env.GOOGLE_ADS_DEVELOPER_TOKEN!,
+    (env.GOOGLE_ADS_LOGIN_CUSTOMER_ID ?? '').replace(/-/g, ''),
+    DEFAULT_SETTINGS.retry,
+    DEFAULT_SETTINGS.apiConcurrency,
+    env.GOOGLE_ADS_API_VERSION || DEFAULT_SETTINGS.apiVersion,
+    http,
+    new RefreshTokenAuth(
+      env.GOOGLE_ADS_CLIENT_ID!,
+      env.GOOGLE_ADS_CLIENT_SECRET!,
+      env.GOOGLE_ADS_REFRESH_TOKEN!,
+      http
+    ),
+    env.GOOGLE_ADS_API_ENDPOINT || API_ENDPOINT
+  );
+}
+
+/**
+ * Runs a command of the command line interface.
+ *
+ * The load commands run the same loads as the spreadsheet, on sheets kept in
+ * the storage, and write the resulting sheet.
+ * @param options The options of the run.
+ * @param io Reads the input file and writes the output.
+ * @param transport Returns the transport of the Google Ads calls.
+ * @param storage The storage of the sheets: the CSV files of the directory
+ *     option, if any, and memory otherwise.
+ * @return The exit code: 1 if an account could not be loaded or a change
+ *     failed, 0 otherwise.
+ */
+export function runCli(
+  options: CliOptions,
+  io: CliIo,
+  transport: () => GoogleAdsTransport,
+  storage: MemoryStorage = options.dir
+    ? new CsvStorage(options.dir)
+    : new MemoryStorage()
+): number {
+  let headers: string[];
+  let rows: Array<Array<string | number | boolean>>;
+  let failed = false;
+  let client: GoogleAdsClient;
+
+  if (options.command === 'update') {
+    const targetsSheet = new TargetsSheet(storage);
+    const changes = readChanges(
+      io.readFile(options.file!),
+      targetsSheet.getFixedHeaders()
+    );
+    const cids = options.cids.length
+      ? options.cids
+      : [
+          ...new Set(
+            changes.map(r => getCustomerId(String(r[TargetsLabelsIndex.ID])))
+          ),
+        ];
+    client = new GoogleAdsClient(transport(), cids);
+    const results = targetsSheet.sendChanges(client, changes);
+    headers = ['ID', 'Status', 'Error'];
+    rows = Object.entries(results).map(([id, r]) => [
+      id,
+      r.status,
+      r.error ?? '',
+    ]);
+    failed = Object.values(results).some(r => r.status === MutateStatus.FAILED);
+  } else {
+    const sheet =
+      options.command === 'load-targets'
+        ? new TargetsSheet(storage)
+        : new SuggestedTargetsSheet(storage);
+    client = new GoogleAdsClient(transport(), options.cids);
+    sheet.initializeSheet();
+    sheet.load(client);
+    ({headers, rows} = storage.getTable(
+      options.command === 'load-targets'
+        ? TargetsSheet.TARGETS_SHEET
+        : SuggestedTargetsSheet.SUGGESTED_TARGETS_SHEET
+    ));
+  }
+
+  for (const [cid, error] of Object.entries(client.getFailures())) {
+    io.error(`Account ${cid} could not be loaded: ${error}`);
+    failed = true;
+  }
+  io.write(
+    options.format === 'json' ? toJson(headers, rows) : toCsv(headers, rows),
+    options.output
+  );
+  return failed ? 1 : 0;
+}
+
+/**
+ * Reads the rows of a file of changes, in the layout of the Targets sheet.
+ * Columns are matched by header, and missing optional ones are left empty.
+ * Numbers are read as numbers, as in the spreadsheet.
+ */
+function readChanges(
+  csv: string,
+  fixedHeaders: string[]
+): Array<Array<string | number>> {
+  const [fileHeaders = [], ...fileRows] = parseCsv(csv);
+  // The strategy type picks the operation, and the current target is the
+  // base of relative new targets and the old target of the audit log
+  const missing = [
+    fixedHeaders[TargetsLabelsIndex.ID],
+    fixedHeaders[TargetsLabelsIndex.STRATEGY_TYPE],
+    fixedHeaders[TargetsLabelsIndex.CURRENT_TARGET],
+    fixedHeaders[TargetsLabelsIndex.NEW_TARGET],
+  ].filter(h => !fileHeaders.includes(h));
+  if (missing.length > 0) {
+    throw new Error(`Missing columns in the file: ${missing.join(', ')}`);
+  }
+
+  const indexes = fixedHeaders.map(h => fileHeaders.indexOf(h));
+  return fileRows
+    .filter(r => r.some(cell => cell.trim() !== ''))
+    .map(r =>
+      indexes.map(i => parseCsvValue(i < 0 ? '' : (r[i] ?? '').trim()))
+    );
+}
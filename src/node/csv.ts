@@ -0,0 +1,108 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Formats a table as CSV (RFC 4180), with a header row.
+ * @param headers The headers.
+ * @param rows The rows, in the order of the headers.
+ * @return The CSV text.
+ */
+export function toCsv(
+  headers: string[],
+  rows: Array<Array<string | number | boolean>>
+): string {
+  return [headers, ...rows]
+    .map(row => row.map(formatCsvCell).join(','))
+    .map(line => `${line}\r\n`)
+    .join('');
+}
+
+function formatCsvCell(value: string | number | boolean | undefined): string {
+  const text = String(value ?? '');
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Parses CSV (RFC 4180) text.
+ * @param text The CSV text.
+ * @return The rows, header row included, as text.
+ * @throws An error if a quoted cell is not closed.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  if (quoted) {
+    throw new Error('Invalid CSV: a quoted cell is not closed');
+  }
+  if (cell !== '' || row.length > 0) {
+    rows.push([...row, cell]);
+  }
+  return rows;
+}
+
+/**
+ * Reads the text of a cell as a number if it is one, as a spreadsheet does.
+ * @param cell The text of the cell.
+ * @return The number, or the text.
+ */
+export function parseCsvValue(cell: string): string | number {
+  return cell.trim() !== '' && !isNaN(Number(cell)) ? Number(cell) : cell;
+}
+
+/**
+ * Formats a table as a JSON array of objects keyed by header.
+ * @param headers The headers.
+ * @param rows The rows, in the order of the headers.
+ * @return The JSON text.
+ */
+export function toJson(
+  headers: string[],
+  rows: Array<Array<string | number | boolean>>
+): string {
+  const objects = rows.map(row =>
+    Object.fromEntries(headers.map((h, i) => [h, row[i] ?? '']))
+  );
+  return JSON.stringify(objects, null, 2) + '\n';
+}
@@ -0,0 +1,60 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from 'fs';
+
+import {MemoryStorage, Table} from '../memory_storage';
+import {parseCsv, parseCsvValue, toCsv} from './csv';
+
+/**
+ * A storage keeping each table in a CSV file of a directory, named after the
+ * table, e.g. Targets.csv. Files are read when their table is first used, and
+ * written after each change, so that the tables of a run are kept for the
+ * next one.
+ */
+export class CsvStorage extends MemoryStorage {
+  /**
+   * @param dir The directory of the files, created on the first write.
+   */
+  constructor(private dir: string) {
+    super();
+  }
+
+  /**
+   * Returns the path of the file of a table.
+   * @param sheetName The name of the table.
+   */
+  getPath(sheetName: string): string {
+    return `${this.dir}/${sheetName}.csv`;
+  }
+
+  protected load(sheetName: string): Table | undefined {
+    const path = this.getPath(sheetName);
+    if (!fs.existsSync(path)) {
+      return undefined;
+    }
+    const [headers = [], ...rows] = parseCsv(fs.readFileSync(path, 'utf8'));
+    return {
+      headers,
+      rows: rows.map(r => headers.map((_h, i) => parseCsvValue(r[i] ?? ''))),
+    };
+  }
+
+  protected save(sheetName: string, table: Table): void {
+    fs.mkdirSync(this.dir, {recursive: true});
+    fs.writeFileSync(this.getPath(sheetName), toCsv(table.headers, table.rows));
+  }
+}
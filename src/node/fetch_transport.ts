@@ -0,0 +1,140 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  MessageChannel,
+  MessagePort,
+  Worker,
+  receiveMessageOnPort,
+} from 'worker_threads';
+
+import {HttpRequest, HttpResponse, HttpTransport} from '../http_transport';
+
+// Run by a worker thread, as fetch() is asynchronous while the rest of the
+// code base is synchronous, like UrlFetchApp. Sends the requests of each
+// message, then posts the responses, or the error of the first request
+// without a response, and wakes up the main thread waiting on the signal.
+const FETCH_SCRIPT = `
+const {parentPort, workerData} = require('worker_threads');
+const {port, signal} = workerData;
+parentPort.on('message', async requests => {
+  let reply;
+  try {
+    const responses = await Promise.all(
+      requests.map(async r => {
+        const headers = {...r.headers};
+        if (r.contentType) {
+          headers['Content-Type'] = r.contentType;
+        }
+        const response = await fetch(r.url, {
+          method: r.method.toUpperCase(),
+          headers,
+          body: r.payload,
+        });
+        return {
+          status: response.status,
+          body: await response.text(),
+          headers: Object.fromEntries(response.headers),
+        };
+      })
+    );
+    reply = {responses};
+  } catch (e) {
+    reply = {error: e.cause?.message ?? e.message};
+  }
+  port.postMessage(reply);
+  Atomics.store(signal, 0, 1);
+  Atomics.notify(signal, 0);
+});
+`;
+
+/**
+ * The thread sending the requests, and how the main thread waits for it.
+ */
+interface FetchWorker {
+  worker: Worker;
+  port: MessagePort;
+  signal: Int32Array;
+}
+
+/**
+ * Sends HTTP requests with the fetch() of Node, version 18 or later.
+ *
+ * The requests are sent by a worker thread, started once and reused by all
+ * the calls, while the main thread blocks until the responses are back.
+ */
+export class FetchTransport implements HttpTransport {
+  private fetchWorker?: FetchWorker;
+
+  /**
+   * @param timeoutMs The time after which the requests sent together are
+   *     failed.
+   */
+  constructor(private timeoutMs = 5 * 60 * 1000) {}
+
+  fetchAll(requests: HttpRequest[]): HttpResponse[] {
+    if (requests.length === 0) {
+      return [];
+    }
+    const {worker, port, signal} = this.getWorker();
+    Atomics.store(signal, 0, 0);
+    worker.postMessage(requests);
+    if (Atomics.wait(signal, 0, 0, this.timeoutMs) === 'timed-out') {
+      // The requests may still be in flight, so the worker is not reused
+      this.close();
+      throw new Error(`The requests timed out after ${this.timeoutMs} ms`);
+    }
+    const {responses, error} = receiveMessageOnPort(port)!.message as {
+      responses?: HttpResponse[];
+      error?: string;
+    };
+    if (!responses) {
+      throw new Error(error);
+    }
+    return responses;
+  }
+
+  sleep(ms: number): void {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+  }
+
+  /**
+   * Stops the worker thread. It is started again by the next requests.
+   */
+  close(): void {
+    if (this.fetchWorker) {
+      this.fetchWorker.worker.terminate();
+      this.fetchWorker.port.close();
+      this.fetchWorker = undefined;
+    }
+  }
+
+  private getWorker(): FetchWorker {
+    if (!this.fetchWorker) {
+      const signal = new Int32Array(new SharedArrayBuffer(4));
+      const {port1, port2} = new MessageChannel();
+      const worker = new Worker(FETCH_SCRIPT, {
+        eval: true,
+        workerData: {port: port2, signal},
+        transferList: [port2],
+      });
+      // The worker does not keep the command line running once it is done
+      worker.unref();
+      this.fetchWorker = {worker, port: port1, signal};
+    }
+    return this.fetchWorker;
+  }
+}
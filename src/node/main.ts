@@ -0,0 +1,62 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from 'fs';
+
+import {
+  CliIo,
+  CliOptions,
+  createTransport,
+  parseArgs,
+  runCli,
+  USAGE,
+} from './cli';
+
+// The shared code logs with the Logger of Apps Script. Logs go to stderr, so
+// that stdout can be piped.
+Object.assign(globalThis, {
+  Logger: {log: (data: unknown) => console.error(data)},
+});
+
+const io: CliIo = {
+  readFile: path => fs.readFileSync(path, 'utf8'),
+  write: (text, path) =>
+    path ? fs.writeFileSync(path, text) : process.stdout.write(text),
+  error: text => console.error(text),
+};
+
+/**
+ * Runs the command of the command line.
+ * @return The exit code: 2 for invalid arguments, 1 for failures.
+ */
+function main(): number {
+  let options: CliOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (e) {
+    console.error(`${(e as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  try {
+    return runCli(options, io, () => createTransport(process.env));
+  } catch (e) {
+    console.error((e as Error).message);
+    return 1;
+  }
+}
+
+process.exitCode = main();
@@ -0,0 +1,87 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {TableStorage} from './table_storage';
+
+/**
+ * Enum for Pending changes sheet columns
+ */
+export enum PendingChangesLabelsIndex {
+  ENTITY_ID = 0,
+  ENTITY_NAME = 1,
+  CUSTOMER_ID = 2,
+  STRATEGY_TYPE = 3,
+  CURRENT_TARGET = 4,
+  NEW_TARGET = 5,
+  ABSOLUTE_CHANGE = 6,
+  PERCENT_CHANGE = 7,
+  UPDATE_MASK = 8,
+  VALIDATION = 9,
+}
+
+/**
+ * A class for handling operations related to the "Pending changes" sheet.
+ *
+ * The sheet lists the operations an update of the Targets sheet would send,
+ * without applying them.
+ */
+export class PendingChangesSheet {
+  static readonly PENDING_CHANGES_SHEET = 'Pending changes';
+
+  constructor(private storage: TableStorage) {}
+
+  /**
+   * Initializes the Pending changes sheet with its headers.
+   */
+  initializeSheet(): void {
+    this.storage.insertSheet(
+      PendingChangesSheet.PENDING_CHANGES_SHEET,
+      this.getPendingChangesHeaders()
+    );
+  }
+
+  /**
+   * Replaces the content of the sheet with the given pending changes.
+   * @param rows The pending changes rows, in PendingChangesLabelsIndex order.
+   */
+  write(rows: Array<Array<string | number>>): void {
+    this.storage.clearSheet(PendingChangesSheet.PENDING_CHANGES_SHEET);
+    this.storage.appendRows(
+      PendingChangesSheet.PENDING_CHANGES_SHEET,
+      rows,
+      this.getPendingChangesHeaders()
+    );
+  }
+
+  /**
+   * Returns the headers for the Pending changes sheet.
+   */
+  private getPendingChangesHeaders(): string[] {
+    const headers: string[] = [];
+    headers[PendingChangesLabelsIndex.ENTITY_ID] = 'ID';
+    headers[PendingChangesLabelsIndex.ENTITY_NAME] = 'Name';
+    headers[PendingChangesLabelsIndex.CUSTOMER_ID] = 'Customer ID';
+    headers[PendingChangesLabelsIndex.STRATEGY_TYPE] = 'Bidding strategy type';
+    headers[PendingChangesLabelsIndex.CURRENT_TARGET] = 'Current target';
+    headers[PendingChangesLabelsIndex.NEW_TARGET] = 'New target';
+    headers[PendingChangesLabelsIndex.ABSOLUTE_CHANGE] = 'Absolute change';
+    headers[PendingChangesLabelsIndex.PERCENT_CHANGE] = 'Change (%)';
+    headers[PendingChangesLabelsIndex.UPDATE_MASK] = 'Update mask';
+    headers[PendingChangesLabelsIndex.VALIDATION] = 'Validation';
+
+    return headers;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * The longest time results can be kept in CacheService, in minutes.
+ */
+export const MAX_CACHE_MINUTES = 360;
+
+// CacheService values are limited to 100KB, so results are split in parts
+const MAX_PART_LENGTH = 50 * 1000;
+
+/**
+ * A cache of the results of queries, by customer ID and query.
+ *
+ * Results are kept in memory for the execution, so that loads run one after
+ * the other fetch them once. With a time to live, they are also kept in
+ * CacheService, for the executions that follow, e.g. the Suggestions load
+ * scheduled after the Simulations one.
+ */
+export class QueryCache {
+  private entries = new Map<string, unknown[]>();
+
+  /**
+   * @param ttlMinutes How long results are kept in CacheService, 0 to keep
+   *     them for the execution only.
+   */
+  constructor(private ttlMinutes = 0) {}
+
+  /**
+   * Returns the cached results of a query.
+   * @param cid The customer ID.
+   * @param query The GAQL query.
+   * @return The results, undefined if they are not cached.
+   */
+  get<T>(cid: string, query: string): T[] | undefined {
+    const key = `${cid}:${query}`;
+    if (this.entries.has(key)) {
+      return this.entries.get(key) as T[];
+    }
+    const cache = this.getCacheService();
+    if (!cache) {
+      return undefined;
+    }
+
+    const cacheKey = this.getCacheKey(key);
+    const parts = Number(cache.get(cacheKey));
+    if (!parts) {
+      return undefined;
+    }
+    const partKeys = [...Array(parts).keys()].map(i => `${cacheKey}.${i}`);
+    const values = cache.getAll(partKeys);
+    // Parts can be evicted separately
+    if (partKeys.some(k => values[k] === undefined)) {
+      return undefined;
+    }
+    const results = JSON.parse(partKeys.map(k => values[k]).join('')) as T[];
+    this.entries.set(key, results);
+    return results;
+  }
+
+  /**
+   * Caches the results of a query.
+   * @param cid The customer ID.
+   * @param query The GAQL query.
+   * @param results The results.
+   */
+  put<T>(cid: string, query: string, results: T[]): void {
+    const key = `${cid}:${query}`;
+    this.entries.set(key, results);
+    const cache = this.getCacheService();
+    if (!cache) {
+      return;
+    }
+
+    const cacheKey = this.getCacheKey(key);
+    const json = JSON.stringify(results);
+    const values: {[key: string]: string} = {};
+    let parts = 0;
+    for (let i = 0; i < json.length; i += MAX_PART_LENGTH) {
+      values[`${cacheKey}.${parts++}`] = json.slice(i, i + MAX_PART_LENGTH);
+    }
+    values[cacheKey] = String(parts);
+    try {
+      cache.putAll(values, Math.min(this.ttlMinutes, MAX_CACHE_MINUTES) * 60);
+    } catch (e) {
+      // e.g. beyond the size of the cache, the results are fetched again
+      Logger.log(`Results not cached: ${(e as Error).message}`);
+    }
+  }
+
+  /**
+   * Returns CacheService, undefined if results are not kept beyond the
+   * execution or if it is not available (Google Ads Scripts).
+   */
+  private getCacheService(): GoogleAppsScript.Cache.Cache | undefined {
+    if (this.ttlMinutes <= 0 || typeof CacheService === 'undefined') {
+      return undefined;
+    }
+    return CacheService.getUserCache() ?? undefined;
+  }
+
+  /**
+   * Returns the CacheService key of a query. Keys are limited to 250
+   * characters, so the query is hashed.
+   */
+  private getCacheKey(key: string): string {
+    const digest = Utilities.computeDigest(
+      Utilities.DigestAlgorithm.SHA_256,
+      key
+    );
+    return `query:${Utilities.base64Encode(digest)}`;
+  }
+}
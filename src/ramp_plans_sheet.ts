@@ -0,0 +1,296 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {GoogleAdsClient, MutateStatus} from './google_ads_client';
+import {DEFAULT_SETTINGS, Settings} from './settings';
+import {TableStorage} from './table_storage';
+import {TargetEntity, TargetsSheet} from './targets_sheet';
+
+/**
+ * Enum for Ramp plans sheet columns
+ */
+export enum RampPlansLabelsIndex {
+  ID = 0,
+  GOAL_TARGET = 1,
+  STEPS = 2,
+  INTERVAL_DAYS = 3,
+  TOLERANCE_PERCENT = 4,
+  STATUS = 5,
+  STEPS_DONE = 6,
+  LAST_STEP_ON = 7,
+  LAST_STEP_TARGET = 8,
+  NOTE = 9,
+}
+
+/**
+ * The status of a ramp plan. Plans with an empty status are started.
+ */
+export enum RampStatus {
+  ACTIVE = 'ACTIVE',
+  PAUSED = 'PAUSED',
+  DONE = 'DONE',
+}
+
+// Steps are due up to an hour early, so that a daily run at a slightly
+// different time does not postpone them by a day
+const DUE_MARGIN_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A class for handling operations related to the "Ramp plans" sheet.
+ *
+ * Each plan moves the target of a Targets sheet entity towards a goal, in
+ * equal steps spread over several days, e.g. to reach a 5.0 tROAS in 4 steps,
+ * every 3 days. Plans are carried out by run(), meant to be run by a
+ * time-driven trigger, and are paused when the actual ROAS/CPA moves too far
+ * from the target.
+ */
+export class RampPlansSheet {
+  static readonly RAMP_PLANS_SHEET = 'Ramp plans';
+
+  /**
+   * @param storage The storage of the sheets.
+   * @param settings The settings, for the default tolerance of the plans.
+   */
+  constructor(
+    private storage: TableStorage,
+    private settings: Settings = DEFAULT_SETTINGS
+  ) {}
+
+  /**
+   * Initializes the Ramp plans sheet with its headers.
+   */
+  initializeSheet(): void {
+    this.storage.insertSheet(
+      RampPlansSheet.RAMP_PLANS_SHEET,
+      this.getRampPlansHeaders()
+    );
+  }
+
+  /**
+   * Carries out the active plans: reloads the targets, pauses the plans whose
+   * entity is out of its tolerance band, sends the steps that are due and
+   * records the progress of each plan.
+   * @param googleAdsClient instance of GoogleAdsClient
+   * @param targetsSheet The Targets sheet the steps are sent through.
+   * @param now The current time.
+   */
+  run(
+    googleAdsClient: GoogleAdsClient,
+    targetsSheet: TargetsSheet,
+    now = new Date()
+  ): void {
+    const headers = this.getRampPlansHeaders();
+    const plans = this.storage
+      .readRows(RampPlansSheet.RAMP_PLANS_SHEET, headers)
+      .filter(r => String(r[RampPlansLabelsIndex.ID]).trim() !== '')
+      .filter(r => this.isActive(r));
+    if (plans.length === 0) {
+      return;
+    }
+
+    targetsSheet.load(googleAdsClient);
+    const entities = targetsSheet.getEntities();
+
+    const updates: {[id: string]: Array<string | number | Date>} = {};
+    const newTargets: {[id: string]: number} = {};
+    for (const plan of plans) {
+      const id = String(plan[RampPlansLabelsIndex.ID]).trim();
+      // Checked first, as an empty Steps cell would read as 0 steps to do
+      const planError = this.getPlanError(plan);
+      if (planError) {
+        updates[id] = [RampStatus.PAUSED, planError];
+        continue;
+      }
+      if (
+        Number(plan[RampPlansLabelsIndex.STEPS_DONE]) >=
+        Number(plan[RampPlansLabelsIndex.STEPS])
+      ) {
+        // The progress columns are left as they are
+        updates[id] = [RampStatus.DONE, ''];
+        continue;
+      }
+      const pauseReason = this.getPauseReason(plan, entities[id]);
+      if (pauseReason) {
+        updates[id] = [RampStatus.PAUSED, pauseReason];
+      } else if (this.isStepDue(plan, now)) {
+        newTargets[id] = this.getNextTarget(plan, entities[id]);
+      } else {
+        updates[id] = [RampStatus.ACTIVE, ''];
+      }
+    }
+
+    const results = targetsSheet.applyRampSteps(googleAdsClient, newTargets);
+    for (const plan of plans) {
+      const id = String(plan[RampPlansLabelsIndex.ID]).trim();
+      if (!(id in newTargets)) {
+        continue;
+      }
+      const result = results[id] ?? {
+        status: MutateStatus.SKIPPED,
+        error: 'The entity is not in the Targets sheet',
+      };
+      if (result.status === MutateStatus.SUCCESS) {
+        const stepsDone = Number(plan[RampPlansLabelsIndex.STEPS_DONE]) + 1;
+        const done = stepsDone >= Number(plan[RampPlansLabelsIndex.STEPS]);
+        updates[id] = [
+          done ? RampStatus.DONE : RampStatus.ACTIVE,
+          '',
+          stepsDone,
+          now,
+          newTargets[id],
+        ];
+      } else {
+        // Failed requests are retried by the next run, other outcomes need a
+        // change of the plan or of the guardrails
+        const status =
+          result.status === MutateStatus.FAILED
+            ? RampStatus.ACTIVE
+            : RampStatus.PAUSED;
+        updates[id] = [status, `${result.status}: ${result.error ?? ''}`];
+      }
+    }
+
+    this.storage.updateColumnsById(
+      RampPlansSheet.RAMP_PLANS_SHEET,
+      headers[RampPlansLabelsIndex.ID],
+      [
+        headers[RampPlansLabelsIndex.STATUS],
+        headers[RampPlansLabelsIndex.NOTE],
+        headers[RampPlansLabelsIndex.STEPS_DONE],
+        headers[RampPlansLabelsIndex.LAST_STEP_ON],
+        headers[RampPlansLabelsIndex.LAST_STEP_TARGET],
+      ],
+      updates
+    );
+  }
+
+  private isActive(plan: Array<string | number | boolean>): boolean {
+    const status = String(plan[RampPlansLabelsIndex.STATUS]).trim();
+    return status === '' || status.toUpperCase() === RampStatus.ACTIVE;
+  }
+
+  /**
+   * Returns why the values of a plan are invalid, undefined if they are valid.
+   */
+  private getPlanError(
+    plan: Array<string | number | boolean>
+  ): string | undefined {
+    const goal = Number(plan[RampPlansLabelsIndex.GOAL_TARGET]);
+    const steps = Number(plan[RampPlansLabelsIndex.STEPS]);
+    const intervalDays = Number(plan[RampPlansLabelsIndex.INTERVAL_DAYS]);
+    if (!(goal > 0) || !Number.isInteger(steps) || steps < 1) {
+      return 'The goal target must be positive, and the steps a positive integer';
+    }
+    if (!(intervalDays >= 0)) {
+      return 'The interval must be a number of days';
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns why a valid plan cannot go on because of its entity, undefined if
+   * it can.
+   */
+  private getPauseReason(
+    plan: Array<string | number | boolean>,
+    entity: TargetEntity | undefined
+  ): string | undefined {
+    if (!entity || entity.stale) {
+      return 'The entity was not found by the last load';
+    }
+    if (entity.currentTarget === '' || !(Number(entity.currentTarget) > 0)) {
+      return 'The current target of the entity is unknown';
+    }
+
+    const tolerance = this.getTolerancePercent(plan);
+    const gap = entity.targetGapPercent;
+    if (gap !== undefined && Math.abs(gap) > tolerance) {
+      return (
+        `The actual ROAS/CPA is ${Math.abs(gap).toFixed(1)}% ` +
+        `${gap > 0 ? 'above' : 'below'} the target, beyond the ` +
+        `${tolerance}% tolerance`
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the tolerance of a plan, which defaults to the
+   * TARGET_GAP_THRESHOLD_PERCENT setting.
+   */
+  private getTolerancePercent(plan: Array<string | number | boolean>): number {
+    const tolerance = plan[RampPlansLabelsIndex.TOLERANCE_PERCENT];
+    if (tolerance === '' || isNaN(Number(tolerance))) {
+      return this.settings.targetGapThresholdPercent;
+    }
+    return Number(tolerance);
+  }
+
+  private isStepDue(
+    plan: Array<string | number | boolean>,
+    now: Date
+  ): boolean {
+    const lastStepOn = plan[RampPlansLabelsIndex.LAST_STEP_ON] as unknown;
+    if (lastStepOn === '' || lastStepOn === undefined) {
+      return true;
+    }
+    const lastStepTime = new Date(lastStepOn as string | Date).getTime();
+    if (isNaN(lastStepTime)) {
+      return true;
+    }
+    const interval = Number(plan[RampPlansLabelsIndex.INTERVAL_DAYS]) * DAY_MS;
+    return now.getTime() - lastStepTime >= interval - DUE_MARGIN_MS;
+  }
+
+  /**
+   * Returns the target of the next step: the remaining change is split
+   * equally between the remaining steps, starting from the current target,
+   * so that changes made outside of the plan are taken into account.
+   */
+  private getNextTarget(
+    plan: Array<string | number | boolean>,
+    entity: TargetEntity
+  ): number {
+    const goal = Number(plan[RampPlansLabelsIndex.GOAL_TARGET]);
+    const remainingSteps =
+      Number(plan[RampPlansLabelsIndex.STEPS]) -
+      Number(plan[RampPlansLabelsIndex.STEPS_DONE]);
+    const current = Number(entity.currentTarget);
+    const next = current + (goal - current) / remainingSteps;
+    // Drop floating point noise
+    return Math.round(next * 1e6) / 1e6;
+  }
+
+  /**
+   * Returns the headers for the Ramp plans sheet.
+   */
+  private getRampPlansHeaders(): string[] {
+    const headers: string[] = [];
+    headers[RampPlansLabelsIndex.ID] = 'ID';
+    headers[RampPlansLabelsIndex.GOAL_TARGET] = 'Goal target';
+    headers[RampPlansLabelsIndex.STEPS] = 'Steps';
+    headers[RampPlansLabelsIndex.INTERVAL_DAYS] = 'Every (days)';
+    headers[RampPlansLabelsIndex.TOLERANCE_PERCENT] = 'Tolerance (%)';
+    headers[RampPlansLabelsIndex.STATUS] = 'Status';
+    headers[RampPlansLabelsIndex.STEPS_DONE] = 'Steps done';
+    headers[RampPlansLabelsIndex.LAST_STEP_ON] = 'Last step on';
+    headers[RampPlansLabelsIndex.LAST_STEP_TARGET] = 'Last step target';
+    headers[RampPlansLabelsIndex.NOTE] = 'Note';
+
+    return headers;
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Returns the customer ID of a resource.
+ * @param resourceName The resource name, e.g. customers/1234567890/campaigns/1.
+ * @return The customer ID, e.g. 1234567890, empty if there is none.
+ */
+export function getCustomerId(resourceName: string): string {
+  return String(resourceName).split('/')[1] ?? '';
+}
+
+/**
+ * Returns the collection of a resource.
+ * @param resourceName The resource name, e.g. customers/1234567890/campaigns/1.
+ * @return The collection, e.g. campaigns, empty if there is none.
+ */
+export function getCollection(resourceName: string): string {
+  return String(resourceName).split('/')[2] ?? '';
+}
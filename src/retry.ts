@@ -0,0 +1,75 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Limits of the retries of failed API requests.
+ */
+export interface RetryConfig {
+  // Maximum retries of a single request
+  maxRetries: number;
+  // Maximum time spent waiting between retries, over all the requests of a
+  // client, so that retries cannot use up the execution time
+  budgetSeconds: number;
+}
+
+/**
+ * Default retries: up to 5 per request, with at most 2 minutes of waiting.
+ */
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 5,
+  budgetSeconds: 120,
+};
+
+const INITIAL_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60 * 1000;
+
+/**
+ * Spaces out the retries of failed requests with a jittered exponential
+ * backoff, within the retry budget.
+ */
+export class RetryPolicy {
+  private waitedMs = 0;
+
+  /**
+   * @param config The limits of the retries.
+   * @param random A source of random numbers in [0, 1), for the jitter.
+   */
+  constructor(
+    private config: RetryConfig = DEFAULT_RETRY_CONFIG,
+    private random: () => number = Math.random
+  ) {}
+
+  /**
+   * Returns the delay before a retry, and counts it against the budget.
+   * @param retry The number of the retry, starting at 0.
+   * @return The delay in milliseconds, undefined if the request should not
+   *     be retried anymore.
+   */
+  nextDelayMs(retry: number): number | undefined {
+    if (retry >= this.config.maxRetries) {
+      return undefined;
+    }
+    // Half of the delay is random, so that throttled requests of parallel
+    // executions do not all come back at once
+    const maxDelay = Math.min(MAX_DELAY_MS, INITIAL_DELAY_MS * 2 ** retry);
+    const delay = Math.round(maxDelay / 2 + (this.random() * maxDelay) / 2);
+    if (this.waitedMs + delay > this.config.budgetSeconds * 1000) {
+      return undefined;
+    }
+    this.waitedMs += delay;
+    return delay;
+  }
+}
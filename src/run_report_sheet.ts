@@ -0,0 +1,118 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {AccountReport} from './google_ads_client';
+import {TableStorage} from './table_storage';
+
+/**
+ * Enum for Run report sheet columns
+ */
+export enum RunReportLabelsIndex {
+  LOAD = 0,
+  CUSTOMER_ID = 1,
+  STATUS = 2,
+  ROWS = 3,
+  DURATION = 4,
+  ERROR = 5,
+  RUN_ON = 6,
+}
+
+/**
+ * The outcome of the load of an account.
+ */
+export enum RunStatus {
+  OK = 'OK',
+  // The previous data of the account is kept
+  FAILED = 'FAILED',
+}
+
+/**
+ * A class for handling operations related to the "Run report" sheet.
+ *
+ * Each load lists the accounts it fetched, with the rows returned by the API,
+ * the time spent and the error of the accounts that failed. The rows of an
+ * account replace those of its previous load, so that the sheet shows the last
+ * outcome of each load for each account.
+ */
+export class RunReportSheet {
+  static readonly RUN_REPORT_SHEET = 'Run report';
+
+  constructor(private storage: TableStorage) {}
+
+  /**
+   * Initializes the Run report sheet with its headers.
+   */
+  initializeSheet(): void {
+    const headers = this.getRunReportHeaders();
+    this.storage.insertSheet(RunReportSheet.RUN_REPORT_SHEET, headers);
+    // Keeps the customer IDs from being read as numbers
+    this.storage.setColumnFormat(
+      RunReportSheet.RUN_REPORT_SHEET,
+      headers[RunReportLabelsIndex.CUSTOMER_ID],
+      '@'
+    );
+  }
+
+  /**
+   * Writes the outcome of a load for each of its accounts.
+   * @param load The name of the load, e.g. Targets.
+   * @param reports What was fetched from each account, keyed by CID.
+   */
+  write(load: string, reports: {[cid: string]: AccountReport}): void {
+    const headers = this.getRunReportHeaders();
+    const runOn = new Date().toISOString();
+    const rows = this.storage
+      .readRows(RunReportSheet.RUN_REPORT_SHEET, headers)
+      .filter(
+        r =>
+          String(r[RunReportLabelsIndex.LOAD]) !== load ||
+          !(String(r[RunReportLabelsIndex.CUSTOMER_ID]) in reports)
+      );
+
+    for (const [cid, report] of Object.entries(reports)) {
+      const row: Array<string | number | boolean> = [];
+      row[RunReportLabelsIndex.LOAD] = load;
+      row[RunReportLabelsIndex.CUSTOMER_ID] = cid;
+      row[RunReportLabelsIndex.STATUS] =
+        report.error === undefined ? RunStatus.OK : RunStatus.FAILED;
+      row[RunReportLabelsIndex.ROWS] = report.rows;
+      row[RunReportLabelsIndex.DURATION] =
+        Math.round(report.durationMs / 100) / 10;
+      row[RunReportLabelsIndex.ERROR] = report.error ?? '';
+      row[RunReportLabelsIndex.RUN_ON] = runOn;
+      rows.push(row);
+    }
+
+    this.storage.clearSheet(RunReportSheet.RUN_REPORT_SHEET);
+    this.storage.appendRows(RunReportSheet.RUN_REPORT_SHEET, rows, headers);
+  }
+
+  /**
+   * Returns the headers for the Run report sheet.
+   */
+  private getRunReportHeaders(): string[] {
+    const headers: string[] = [];
+    headers[RunReportLabelsIndex.LOAD] = 'Load';
+    headers[RunReportLabelsIndex.CUSTOMER_ID] = 'Customer ID';
+    headers[RunReportLabelsIndex.STATUS] = 'Status';
+    headers[RunReportLabelsIndex.ROWS] = 'Rows fetched';
+    headers[RunReportLabelsIndex.DURATION] = 'Duration (s)';
+    headers[RunReportLabelsIndex.ERROR] = 'Error';
+    headers[RunReportLabelsIndex.RUN_ON] = 'Run on';
+
+    return headers;
+  }
+}
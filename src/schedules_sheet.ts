@@ -0,0 +1,297 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {TableStorage} from './table_storage';
+import {
+  Frequency,
+  TriggerSchedule,
+  TriggerService,
+  WEEK_DAYS,
+} from './trigger_service';
+
+/**
+ * Enum for Schedules sheet columns
+ */
+export enum SchedulesLabelsIndex {
+  FUNCTION = 0,
+  FREQUENCY = 1,
+  HOUR = 2,
+  WEEK_DAY = 3,
+  STATUS = 4,
+  NOTE = 5,
+  TRIGGER_ID = 6,
+}
+
+/**
+ * The status of a schedule.
+ */
+export enum ScheduleStatus {
+  INSTALLED = 'INSTALLED',
+  // The trigger of the schedule was deleted outside of the sheet
+  NOT_INSTALLED = 'NOT INSTALLED',
+  INVALID = 'INVALID',
+  DUPLICATE = 'DUPLICATE',
+  REMOVED = 'REMOVED',
+  // A trigger of a schedulable function missing from the sheet
+  ORPHANED = 'ORPHANED',
+}
+
+/**
+ * The functions that can be scheduled.
+ */
+export const SCHEDULABLE_FUNCTIONS = [
+  'loadTargets',
+  'loadSimulations',
+  'loadSuggestions',
+  'updateTargets',
+  'applyScheduledTargets',
+  'runRampPlans',
+];
+
+type ScheduleRow = Array<string | number | boolean>;
+
+/**
+ * A class for handling operations related to the "Schedules" sheet.
+ *
+ * Each row schedules one of the SCHEDULABLE_FUNCTIONS. The sheet is the
+ * reference for the time-driven triggers of these functions: installing the
+ * schedules replaces all their triggers, so that no duplicated or orphaned
+ * trigger keeps running.
+ */
+export class SchedulesSheet {
+  static readonly SCHEDULES_SHEET = 'Schedules';
+
+  constructor(
+    private storage: TableStorage,
+    private triggerService: TriggerService = new TriggerService()
+  ) {}
+
+  /**
+   * Initializes the Schedules sheet with its headers.
+   */
+  initializeSheet(): void {
+    const headers = this.getSchedulesHeaders();
+    this.storage.insertSheet(SchedulesSheet.SCHEDULES_SHEET, headers);
+    // Trigger IDs are long numbers, which would lose digits as numbers
+    this.storage.setColumnFormat(
+      SchedulesSheet.SCHEDULES_SHEET,
+      headers[SchedulesLabelsIndex.TRIGGER_ID],
+      '@'
+    );
+  }
+
+  /**
+   * Replaces the triggers of the schedulable functions with one trigger per
+   * valid schedule of the sheet.
+   */
+  install(): void {
+    this.removeTriggers();
+
+    const installed: string[] = [];
+    const rows = this.readSchedules(false).map(row => {
+      const [schedule, error] = this.parseSchedule(row);
+      if (!schedule) {
+        return this.withStatus(row, ScheduleStatus.INVALID, error);
+      }
+      const key = [
+        String(row[SchedulesLabelsIndex.FUNCTION]).trim(),
+        ...Object.values(schedule),
+      ]
+        .map(String)
+        .join('|');
+      if (installed.includes(key)) {
+        return this.withStatus(
+          row,
+          ScheduleStatus.DUPLICATE,
+          'The same schedule is on a row above'
+        );
+      }
+      installed.push(key);
+
+      const id = this.triggerService.createTrigger(
+        String(row[SchedulesLabelsIndex.FUNCTION]).trim(),
+        schedule
+      );
+      return this.withStatus(row, ScheduleStatus.INSTALLED, '', id);
+    });
+    this.writeSchedules(rows);
+  }
+
+  /**
+   * Checks the schedules of the sheet against the triggers of the project,
+   * and lists the triggers of the schedulable functions missing from the
+   * sheet.
+   */
+  list(): void {
+    const triggers = this.triggerService
+      .getTriggers()
+      .filter(t => SCHEDULABLE_FUNCTIONS.includes(t.handler));
+    const rows = this.readSchedules();
+    const listedIds = rows.map(r => String(r[SchedulesLabelsIndex.TRIGGER_ID]));
+
+    const checkedRows = rows.map(row => {
+      const id = String(row[SchedulesLabelsIndex.TRIGGER_ID]);
+      if (id === '') {
+        return row;
+      }
+      return triggers.some(t => t.id === id)
+        ? this.withStatus(row, ScheduleStatus.INSTALLED, '', id)
+        : this.withStatus(
+            row,
+            ScheduleStatus.NOT_INSTALLED,
+            'The trigger was deleted, install the schedules again'
+          );
+    });
+    const orphanedRows = triggers
+      .filter(t => !listedIds.includes(t.id))
+      .map(t => {
+        const row: ScheduleRow = [];
+        row[SchedulesLabelsIndex.FUNCTION] = t.handler;
+        return this.withStatus(
+          row,
+          ScheduleStatus.ORPHANED,
+          'Not created from this sheet, removed by the next install',
+          t.id
+        );
+      });
+    this.writeSchedules([...checkedRows, ...orphanedRows]);
+  }
+
+  /**
+   * Removes the triggers of the schedulable functions. The schedules are kept
+   * in the sheet, to be installed again.
+   */
+  remove(): void {
+    this.removeTriggers();
+    const rows = this.readSchedules(false).map(row =>
+      this.withStatus(row, ScheduleStatus.REMOVED, '')
+    );
+    this.writeSchedules(rows);
+  }
+
+  /**
+   * Deletes all the triggers of the schedulable functions, including those
+   * created by hand.
+   */
+  private removeTriggers(): void {
+    this.triggerService
+      .getTriggers()
+      .filter(t => SCHEDULABLE_FUNCTIONS.includes(t.handler))
+      .forEach(t => this.triggerService.deleteTrigger(t.id));
+  }
+
+  /**
+   * Parses the schedule of a row.
+   * @return The schedule, or undefined and the reason it is invalid.
+   */
+  private parseSchedule(
+    row: ScheduleRow
+  ): [TriggerSchedule | undefined, string] {
+    const handler = String(row[SchedulesLabelsIndex.FUNCTION]).trim();
+    if (!SCHEDULABLE_FUNCTIONS.includes(handler)) {
+      return [
+        undefined,
+        `Unknown function, use one of: ${SCHEDULABLE_FUNCTIONS.join(', ')}`,
+      ];
+    }
+    const frequency = String(row[SchedulesLabelsIndex.FREQUENCY])
+      .trim()
+      .toUpperCase() as Frequency;
+    if (!Object.values(Frequency).includes(frequency)) {
+      return [
+        undefined,
+        `Unknown frequency, use one of: ${Object.values(Frequency).join(', ')}`,
+      ];
+    }
+    if (frequency === Frequency.HOURLY) {
+      return [{frequency, hour: 0, weekDay: ''}, ''];
+    }
+
+    const hourValue = row[SchedulesLabelsIndex.HOUR];
+    const hour = Number(hourValue);
+    if (hourValue === '' || !Number.isInteger(hour) || hour < 0 || hour > 23) {
+      return [undefined, 'The hour must be an integer between 0 and 23'];
+    }
+    if (frequency === Frequency.DAILY) {
+      return [{frequency, hour, weekDay: ''}, ''];
+    }
+
+    const weekDay = String(row[SchedulesLabelsIndex.WEEK_DAY])
+      .trim()
+      .toUpperCase();
+    if (!WEEK_DAYS.includes(weekDay)) {
+      return [
+        undefined,
+        `Unknown day of week, use one of: ${WEEK_DAYS.join(', ')}`,
+      ];
+    }
+    return [{frequency, hour, weekDay}, ''];
+  }
+
+  private withStatus(
+    row: ScheduleRow,
+    status: ScheduleStatus,
+    note: string,
+    triggerId = ''
+  ): ScheduleRow {
+    const newRow = [...row];
+    newRow[SchedulesLabelsIndex.STATUS] = status;
+    newRow[SchedulesLabelsIndex.NOTE] = note;
+    newRow[SchedulesLabelsIndex.TRIGGER_ID] = triggerId;
+    return newRow;
+  }
+
+  /**
+   * Reads the schedules of the sheet.
+   * @param withOrphaned Whether to include the rows listing orphaned triggers,
+   *     which are dropped once these triggers are deleted.
+   */
+  private readSchedules(withOrphaned = true): ScheduleRow[] {
+    return this.storage
+      .readRows(SchedulesSheet.SCHEDULES_SHEET, this.getSchedulesHeaders())
+      .filter(r => String(r[SchedulesLabelsIndex.FUNCTION]).trim() !== '')
+      .filter(
+        r =>
+          withOrphaned ||
+          r[SchedulesLabelsIndex.STATUS] !== ScheduleStatus.ORPHANED
+      );
+  }
+
+  private writeSchedules(rows: ScheduleRow[]): void {
+    this.storage.clearSheet(SchedulesSheet.SCHEDULES_SHEET);
+    this.storage.appendRows(
+      SchedulesSheet.SCHEDULES_SHEET,
+      rows,
+      this.getSchedulesHeaders()
+    );
+  }
+
+  /**
+   * Returns the headers for the Schedules sheet.
+   */
+  private getSchedulesHeaders(): string[] {
+    const headers: string[] = [];
+    headers[SchedulesLabelsIndex.FUNCTION] = 'Function';
+    headers[SchedulesLabelsIndex.FREQUENCY] = 'Frequency';
+    headers[SchedulesLabelsIndex.HOUR] = 'Hour';
+    headers[SchedulesLabelsIndex.WEEK_DAY] = 'Day of week';
+    headers[SchedulesLabelsIndex.STATUS] = 'Status';
+    headers[SchedulesLabelsIndex.NOTE] = 'Note';
+    headers[SchedulesLabelsIndex.TRIGGER_ID] = 'Trigger ID';
+
+    return headers;
+  }
+}
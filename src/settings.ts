@@ -0,0 +1,420 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {DEFAULT_API_VERSION, SUPPORTED_API_VERSIONS} from './api_version';
+import {parseDateRange} from './date_ranges';
+import {StrategyType} from './google_ads_client';
+import {DEFAULT_CONCURRENCY} from './google_ads_transport';
+import {DEFAULT_GUARDRAILS, GuardrailsConfig} from './guardrails';
+import {MAX_CACHE_MINUTES} from './query_cache';
+import {DEFAULT_RETRY_CONFIG, RetryConfig} from './retry';
+import {OptimizationConfig} from './target_analyzer';
+
+// Metrics the suggestions are calculated for, and can be optimized towards
+export const SUGGESTION_METRICS = [
+  'profit',
+  'cost',
+  'conversionvalue',
+  'clicks',
+  'impressions',
+  'conversions',
+];
+
+/**
+ * The optimization configuration of the suggestions, by strategy type.
+ */
+export interface OptimizationConfigs {
+  [StrategyType.TARGET_ROAS]: OptimizationConfig;
+  [StrategyType.TARGET_CPA]: OptimizationConfig;
+}
+
+/**
+ * The configuration shared by all modules.
+ */
+export interface Settings {
+  // Apps Script configuration
+  devToken: string;
+  loginCustomerId: string;
+  // Ads Script configuration
+  customerIds: string[];
+  // Date ranges to include on the list of bidding targets
+  dateRanges: string[];
+  // Metrics to include on the list of bidding targets (GAQL naming)
+  targetsMetrics: string[];
+  // Target gap (%) beyond which the Targets sheet highlights an entity
+  targetGapThresholdPercent: number;
+  metricToOptimizeTo: string;
+  optimization: OptimizationConfigs;
+  guardrails: GuardrailsConfig;
+  // Retries of the Google Ads API requests failing with transient errors
+  retry: RetryConfig;
+  // Maximum Google Ads API requests sent at once, e.g. for several accounts
+  apiConcurrency: number;
+  // Google Ads API version of the requests, e.g. v20
+  apiVersion: string;
+  // How long simulations are cached for the next executions, 0 for none
+  queryCacheMinutes: number;
+}
+
+/**
+ * The settings used for the entries missing from the Settings sheet.
+ */
+export const DEFAULT_SETTINGS: Settings = {
+  devToken: '',
+  loginCustomerId: '',
+  customerIds: [],
+  dateRanges: ['LAST_30_DAYS'],
+  targetsMetrics: [
+    'conversions',
+    'conversions_value',
+    'cost_micros',
+    'average_cpc',
+  ],
+  targetGapThresholdPercent: 20,
+  metricToOptimizeTo: 'profit',
+  optimization: {
+    [StrategyType.TARGET_ROAS]: {
+      initialTarget: 4.5,
+      maxTarget: 500.0,
+      minTarget: 1.0,
+      maxIterations: 1000,
+      learningRate: 0.05,
+      tolerance: 1e-5,
+    },
+    [StrategyType.TARGET_CPA]: {
+      initialTarget: 50,
+      maxTarget: 2000000.0,
+      minTarget: 1.0,
+      maxIterations: 100000,
+      learningRate: 0.05,
+      tolerance: 1e-5,
+    },
+  },
+  guardrails: DEFAULT_GUARDRAILS,
+  retry: DEFAULT_RETRY_CONFIG,
+  apiConcurrency: DEFAULT_CONCURRENCY,
+  apiVersion: DEFAULT_API_VERSION,
+  queryCacheMinutes: 0,
+};
+
+type SettingValue = string | number | string[] | undefined;
+
+/**
+ * A single key/value entry of the Settings sheet.
+ */
+export interface SettingDefinition {
+  key: string;
+  description: string;
+  // Parses the raw value, throwing an Error with a readable message if invalid
+  parse: (value: string) => SettingValue;
+  get: (settings: Settings) => SettingValue;
+  set: (settings: Settings, value: SettingValue) => void;
+}
+
+function parseText(value: string): string {
+  return value.trim();
+}
+
+function parseCustomerId(value: string): string {
+  const cid = value.trim().replace(/-/g, '');
+  if (cid !== '' && !/^\d{10}$/.test(cid)) {
+    throw new Error(`"${value}" is not a 10-digit customer ID`);
+  }
+  return cid;
+}
+
+function parseList(value: string): string[] {
+  return value
+    .split(/[,\n]/)
+    .map(v => v.trim())
+    .filter(v => v !== '');
+}
+
+function parseOneOf(allowed: string[]): (value: string) => string {
+  return value => {
+    const v = value.trim();
+    if (!allowed.includes(v)) {
+      throw new Error(`"${v}" is not one of ${allowed.join(', ')}`);
+    }
+    return v;
+  };
+}
+
+function parseNumber(
+  value: string,
+  {optional = false, positive = false} = {}
+): number | undefined {
+  if (value.trim() === '') {
+    if (optional) {
+      return undefined;
+    }
+    throw new Error('a number is required');
+  }
+  const n = Number(value);
+  if (isNaN(n) || (positive && n <= 0)) {
+    throw new Error(`"${value}" is not a ${positive ? 'positive ' : ''}number`);
+  }
+  return n;
+}
+
+function optimizationDefinitions(
+  prefix: string,
+  type: StrategyType.TARGET_ROAS | StrategyType.TARGET_CPA,
+  label: string
+): SettingDefinition[] {
+  const fields: Array<[keyof OptimizationConfig, string, string]> = [
+    ['initialTarget', 'INITIAL_TARGET', 'Starting target of the optimization'],
+    ['minTarget', 'MIN_TARGET', 'Lowest optimal target considered'],
+    ['maxTarget', 'MAX_TARGET', 'Highest optimal target considered'],
+    ['maxIterations', 'MAX_ITERATIONS', 'Maximum steps of the optimization'],
+    ['learningRate', 'LEARNING_RATE', 'Initial step size of the optimization'],
+    ['tolerance', 'TOLERANCE', 'Change below which the optimization stops'],
+  ];
+  return fields.map(([field, suffix, description]) => ({
+    key: `${prefix}_OPTIMIZATION_${suffix}`,
+    description: `${label}: ${description}`,
+    parse: v => parseNumber(v, {positive: true}),
+    get: s => s.optimization[type][field],
+    set: (s, v) => (s.optimization[type][field] = v as number),
+  }));
+}
+
+function guardrailDefinitions(
+  prefix: string,
+  types: StrategyType[],
+  label: string
+): SettingDefinition[] {
+  const fields: Array<[keyof GuardrailsConfig[StrategyType], string, string]> =
+    [
+      [
+        'maxChangePercent',
+        'MAX_CHANGE_PERCENT',
+        'Maximum change per update in percent, empty for no limit',
+      ],
+      ['minTarget', 'MIN_TARGET', 'Lowest new target, empty for no limit'],
+      ['maxTarget', 'MAX_TARGET', 'Highest new target, empty for no limit'],
+    ];
+  return fields.map(([field, suffix, description]) => ({
+    key: `${prefix}_GUARDRAIL_${suffix}`,
+    description: `${label}: ${description}`,
+    parse: v => parseNumber(v, {optional: true, positive: true}),
+    get: s => s.guardrails[types[0]][field],
+    set: (s, v) => {
+      for (const type of types) {
+        s.guardrails[type][field] = v as number | undefined;
+      }
+    },
+  }));
+}
+
+/**
+ * The entries of the Settings sheet.
+ */
+export const SETTING_DEFINITIONS: SettingDefinition[] = [
+  {
+    key: 'DEV_TOKEN',
+    description: 'Google Ads API developer token (Apps Script only)',
+    parse: parseText,
+    get: s => s.devToken,
+    set: (s, v) => (s.devToken = v as string),
+  },
+  {
+    key: 'LOGIN_CUSTOMER_ID',
+    description:
+      'Manager account used to access the accounts (Apps Script only)',
+    parse: parseCustomerId,
+    get: s => s.loginCustomerId,
+    set: (s, v) => (s.loginCustomerId = v as string),
+  },
+  {
+    key: 'CUSTOMER_IDS',
+    description: 'Comma-separated accounts to load (Ads Script only)',
+    parse: v => parseList(v).map(parseCustomerId),
+    get: s => s.customerIds,
+    set: (s, v) => (s.customerIds = v as string[]),
+  },
+  {
+    key: 'DATE_RANGES',
+    description:
+      'Comma-separated date ranges of the Targets sheet metrics, each with ' +
+      'its own columns: predefined (e.g. LAST_7_DAYS, THIS_MONTH) or ' +
+      'BETWEEN YYYY-MM-DD AND YYYY-MM-DD',
+    parse: v => {
+      const dateRanges = parseList(v).map(parseDateRange);
+      if (dateRanges.length === 0) {
+        throw new Error('at least one date range is required');
+      }
+      return dateRanges;
+    },
+    get: s => s.dateRanges,
+    set: (s, v) => (s.dateRanges = v as string[]),
+  },
+  {
+    key: 'TARGETS_METRICS',
+    description:
+      'Comma-separated metrics of the Targets sheet (GAQL naming), empty for manager accounts',
+    parse: v =>
+      parseList(v).map(m => {
+        if (!/^[a-z_]+$/.test(m)) {
+          throw new Error(`"${m}" is not a GAQL metric name`);
+        }
+        return m;
+      }),
+    get: s => s.targetsMetrics,
+    set: (s, v) => (s.targetsMetrics = v as string[]),
+  },
+  {
+    key: 'TARGET_GAP_THRESHOLD_PERCENT',
+    description:
+      'Gap between the actual ROAS/CPA and the target, in percent, beyond ' +
+      'which the Targets sheet highlights an entity',
+    parse: v => parseNumber(v, {positive: true}),
+    get: s => s.targetGapThresholdPercent,
+    set: (s, v) => (s.targetGapThresholdPercent = v as number),
+  },
+  {
+    key: 'METRIC_TO_OPTIMIZE_TO',
+    description: `Metric the suggested targets optimize: ${SUGGESTION_METRICS.join(
+      ', '
+    )}`,
+    parse: parseOneOf(SUGGESTION_METRICS),
+    get: s => s.metricToOptimizeTo,
+    set: (s, v) => (s.metricToOptimizeTo = v as string),
+  },
+  {
+    key: 'API_MAX_RETRIES',
+    description:
+      'Maximum retries of a Google Ads API request failing with a transient ' +
+      'error (throttling, server error), 0 to disable',
+    parse: v => {
+      const n = parseNumber(v);
+      if (!Number.isInteger(n) || (n as number) < 0) {
+        throw new Error(`"${v}" is not a non-negative integer`);
+      }
+      return n;
+    },
+    get: s => s.retry.maxRetries,
+    set: (s, v) => (s.retry.maxRetries = v as number),
+  },
+  {
+    key: 'API_RETRY_BUDGET_SECONDS',
+    description:
+      'Maximum time spent waiting between retries of Google Ads API ' +
+      'requests, per run',
+    parse: v => parseNumber(v, {positive: true}),
+    get: s => s.retry.budgetSeconds,
+    set: (s, v) => (s.retry.budgetSeconds = v as number),
+  },
+  {
+    key: 'API_CONCURRENCY',
+    description:
+      'Maximum Google Ads API requests sent at once, one per account (Apps ' +
+      'Script only)',
+    parse: v => {
+      const n = parseNumber(v, {positive: true});
+      if (!Number.isInteger(n)) {
+        throw new Error(`"${v}" is not a positive integer`);
+      }
+      return n;
+    },
+    get: s => s.apiConcurrency,
+    set: (s, v) => (s.apiConcurrency = v as number),
+  },
+  {
+    key: 'API_VERSION',
+    description:
+      'Google Ads API version of the requests, one of ' +
+      SUPPORTED_API_VERSIONS.join(', '),
+    parse: parseOneOf(SUPPORTED_API_VERSIONS),
+    get: s => s.apiVersion,
+    set: (s, v) => (s.apiVersion = v as string),
+  },
+  {
+    key: 'QUERY_CACHE_MINUTES',
+    description:
+      'How long simulations are cached for the next runs (Apps Script ' +
+      `only), up to ${MAX_CACHE_MINUTES}, 0 to cache them for a run only`,
+    parse: v => {
+      const n = parseNumber(v);
+      if (!Number.isInteger(n) || (n as number) < 0) {
+        throw new Error(`"${v}" is not a non-negative integer`);
+      }
+      if ((n as number) > MAX_CACHE_MINUTES) {
+        throw new Error(`"${v}" is above ${MAX_CACHE_MINUTES}`);
+      }
+      return n;
+    },
+    get: s => s.queryCacheMinutes,
+    set: (s, v) => (s.queryCacheMinutes = v as number),
+  },
+  ...optimizationDefinitions('ROAS', StrategyType.TARGET_ROAS, 'tROAS'),
+  ...optimizationDefinitions('CPA', StrategyType.TARGET_CPA, 'tCPA'),
+  ...guardrailDefinitions(
+    'ROAS',
+    [StrategyType.TARGET_ROAS, StrategyType.MAXIMIZE_CONVERSION_VALUE],
+    'tROAS'
+  ),
+  ...guardrailDefinitions(
+    'CPA',
+    [StrategyType.TARGET_CPA, StrategyType.MAXIMIZE_CONVERSIONS],
+    'tCPA'
+  ),
+];
+
+/**
+ * Formats a setting value as written in the Settings sheet.
+ * @param value The setting value.
+ * @return The raw value.
+ */
+export function formatSetting(value: SettingValue): string {
+  if (value === undefined) {
+    return '';
+  }
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+/**
+ * Parses the raw entries of the Settings sheet. Missing entries keep their
+ * default value.
+ * @param values The raw values, keyed by setting key.
+ * @return The parsed settings.
+ * @throws An error listing every invalid or unknown entry.
+ */
+export function parseSettings(values: {[key: string]: unknown}): Settings {
+  // Deep copy, so that the defaults are never modified
+  const settings: Settings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS));
+  const errors: string[] = [];
+
+  for (const [key, value] of Object.entries(values)) {
+    const definition = SETTING_DEFINITIONS.find(d => d.key === key);
+    if (!definition) {
+      errors.push(`${key}: unknown setting`);
+      continue;
+    }
+    try {
+      definition.set(settings, definition.parse(String(value ?? '')));
+    } catch (e: unknown) {
+      errors.push(`${key}: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid entries in the Settings sheet:\n${errors.join('\n')}`
+    );
+  }
+  return settings;
+}
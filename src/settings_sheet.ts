@@ -0,0 +1,107 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {TableStorage} from './table_storage';
+import {
+  DEFAULT_SETTINGS,
+  formatSetting,
+  parseSettings,
+  SETTING_DEFINITIONS,
+  Settings,
+} from './settings';
+
+/**
+ * Enum for Settings sheet columns
+ */
+export enum SettingsLabelsIndex {
+  KEY = 0,
+  VALUE = 1,
+  DESCRIPTION = 2,
+}
+
+/**
+ * A class for handling operations related to the "Settings" sheet.
+ *
+ * The sheet holds one key/value entry per setting. Entries can be edited
+ * directly in the spreadsheet, and are validated when they are read.
+ */
+export class SettingsSheet {
+  static readonly SETTINGS_SHEET = 'Settings';
+
+  constructor(private storage: TableStorage) {}
+
+  /**
+   * Initializes the Settings sheet with its headers, and appends the missing
+   * entries with their default value. Existing entries are left unchanged.
+   */
+  initializeSheet(): void {
+    this.storage.insertSheet(
+      SettingsSheet.SETTINGS_SHEET,
+      this.getSettingsHeaders()
+    );
+
+    const keys = this.storage
+      .readRows<string>(SettingsSheet.SETTINGS_SHEET, this.getSettingsHeaders())
+      .map(r => r[SettingsLabelsIndex.KEY]);
+    const rows = SETTING_DEFINITIONS.filter(d => !keys.includes(d.key)).map(
+      d => {
+        const row: string[] = [];
+        row[SettingsLabelsIndex.KEY] = d.key;
+        row[SettingsLabelsIndex.VALUE] = formatSetting(d.get(DEFAULT_SETTINGS));
+        row[SettingsLabelsIndex.DESCRIPTION] = d.description;
+        return row;
+      }
+    );
+    this.storage.appendRows(
+      SettingsSheet.SETTINGS_SHEET,
+      rows,
+      this.getSettingsHeaders()
+    );
+  }
+
+  /**
+   * Reads and validates the entries of the Settings sheet.
+   * @return The settings.
+   * @throws An error listing every invalid entry.
+   */
+  getSettings(): Settings {
+    const rows = this.storage.readRows(
+      SettingsSheet.SETTINGS_SHEET,
+      this.getSettingsHeaders()
+    );
+
+    const values: {[key: string]: unknown} = {};
+    for (const row of rows) {
+      const key = String(row[SettingsLabelsIndex.KEY]).trim();
+      if (key !== '') {
+        values[key] = row[SettingsLabelsIndex.VALUE];
+      }
+    }
+    return parseSettings(values);
+  }
+
+  /**
+   * Returns the headers for the Settings sheet.
+   */
+  private getSettingsHeaders(): string[] {
+    const headers: string[] = [];
+    headers[SettingsLabelsIndex.KEY] = 'Key';
+    headers[SettingsLabelsIndex.VALUE] = 'Value';
+    headers[SettingsLabelsIndex.DESCRIPTION] = 'Description';
+
+    return headers;
+  }
+}
@@ -14,13 +14,18 @@
  * limitations under the License.
  */
 
+import {microsToCurrency} from './currency';
 import {
   BaseSimulation,
   GoogleAdsClient,
   StrategyType,
 } from './google_ads_client';
-import {SpreadsheetService} from './spreadsheet_service';
+import {ChunkType, ResumableJob} from './jobs_sheet';
+import {getCustomerId} from './resource_names';
+import {TableStorage} from './table_storage';
 
+// Order of the values of the rows, and columns of a new sheet. The columns are
+// found by header in the sheet, wherever they are.
 enum SimLabelsIndex {
   CUSTOMER_NAME = 0, // Column A
   ENTITY_NAME = 1, // Column B
@@ -37,81 +42,118 @@ enum SimLabelsIndex {
   SIMULATION_COST = 12, // Column M
   SIMULATION_IMPRESSIONS = 13, // Column N
   SIMULATION_TOP_SLOT_IMPRESSIONS = 14, // Column O
-  FORMULAS = 15, // Column P, start of formulas
+  CURRENCY_CODE = 15, // Column P
+  CUSTOMER_ID = 16, // Column Q
+  FORMULAS = 17, // Column R, start of formulas
 }
 
+// Prefixes of the entity names, which tell the entity type of the rows
+const ENTITY_NAME_PREFIXES: {[chunkType in ChunkType]: string} = {
+  [ChunkType.BIDDING_STRATEGY]: 'Strategy: ',
+  [ChunkType.CAMPAIGN]: 'Campaign: ',
+  [ChunkType.AD_GROUP]: 'Ad Group: ',
+};
+
 interface SimulationFormula {
   header: string;
-  formula: string;
+  // Builds the formula of the first data row, from the column letters of the
+  // given headers, so that the columns can be moved
+  formula: (column: (header: string) => string) => string;
 }
 
 // Calculated formulas on top of simulation data-points to enrich
 const SimulationFormulas: SimulationFormula[] = [
-  // Subtracting cost (M) from conversion value (K)
+  // Subtracting cost from conversion value
   {
     header: 'Value-cost',
-    formula: 'K2-M2',
+    formula: c => `${c('Biddable conversions value')}2-${c('Cost')}2`,
   },
-  // VLookup of conversion value (K) on closest target (I) to current target (F)
+  // VLookup of conversion value on closest simulation target to current target
   {
     header: 'Value target',
-    formula: `VLOOKUP(F2,
-      SORT(FILTER(I:M, C:C = C2), 1, TRUE),
-      COLUMN(K2)-COLUMN(I2)+1,
+    formula: c => `VLOOKUP(${c('Current target')}2,
+      SORT(FILTER({${c('Simulation target')}:${c('Simulation target')},
+        ${c('Biddable conversions value')}:${c('Biddable conversions value')}},
+        ${c('Simulated entity ID')}:${c('Simulated entity ID')} =
+        ${c('Simulated entity ID')}2), 1, TRUE),
+      2,
       TRUE)`,
   },
-  // Subtracting current conversion value (Q) from simulated conversion value (K)
+  // Subtracting current conversion value from simulated conversion value
   {
     header: 'Value diff',
-    formula: 'K2-Q2',
+    formula: c => `${c('Biddable conversions value')}2-${c('Value target')}2`,
   },
-  // VLookup of cost (M) on closest target (I) to current target (F)
+  // VLookup of cost on closest simulation target to current target
   {
     header: 'Cost target',
-    formula: `VLOOKUP(F2,
-      SORT(FILTER(I:M, C:C = C2), 1, TRUE),
-      COLUMN(M2)-COLUMN(I2)+1,
+    formula: c => `VLOOKUP(${c('Current target')}2,
+      SORT(FILTER({${c('Simulation target')}:${c('Simulation target')},
+        ${c('Cost')}:${c('Cost')}},
+        ${c('Simulated entity ID')}:${c('Simulated entity ID')} =
+        ${c('Simulated entity ID')}2), 1, TRUE),
+      2,
       TRUE)`,
   },
-  // Subtracting current cost (S) from simulated cost (M)
+  // Subtracting current cost from simulated cost
   {
     header: 'Cost diff',
-    formula: 'M2-S2',
+    formula: c => `${c('Cost')}2-${c('Cost target')}2`,
   },
-  // Rank simulation data points based on the value-cost (P)
+  // Rank simulation data points based on the value-cost
   {
     header: 'Rank (value-cost)',
-    formula: 'RANK(P2, FILTER(P:P, C:C = C2))',
+    formula: c =>
+      `RANK(${c('Value-cost')}2, FILTER(${c('Value-cost')}:${c(
+        'Value-cost'
+      )}, ${c('Simulated entity ID')}:${c('Simulated entity ID')} = ${c(
+        'Simulated entity ID'
+      )}2))`,
   },
-  // Relative change of simulated (I) to current target (F)
+  // Relative change of simulated to current target
   {
     header: 'ROAS change (%)',
-    formula: 'I2/F2',
+    formula: c => `${c('Simulation target')}2/${c('Current target')}2`,
   },
   // Incremental target
   {
     header: 'Incremental target',
-    formula: 'IF(R2>=0, R2/MAX(T2,0.1), T2/R2)',
+    formula: c =>
+      `IF(${c('Value diff')}2>=0, ${c('Value diff')}2/MAX(${c(
+        'Cost diff'
+      )}2,0.1), ${c('Cost diff')}2/${c('Value diff')}2)`,
   },
 ];
 
+/**
+ * Returns the A1 notation letters of a column.
+ * @param column The 0-based index of the column.
+ */
+function getColumnLetter(column: number): string {
+  let letter = '';
+  for (let n = column + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
 /**
  * A class for handling operations related to the "Simulations" sheet.
  */
-export class SimulationsSheet {
+export class SimulationsSheet implements ResumableJob {
   static readonly SIM_SHEET = 'Simulations';
+  readonly jobName = SimulationsSheet.SIM_SHEET;
 
-  constructor(private spreadsheetService: SpreadsheetService) {}
+  constructor(private storage: TableStorage) {}
 
   /**
    * Loads bidding strategies simulations from the API to the spreadsheet.
+   * The previous simulations of the accounts that could not be loaded are
+   * kept.
    * @param googleAdsClient instance of GoogleAdsClient
    */
   load(googleAdsClient: GoogleAdsClient): void {
-    this.spreadsheetService.clearSheet(SimulationsSheet.SIM_SHEET);
-    const sheet = this.spreadsheetService.getSpreadsheet(
-      SimulationsSheet.SIM_SHEET
-    );
+    this.start(googleAdsClient.getCids());
 
     const allSimulations = [
       ...this.getStrategySimulations(googleAdsClient),
@@ -119,11 +161,81 @@ export class SimulationsSheet {
       ...this.getAdGroupSimulations(googleAdsClient),
     ];
 
-    this.spreadsheetService.appendRows(
+    this.replaceRows(googleAdsClient, allSimulations, Object.values(ChunkType));
+    this.complete();
+  }
+
+  /**
+   * Removes the simulations of the accounts that are not loaded anymore.
+   * @param cids The customer IDs of the load.
+   */
+  start(cids: string[]): void {
+    const headers = this.getSimulationsHeaders();
+    const loaded = cids.map(String);
+    this.storage.deleteRows(
+      SimulationsSheet.SIM_SHEET,
+      [headers[SimLabelsIndex.CUSTOMER_ID]],
+      ([cid]) => !loaded.includes(String(cid))
+    );
+  }
+
+  /**
+   * Loads the simulations of one entity type.
+   * @param googleAdsClient instance of GoogleAdsClient
+   * @param chunkType The entity type.
+   */
+  loadChunk(googleAdsClient: GoogleAdsClient, chunkType: ChunkType): void {
+    const loaders = {
+      [ChunkType.BIDDING_STRATEGY]: () =>
+        this.getStrategySimulations(googleAdsClient),
+      [ChunkType.CAMPAIGN]: () => this.getCampaignSimulations(googleAdsClient),
+      [ChunkType.AD_GROUP]: () => this.getAdGroupSimulations(googleAdsClient),
+    };
+    this.replaceRows(googleAdsClient, loaders[chunkType](), [chunkType]);
+  }
+
+  /**
+   * Adds the formulas once all the simulations are loaded.
+   */
+  complete(): void {
+    this.appendFormulas();
+  }
+
+  /**
+   * Replaces the simulations of some entity types with fresh ones, for the
+   * accounts of the client that were loaded. The rows of the accounts that
+   * could not be loaded are kept, so that a failing account does not wipe
+   * its data.
+   * @param googleAdsClient The client the rows were fetched with.
+   * @param rows The fresh rows.
+   * @param chunkTypes The entity types of the rows.
+   */
+  private replaceRows(
+    googleAdsClient: GoogleAdsClient,
+    rows: Array<Array<string | number>>,
+    chunkTypes: ChunkType[]
+  ): void {
+    const headers = this.getSimulationsHeaders();
+    const loaded = googleAdsClient
+      .getCids()
+      .map(String)
+      .filter(cid => !googleAdsClient.hasFailed(cid));
+    const prefixes = chunkTypes.map(t => ENTITY_NAME_PREFIXES[t]);
+    this.storage.deleteRows(
       SimulationsSheet.SIM_SHEET,
-      allSimulations
+      [
+        headers[SimLabelsIndex.CUSTOMER_ID],
+        headers[SimLabelsIndex.ENTITY_NAME],
+      ],
+      ([cid, name]) =>
+        loaded.includes(String(cid)) &&
+        prefixes.some(p => String(name).startsWith(p))
+    );
+    this.storage.appendRows(
+      SimulationsSheet.SIM_SHEET,
+      rows.filter(r => loaded.includes(String(r[SimLabelsIndex.CUSTOMER_ID]))),
+      headers
     );
-    this.appendFormulas(sheet);
   }
 
   /**
@@ -149,6 +261,8 @@ export class SimulationsSheet {
     headers[SimLabelsIndex.SIMULATION_IMPRESSIONS] = 'Impressions';
     headers[SimLabelsIndex.SIMULATION_TOP_SLOT_IMPRESSIONS] =
       'Top slot impressions';
+    headers[SimLabelsIndex.CURRENCY_CODE] = 'Currency';
+    headers[SimLabelsIndex.CUSTOMER_ID] = 'Customer ID';
 
     // Add formulas headers
     for (const formula of SimulationFormulas) {
@@ -170,9 +284,13 @@ export class SimulationsSheet {
       apiRows.push(
         ...this.createSimulationRows(
           sim.biddingStrategyId,
-          `Strategy: ${s.biddingStrategy.name}`,
+          `${ENTITY_NAME_PREFIXES[ChunkType.BIDDING_STRATEGY]}${
+            s.biddingStrategy.name
+          }`,
+          getCustomerId(s.biddingStrategy.resourceName),
           s.biddingStrategy.type,
           s.customer.descriptiveName,
+          s.customer.currencyCode,
           currentTarget,
           sim
         )
@@ -192,9 +310,11 @@ export class SimulationsSheet {
       apiRows.push(
         ...this.createSimulationRows(
           sim.campaignId,
-          `Campaign: ${s.campaign.name}`,
+          `${ENTITY_NAME_PREFIXES[ChunkType.CAMPAIGN]}${s.campaign.name}`,
+          getCustomerId(s.campaign.resourceName),
           s.campaign.biddingStrategyType,
           s.customer.descriptiveName,
+          s.customer.currencyCode,
           googleAdsClient.getEntityTarget(sim.type, s.campaign) ?? '',
           sim
         )
@@ -218,9 +338,11 @@ export class SimulationsSheet {
       apiRows.push(
         ...this.createSimulationRows(
           sim.adGroupId,
-          `Ad Group: ${s.adGroup.name}`,
+          `${ENTITY_NAME_PREFIXES[ChunkType.AD_GROUP]}${s.adGroup.name}`,
+          getCustomerId(s.adGroup.resourceName),
           strategyType,
           s.customer.descriptiveName,
+          s.customer.currencyCode,
           currentTarget,
           sim
         )
@@ -233,8 +355,10 @@ export class SimulationsSheet {
   private createSimulationRows(
     id: string,
     name: string,
+    customerId: string,
     strategyType: string | StrategyType,
     customerName: string,
+    currencyCode: string,
     currentTarget: string | number,
     simulation: BaseSimulation
   ): Array<Array<string | number>> {
@@ -251,7 +375,9 @@ export class SimulationsSheet {
       const simulationTarget =
         simulation.type === StrategyType.TARGET_ROAS
           ? (point as {targetRoas: number}).targetRoas
-          : (point as {targetCpaMicros: number}).targetCpaMicros / 1e6;
+          : microsToCurrency(
+              (point as {targetCpaMicros: number}).targetCpaMicros
+            );
 
       const row = new Array<string | number>();
       row[SimLabelsIndex.CUSTOMER_NAME] = customerName;
@@ -268,35 +394,42 @@ export class SimulationsSheet {
       row[SimLabelsIndex.SIMULATION_BIDDABLE_CONVERSIONS_VALUE] =
         point.biddableConversionsValue;
       row[SimLabelsIndex.SIMULATION_CLICKS] = point.clicks;
-      row[SimLabelsIndex.SIMULATION_COST] = point.costMicros / 1e6;
+      row[SimLabelsIndex.SIMULATION_COST] = microsToCurrency(point.costMicros);
       row[SimLabelsIndex.SIMULATION_IMPRESSIONS] = point.impressions;
       row[SimLabelsIndex.SIMULATION_TOP_SLOT_IMPRESSIONS] =
         point.topSlotImpressions;
+      row[SimLabelsIndex.CURRENCY_CODE] = currencyCode;
+      row[SimLabelsIndex.CUSTOMER_ID] = customerId;
       return row;
     });
   }
 
-  private appendFormulas(sheet: GoogleAppsScript.Spreadsheet.Sheet): void {
-    const lastRow = sheet.getLastRow();
-    if (lastRow <= 2) return;
-    SimulationFormulas.forEach((value, index) => {
-      // R1C1 column position is offset by 1
-      const column = SimLabelsIndex.FORMULAS + index + 1;
-      sheet
-        .getRange(2, column)
-        .setFormula(value.formula)
-        // Copy to rest rows
-        .copyTo(sheet.getRange(3, column, lastRow - 2));
+  private appendFormulas(): void {
+    const headers = this.getSimulationsHeaders();
+    const columns = this.storage.getColumnIndexes(
+      SimulationsSheet.SIM_SHEET,
+      headers
+    );
+    const getColumn = (header: string) =>
+      getColumnLetter(columns[headers.indexOf(header)]);
+    const formulas: {[header: string]: string} = {};
+    SimulationFormulas.forEach(value => {
+      formulas[value.header] = value.formula(getColumn);
     });
+    this.storage.fillFormulas(SimulationsSheet.SIM_SHEET, formulas);
   }
 
   /**
    * Initializes the Simulations sheet with its headers.
    */
   initializeSheet(): void {
-    this.spreadsheetService.insertSheet(
+    const headers = this.getSimulationsHeaders();
+    this.storage.insertSheet(SimulationsSheet.SIM_SHEET, headers);
+    // Keeps the customer IDs from being read as numbers
+    this.storage.setColumnFormat(
       SimulationsSheet.SIM_SHEET,
-      this.getSimulationsHeaders()
+      headers[SimLabelsIndex.CUSTOMER_ID],
+      '@'
     );
   }
 }
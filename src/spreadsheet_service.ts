@@ -14,10 +14,18 @@
  * limitations under the License.
  */
 
+import {
+  Cell,
+  MergeOptions,
+  TableStorage,
+  mergeTable,
+  resolveColumns,
+} from './table_storage';
+
 /**
  * A service for interacting with Google Sheets.
  */
-export class SpreadsheetService {
+export class SpreadsheetService implements TableStorage {
   private spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet | null = null;
 
   constructor(private spreadsheetId: string) {}
@@ -43,79 +51,178 @@ export class SpreadsheetService {
   }
 
   /**
-   * Fetches all values from a specific column in a sheet, starting from the second row.
+   * Returns the values of the data rows of a sheet, in the order of the given
+   * headers, wherever their columns are in the sheet.
+   * @param sheetName The name of the sheet.
+   * @param headers The headers of the columns to read.
+   * @return The rows, header row excluded.
+   * @throws An error if a header is missing from the sheet.
+   */
+  readRows<T = Cell>(sheetName: string, headers: string[]): T[][] {
+    const [sheetHeaders = [], ...rows] = this.getSpreadsheet(sheetName)
+      .getDataRange()
+      .getValues();
+    const columns = resolveColumns(sheetName, sheetHeaders, headers);
+    return rows.map(r => columns.map(c => r[c] as T));
+  }
+
+  /**
+   * Returns the 0-based indexes of the columns with the given headers.
    * @param sheetName The name of the sheet.
-   * @param columnId The 0-based index of the column.
-   * @param excludeEmpty Whether to filter out empty values. Defaults to true.
-   * @return An array of values from the column.
+   * @param headers The headers of the columns.
+   * @return The indexes, in the order of the headers.
+   * @throws An error if a header is missing from the sheet.
    */
-  fetchValuesFromColumn<T>(
+  getColumnIndexes(sheetName: string, headers: string[]): number[] {
+    return resolveColumns(sheetName, this.getHeaders(sheetName), headers);
+  }
+
+  /**
+   * Merges fresh rows into a sheet, matching rows by ID and columns by header.
+   * The kept cells keep their formulas. See mergeTable().
+   * @param sheetName The name of the sheet.
+   * @param headers The headers of the fresh rows.
+   * @param apiRows The fresh rows.
+   * @param idColumn The 0-based index of the column to use as an ID.
+   * @param options The user columns, and how stale rows are marked.
+   */
+  mergeRows(
     sheetName: string,
-    columnId: number,
-    excludeEmpty = true
-  ): T[] {
+    headers: string[],
+    apiRows: Cell[][],
+    idColumn: number,
+    options: MergeOptions
+  ): void {
     const sheet = this.getSpreadsheet(sheetName);
-    const lastRow = sheet.getLastRow();
-    if (lastRow < 2) {
-      return [];
-    }
-    const range = sheet.getRange(2, columnId + 1, lastRow - 1, 1).getValues();
+    const dataRange = sheet.getDataRange();
+    const [existingHeaders = [], ...existingRows] = dataRange.getValues();
+    const [, ...existingFormulas] = dataRange.getFormulas();
+
+    const merged = mergeTable(
+      existingHeaders,
+      existingRows,
+      headers,
+      apiRows,
+      idColumn,
+      options,
+      existingFormulas
+    );
 
-    // Convert to a one-dimensional array and filter.
-    return range
-      .map(r => r[0])
-      .filter(r => !excludeEmpty || (r !== '' && r !== null)) as T[];
+    dataRange.clearContent();
+    sheet
+      .getRange(1, 1, merged.rows.length + 1, merged.headers.length)
+      .setValues([merged.headers, ...merged.rows]);
+    sheet.getRange(1, 1, 1, merged.headers.length).setFontWeight('bold');
   }
 
   /**
-   * Updates rows in a sheet. Rows with matching IDs in the specified column are updated.
-   * New rows are appended.
+   * Writes values to some columns of the rows with matching IDs.
+   * Rows without values are left unchanged, formulas included.
    * @param sheetName The name of the sheet.
-   * @param apiRows The rows of data to update.
-   * @param idColumn The 0-based index of the column to use as an ID.
+   * @param idHeader The header of the column to use as an ID.
+   * @param headers The headers of the columns to write.
+   * @param valuesById The values to write, in the order of the headers, keyed
+   *     by row ID.
+   * @throws An error if a header is missing from the sheet.
    */
-  updateRows(
+  updateColumnsById(
     sheetName: string,
-    apiRows: Array<Array<string | number | boolean>>,
-    idColumn: number
+    idHeader: string,
+    headers: string[],
+    valuesById: {[id: string]: Array<Cell | Date>}
   ): void {
     const sheet = this.getSpreadsheet(sheetName);
-    const extraRows: Array<Array<string | number | boolean>> = [];
-    const ids = this.fetchValuesFromColumn<string>(sheetName, idColumn, false);
-
-    for (const apiRow of apiRows) {
-      const id = apiRow[idColumn];
-      const index = ids.indexOf(id.toString());
-      if (index > -1) {
-        // Spreadsheet row index is offset by 2 (1 for 1-based index, 1 for header).
-        const rowIndex = index + 2;
-        sheet.getRange(rowIndex, 1, 1, apiRow.length).setValues([apiRow]);
-      } else {
-        extraRows.push(apiRow);
-      }
+    const dataRange = sheet.getDataRange();
+    const [sheetHeaders = [], ...rows] = dataRange.getValues();
+    const [, ...formulas] = dataRange.getFormulas();
+    const [idColumn, ...columns] = resolveColumns(sheetName, sheetHeaders, [
+      idHeader,
+      ...headers,
+    ]);
+    if (rows.length === 0) {
+      return;
     }
 
-    this.appendRows(sheetName, extraRows);
+    // The columns may not be next to each other, so they are written one by one
+    columns.forEach((column, i) => {
+      const values = rows.map(r => valuesById[String(r[idColumn])]?.[i]);
+      if (values.every(v => v === undefined)) {
+        return;
+      }
+      // The other cells are written back as they are, preferring formulas
+      sheet
+        .getRange(2, column + 1, rows.length, 1)
+        .setValues(
+          values.map((v, index) => [
+            v ?? (formulas[index]?.[column] || rows[index][column]),
+          ])
+        );
+    });
   }
 
   /**
    * Appends rows to the end of a sheet.
    * @param sheetName The name of the sheet.
    * @param rows The rows of data to append.
+   * @param headers The headers of the values of the rows, to write them to
+   *     the columns with the same headers. Rows are written as is if omitted.
+   * @throws An error if a header is missing from the sheet.
    */
-  appendRows(
-    sheetName: string,
-    rows: Array<Array<string | number | boolean>>
-  ): void {
+  appendRows(sheetName: string, rows: Cell[][], headers?: string[]): void {
     if (rows.length === 0) {
       return;
     }
     const sheet = this.getSpreadsheet(sheetName);
+    if (headers) {
+      const sheetHeaders = this.getHeaders(sheetName);
+      const columns = resolveColumns(sheetName, sheetHeaders, headers);
+      rows = rows.map(r => {
+        const row: Cell[] = new Array(sheetHeaders.length).fill('');
+        columns.forEach((column, i) => (row[column] = r[i] ?? ''));
+        return row;
+      });
+    }
     sheet
       .getRange(sheet.getLastRow() + 1, 1, rows.length, rows[0].length)
       .setValues(rows);
   }
 
+  /**
+   * Deletes the data rows matching a condition. The other rows are left
+   * untouched, formulas included.
+   * @param sheetName The name of the sheet.
+   * @param headers The headers of the columns the condition reads.
+   * @param matches Whether a row, whose values are in the order of the
+   *     headers, is deleted.
+   * @return The number of deleted rows.
+   * @throws An error if a header is missing from the sheet.
+   */
+  deleteRows(
+    sheetName: string,
+    headers: string[],
+    matches: (row: Cell[]) => boolean
+  ): number {
+    const rows = this.readRows(sheetName, headers);
+    const sheet = this.getSpreadsheet(sheetName);
+    let deleted = 0;
+    // Bottom up, so that the indexes of the rows left to delete do not change,
+    // and by blocks of consecutive rows, to delete loads with few calls
+    for (let end = rows.length - 1; end >= 0; end--) {
+      if (!matches(rows[end])) {
+        continue;
+      }
+      let start = end;
+      while (start > 0 && matches(rows[start - 1])) {
+        start--;
+      }
+      // Sheet rows are offset by 2 (1 for 1-based index, 1 for header)
+      sheet.deleteRows(start + 2, end - start + 1);
+      deleted += end - start + 1;
+      end = start;
+    }
+    return deleted;
+  }
+
   /**
    * Clears all content from a sheet, except for the header row.
    * @param sheetName The name of the sheet.
@@ -130,8 +237,109 @@ export class SpreadsheetService {
     }
   }
 
+  /**
+   * Sets the number format of a column, header excluded.
+   * @param sheetName The name of the sheet.
+   * @param header The header of the column.
+   * @param numberFormat The number format, e.g. '@' for plain text.
+   */
+  setColumnFormat(
+    sheetName: string,
+    header: string,
+    numberFormat: string
+  ): void {
+    const sheet = this.getSpreadsheet(sheetName);
+    const [column] = this.getColumnIndexes(sheetName, [header]);
+    sheet
+      .getRange(2, column + 1, Math.max(1, sheet.getMaxRows() - 1), 1)
+      .setNumberFormat(numberFormat);
+  }
+
+  /**
+   * Highlights the cells of columns whose value is above a threshold, or below
+   * its opposite. Replaces the previous highlights, which are found by their
+   * condition and background, wherever they are.
+   * @param sheetName The name of the sheet.
+   * @param headers The headers of the columns, header row excluded.
+   * @param threshold The threshold.
+   * @param colors The backgrounds of the cells above and below the threshold.
+   */
+  setThresholdHighlights(
+    sheetName: string,
+    headers: string[],
+    threshold: number,
+    colors: {above: string; below: string}
+  ): void {
+    const sheet = this.getSpreadsheet(sheetName);
+    const columns = this.getColumnIndexes(sheetName, headers);
+    const ranges = columns.map(c =>
+      sheet.getRange(2, c + 1, Math.max(1, sheet.getMaxRows() - 1), 1)
+    );
+    // Drop the previous highlights, e.g. of other date ranges or row counts,
+    // and keep the other rules
+    const highlights = [
+      {
+        criteria: SpreadsheetApp.BooleanCriteria.NUMBER_GREATER_THAN,
+        background: colors.above.toLowerCase(),
+      },
+      {
+        criteria: SpreadsheetApp.BooleanCriteria.NUMBER_LESS_THAN,
+        background: colors.below.toLowerCase(),
+      },
+    ];
+    const rules = sheet.getConditionalFormatRules().filter(rule => {
+      const condition = rule.getBooleanCondition();
+      return !highlights.some(
+        h =>
+          condition?.getCriteriaType() === h.criteria &&
+          condition.getBackground()?.toLowerCase() === h.background
+      );
+    });
+
+    if (ranges.length > 0) {
+      rules.push(
+        SpreadsheetApp.newConditionalFormatRule()
+          .whenNumberGreaterThan(threshold)
+          .setBackground(colors.above)
+          .setRanges(ranges)
+          .build(),
+        SpreadsheetApp.newConditionalFormatRule()
+          .whenNumberLessThan(-threshold)
+          .setBackground(colors.below)
+          .setRanges(ranges)
+          .build()
+      );
+    }
+    sheet.setConditionalFormatRules(rules);
+  }
+
+  /**
+   * Fills columns with formulas, written to the first data row and copied to
+   * the others, which adjusts their relative references.
+   * @param sheetName The name of the sheet.
+   * @param formulas The formulas of the first data row, by header.
+   */
+  fillFormulas(sheetName: string, formulas: {[header: string]: string}): void {
+    const sheet = this.getSpreadsheet(sheetName);
+    const lastRow = sheet.getLastRow();
+    if (lastRow <= 2) return;
+    const headers = Object.keys(formulas);
+    const columns = this.getColumnIndexes(sheetName, headers);
+    headers.forEach((header, i) => {
+      // R1C1 column position is offset by 1
+      sheet
+        .getRange(2, columns[i] + 1)
+        .setFormula(formulas[header])
+        // Copy to rest rows
+        .copyTo(sheet.getRange(3, columns[i] + 1, lastRow - 2));
+    });
+  }
+
   /**
    * Inserts a new sheet if it doesn't exist and sets its headers.
+   *
+   * The headers of an existing sheet are left where they are, so that its
+   * columns can be moved, and the missing ones are added to the right.
    * @param sheetName The name of the sheet.
    * @param headers The headers to set for the sheet.
    */
@@ -143,11 +351,31 @@ export class SpreadsheetService {
     if (!sheet) {
       sheet = this.spreadsheet.insertSheet(sheetName);
     }
-    if (headers.length > 0) {
+    const lastColumn = sheet.getLastColumn();
+    const existingHeaders =
+      lastColumn > 0
+        ? sheet.getRange(1, 1, 1, lastColumn).getValues()[0].map(String)
+        : [];
+    const missingHeaders = headers.filter(h => !existingHeaders.includes(h));
+    if (missingHeaders.length > 0) {
       sheet
-        .getRange(1, 1, 1, headers.length)
-        .setValues([headers])
+        .getRange(1, existingHeaders.length + 1, 1, missingHeaders.length)
+        .setValues([missingHeaders])
         .setFontWeight('bold');
     }
   }
+
+  /**
+   * Returns the headers of a sheet, i.e. the values of its first row.
+   * @param sheetName The name of the sheet.
+   * @return The headers.
+   */
+  getHeaders(sheetName: string): string[] {
+    const sheet = this.getSpreadsheet(sheetName);
+    const lastColumn = sheet.getLastColumn();
+    if (lastColumn === 0) {
+      return [];
+    }
+    return sheet.getRange(1, 1, 1, lastColumn).getValues()[0].map(String);
+  }
 }
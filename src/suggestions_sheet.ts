@@ -14,6 +14,7 @@
  * limitations under the License.
  */
 
+import {microsToCurrency} from './currency';
 import {Curve} from './curve';
 import {
   AdGroupResponse,
@@ -24,8 +25,11 @@ import {
   SimulationPoint,
   StrategyType,
 } from './google_ads_client';
+import {ChunkType, ResumableJob} from './jobs_sheet';
+import {getCollection, getCustomerId} from './resource_names';
 import {TargetAnalyzer} from './target_analyzer';
-import {SpreadsheetService} from './spreadsheet_service';
+import {TableStorage} from './table_storage';
+import {DEFAULT_SETTINGS, Settings, SUGGESTION_METRICS} from './settings';
 /**
  * Enum for Suggested Targets sheet columns
  */
@@ -54,30 +58,39 @@ export enum SuggestedTargetsLabelsIndex {
   CURRENT_CONVERSIONS = 21,
   SUGGESTED_CONVERSIONS = 22,
   OPTIMAL_CONVERSIONS = 23,
+  CURRENCY_CODE = 24,
 }
 
+// Collections of the resource names, which tell the entity type of the rows
+const RESOURCE_COLLECTIONS: {[chunkType in ChunkType]: string} = {
+  [ChunkType.BIDDING_STRATEGY]: 'biddingStrategies',
+  [ChunkType.CAMPAIGN]: 'campaigns',
+  [ChunkType.AD_GROUP]: 'adGroups',
+};
+
 /**
  * A class for handling operations related to the "Suggestions" sheet.
  */
-export class SuggestedTargetsSheet {
+export class SuggestedTargetsSheet implements ResumableJob {
   static readonly SUGGESTED_TARGETS_SHEET = 'Suggestions';
-  static readonly METRIC_TO_OPTIMIZE_TO = 'profit';
-  static readonly METRICS = [
-    'profit',
-    'cost',
-    'conversionvalue',
-    'clicks',
-    'impressions',
-    'conversions',
-  ];
-
-  constructor(private spreadsheetService: SpreadsheetService) {}
+  readonly jobName = SuggestedTargetsSheet.SUGGESTED_TARGETS_SHEET;
+  static readonly METRICS = SUGGESTION_METRICS;
+
+  /**
+   * @param storage The storage of the sheets.
+   * @param settings The settings of the metric to optimize and of the
+   *     optimization.
+   */
+  constructor(
+    private storage: TableStorage,
+    private settings: Settings = DEFAULT_SETTINGS
+  ) {}
 
   /**
    * Initializes the Suggestions sheet with its headers.
    */
   initializeSheet(): void {
-    this.spreadsheetService.insertSheet(
+    this.storage.insertSheet(
       SuggestedTargetsSheet.SUGGESTED_TARGETS_SHEET,
       this.getSuggestedTargetsHeaders()
     );
@@ -125,55 +138,127 @@ export class SuggestedTargetsSheet {
       'Suggested Impressions';
     headers[SuggestedTargetsLabelsIndex.OPTIMAL_IMPRESSIONS] =
       'Optimal Impressions';
+    headers[SuggestedTargetsLabelsIndex.CURRENCY_CODE] = 'Currency';
     return headers;
   }
 
   /**
-   * Loads suggestions from the API to the spreadsheet.
+   * Loads suggestions from the API to the spreadsheet. The previous
+   * suggestions of the accounts that could not be loaded are kept.
    * @param googleAdsClient An instance of GoogleAdsClient.
    */
   load(googleAdsClient: GoogleAdsClient): void {
-    this.spreadsheetService.clearSheet(
-      SuggestedTargetsSheet.SUGGESTED_TARGETS_SHEET
-    );
-
-    const metricToOptimizeTowards = SuggestedTargetsSheet.METRIC_TO_OPTIMIZE_TO;
-    const metrics = SuggestedTargetsSheet.METRICS;
+    this.start(googleAdsClient.getCids());
+    for (const chunkType of Object.values(ChunkType)) {
+      this.loadChunk(googleAdsClient, chunkType);
+    }
+    this.complete();
+  }
 
-    // Fetch and append strategy suggestions
-    const portfolioSuggestions = this.getStrategySuggestions(
-      googleAdsClient,
-      metricToOptimizeTowards,
-      metrics
-    );
-    this.spreadsheetService.appendRows(
+  /**
+   * Removes the suggestions of the accounts that are not loaded anymore.
+   * @param cids The customer IDs of the load.
+   */
+  start(cids: string[]): void {
+    const headers = this.getSuggestedTargetsHeaders();
+    const loaded = cids.map(String);
+    this.storage.deleteRows(
       SuggestedTargetsSheet.SUGGESTED_TARGETS_SHEET,
-      portfolioSuggestions
+      [headers[SuggestedTargetsLabelsIndex.BIDDING_STRATEGY_ID]],
+      ([id]) => !loaded.includes(getCustomerId(String(id)))
     );
+  }
 
-    // Fetch and append campaign suggestions
-    const campaignSuggestions = this.getCampaignSuggestions(
+  /**
+   * Loads the suggestions of one entity type.
+   * @param googleAdsClient An instance of GoogleAdsClient.
+   * @param chunkType The entity type.
+   */
+  loadChunk(googleAdsClient: GoogleAdsClient, chunkType: ChunkType): void {
+    this.replaceRows(
       googleAdsClient,
-      metricToOptimizeTowards,
-      metrics
-    );
-    this.spreadsheetService.appendRows(
-      SuggestedTargetsSheet.SUGGESTED_TARGETS_SHEET,
-      campaignSuggestions
+      this.getChunkSuggestions(googleAdsClient, chunkType),
+      chunkType
     );
+  }
 
-    // Fetch and append ad group suggestions
-    const adGroupSuggestions = this.getAdGroupSuggestions(
-      googleAdsClient,
-      metricToOptimizeTowards,
-      metrics
+  /**
+   * Computes the suggestions of one entity type.
+   * @param googleAdsClient An instance of GoogleAdsClient.
+   * @param chunkType The entity type.
+   * @return The rows of the Suggestions sheet.
+   */
+  private getChunkSuggestions(
+    googleAdsClient: GoogleAdsClient,
+    chunkType: ChunkType
+  ): Array<Array<string | number>> {
+    const metricToOptimizeTowards = this.settings.metricToOptimizeTo;
+    const metrics = SuggestedTargetsSheet.METRICS;
+    const loaders = {
+      [ChunkType.BIDDING_STRATEGY]: () =>
+        this.getStrategySuggestions(
+          googleAdsClient,
+          metricToOptimizeTowards,
+          metrics
+        ),
+      [ChunkType.CAMPAIGN]: () =>
+        this.getCampaignSuggestions(
+          googleAdsClient,
+          metricToOptimizeTowards,
+          metrics
+        ),
+      [ChunkType.AD_GROUP]: () =>
+        this.getAdGroupSuggestions(
+          googleAdsClient,
+          metricToOptimizeTowards,
+          metrics
+        ),
+    };
+    return loaders[chunkType]();
+  }
+
+  /**
+   * Replaces the suggestions of an entity type with fresh ones, for the
+   * accounts of the client that were loaded. The rows of the accounts that
+   * could not be loaded are kept, so that a failing account does not wipe
+   * its data.
+   * @param googleAdsClient The client the rows were fetched with.
+   * @param rows The fresh rows.
+   * @param chunkType The entity type of the rows.
+   */
+  private replaceRows(
+    googleAdsClient: GoogleAdsClient,
+    rows: Array<Array<string | number>>,
+    chunkType: ChunkType
+  ): void {
+    const headers = this.getSuggestedTargetsHeaders();
+    const loaded = googleAdsClient
+      .getCids()
+      .map(String)
+      .filter(cid => !googleAdsClient.hasFailed(cid));
+    const isLoaded = (id: string | number | boolean) =>
+      loaded.includes(getCustomerId(String(id)));
+    this.storage.deleteRows(
+      SuggestedTargetsSheet.SUGGESTED_TARGETS_SHEET,
+      [headers[SuggestedTargetsLabelsIndex.BIDDING_STRATEGY_ID]],
+      ([id]) =>
+        isLoaded(id) &&
+        getCollection(String(id)) === RESOURCE_COLLECTIONS[chunkType]
     );
-    this.spreadsheetService.appendRows(
+    this.storage.appendRows(
       SuggestedTargetsSheet.SUGGESTED_TARGETS_SHEET,
-      adGroupSuggestions
+      rows.filter(r =>
+        isLoaded(r[SuggestedTargetsLabelsIndex.BIDDING_STRATEGY_ID])
+      ),
+      headers
     );
   }
 
+  /**
+   * Nothing is left to do once all the suggestions are loaded.
+   */
+  complete(): void {}
+
   /**
    * Fetches and processes bidding strategy suggestions.
    * @param googleAdsClient An instance of GoogleAdsClient.
@@ -198,6 +283,7 @@ export class SuggestedTargetsSheet {
         metricToOptimizeTowards,
         metrics
       );
+      row[SuggestedTargetsLabelsIndex.CURRENCY_CODE] = s.customer.currencyCode;
       sheetRows.push(row);
     }
     return sheetRows;
@@ -227,6 +313,7 @@ export class SuggestedTargetsSheet {
         metricToOptimizeTowards,
         metrics
       );
+      row[SuggestedTargetsLabelsIndex.CURRENCY_CODE] = s.customer.currencyCode;
 
       sheetRows.push(row);
     }
@@ -257,6 +344,7 @@ export class SuggestedTargetsSheet {
         metricToOptimizeTowards,
         metrics
       );
+      row[SuggestedTargetsLabelsIndex.CURRENCY_CODE] = s.customer.currencyCode;
       sheetRows.push(row);
     }
     return sheetRows;
@@ -383,12 +471,12 @@ export class SuggestedTargetsSheet {
     currentTarget: number,
     dataMetric: Array<[number, number]>,
     curves: {[key: string]: {curve: Curve; offset: number}},
-    metricToOptimizeTowards: string = SuggestedTargetsSheet.METRIC_TO_OPTIMIZE_TO
+    metricToOptimizeTowards: string = this.settings.metricToOptimizeTo
   ): [number | undefined, number | undefined] {
     if (dataMetric && dataMetric.length > 0) {
       const {curve} = curves[metricToOptimizeTowards];
       if (curve) {
-        const analyzer = new TargetAnalyzer(curve);
+        const analyzer = new TargetAnalyzer(curve, this.settings.optimization);
         const optimalTarget = analyzer.findOptimalTargetForProfitUnconstrained(
           curve.strategyType
         );
@@ -424,7 +512,7 @@ export class SuggestedTargetsSheet {
     metrics: string[],
     initialParams: number[]
   ): {[key: string]: {curve: Curve; offset: number}} {
-    const curves: {[key: string]: {curve: Curve, offset: number}} = {};
+    const curves: {[key: string]: {curve: Curve; offset: number}} = {};
     metrics.forEach(metric => {
       const [, dataMetric, valueToAdd] = this.calculateValuePerMetric(
         googleAdsClient,
@@ -536,17 +624,19 @@ export class SuggestedTargetsSheet {
     let value;
     switch (metric) {
       case 'cost':
-        value = costMicros / 1e6;
+        value = microsToCurrency(costMicros);
         break;
       case 'profit':
-        value = biddableConversionsValue - costMicros / 1e6;
+        value = biddableConversionsValue - microsToCurrency(costMicros);
         break;
       case 'conversionvalue':
         value = biddableConversionsValue;
         break;
       case 'roas':
         value =
-          costMicros > 0 ? biddableConversionsValue / (costMicros / 1e6) : 0;
+          costMicros > 0
+            ? biddableConversionsValue / microsToCurrency(costMicros)
+            : 0;
         break;
       case 'clicks':
         value = clicks;
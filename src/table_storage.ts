@@ -0,0 +1,277 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * The value of a cell.
+ */
+export type Cell = string | number | boolean;
+
+/**
+ * The storage of the tables the sheets classes read and write, e.g. the sheets
+ * of a spreadsheet, CSV files, or memory in tests.
+ *
+ * A table has a header row, and its columns are found by header wherever they
+ * are, so that users can move them and add their own.
+ */
+export interface TableStorage {
+  /**
+   * Inserts a new table if it doesn't exist and sets its headers. The headers
+   * of an existing table are left where they are, and the missing ones are
+   * added to the right.
+   * @param sheetName The name of the table.
+   * @param headers The headers to set for the table.
+   */
+  insertSheet(sheetName: string, headers: string[]): void;
+
+  /**
+   * Returns the values of the data rows of a table, in the order of the given
+   * headers, wherever their columns are in the table.
+   * @param sheetName The name of the table.
+   * @param headers The headers of the columns to read.
+   * @return The rows, header row excluded.
+   * @throws An error if a header is missing from the table.
+   */
+  readRows<T = Cell>(sheetName: string, headers: string[]): T[][];
+
+  /**
+   * Returns the 0-based indexes of the columns with the given headers.
+   * @param sheetName The name of the table.
+   * @param headers The headers of the columns.
+   * @return The indexes, in the order of the headers.
+   * @throws An error if a header is missing from the table.
+   */
+  getColumnIndexes(sheetName: string, headers: string[]): number[];
+
+  /**
+   * Appends rows to the end of a table.
+   * @param sheetName The name of the table.
+   * @param rows The rows of data to append.
+   * @param headers The headers of the values of the rows, to write them to
+   *     the columns with the same headers. Rows are written as is if omitted.
+   * @throws An error if a header is missing from the table.
+   */
+  appendRows(sheetName: string, rows: Cell[][], headers?: string[]): void;
+
+  /**
+   * Merges fresh rows into a table, matching rows by ID and columns by header.
+   * See mergeTable().
+   * @param sheetName The name of the table.
+   * @param headers The headers of the fresh rows.
+   * @param apiRows The fresh rows.
+   * @param idColumn The 0-based index of the column to use as an ID.
+   * @param options The user columns, and how stale rows are marked.
+   */
+  mergeRows(
+    sheetName: string,
+    headers: string[],
+    apiRows: Cell[][],
+    idColumn: number,
+    options: MergeOptions
+  ): void;
+
+  /**
+   * Writes values to some columns of the rows with matching IDs.
+   * Rows without values are left unchanged, and so are the columns whose value
+   * is undefined or missing, e.g. after the last value of a shorter array.
+   * @param sheetName The name of the table.
+   * @param idHeader The header of the column to use as an ID.
+   * @param headers The headers of the columns to write.
+   * @param valuesById The values to write, in the order of the headers, keyed
+   *     by row ID.
+   * @throws An error if a header is missing from the table.
+   */
+  updateColumnsById(
+    sheetName: string,
+    idHeader: string,
+    headers: string[],
+    valuesById: {[id: string]: Array<Cell | Date>}
+  ): void;
+
+  /**
+   * Deletes the data rows matching a condition. The other rows are left
+   * untouched.
+   * @param sheetName The name of the table.
+   * @param headers The headers of the columns the condition reads.
+   * @param matches Whether a row, whose values are in the order of the
+   *     headers, is deleted.
+   * @return The number of deleted rows.
+   * @throws An error if a header is missing from the table.
+   */
+  deleteRows(
+    sheetName: string,
+    headers: string[],
+    matches: (row: Cell[]) => boolean
+  ): number;
+
+  /**
+   * Clears all the data rows of a table, except for the header row.
+   * @param sheetName The name of the table.
+   */
+  clearSheet(sheetName: string): void;
+
+  /**
+   * Sets the number format of a column, header excluded. Only applies to
+   * storages that display the tables.
+   * @param sheetName The name of the table.
+   * @param header The header of the column.
+   * @param numberFormat The number format, e.g. '@' for plain text.
+   */
+  setColumnFormat(
+    sheetName: string,
+    header: string,
+    numberFormat: string
+  ): void;
+
+  /**
+   * Highlights the cells of columns whose value is above a threshold, or below
+   * its opposite, replacing the previous highlights. Only applies to storages
+   * that display the tables.
+   * @param sheetName The name of the table.
+   * @param headers The headers of the columns, header row excluded.
+   * @param threshold The threshold.
+   * @param colors The backgrounds of the cells above and below the threshold.
+   */
+  setThresholdHighlights(
+    sheetName: string,
+    headers: string[],
+    threshold: number,
+    colors: {above: string; below: string}
+  ): void;
+
+  /**
+   * Fills columns with formulas, written to the first data row and copied to
+   * the others. Only applies to storages that compute formulas.
+   * @param sheetName The name of the table.
+   * @param formulas The formulas of the first data row, by header.
+   */
+  fillFormulas(sheetName: string, formulas: {[header: string]: string}): void;
+}
+
+/**
+ * Options of TableStorage.mergeRows().
+ */
+export interface MergeOptions {
+  // The 0-based indexes of the columns owned by users, kept on existing rows
+  userColumns: number[];
+  // The 0-based index of the column marking the stale rows, and its value
+  staleColumn?: number;
+  staleValue?: string;
+  // Whether an existing row missing from the fresh rows is kept as it is,
+  // rather than marked as stale, by ID, e.g. the rows of failed accounts
+  keep?: (id: string) => boolean;
+}
+
+/**
+ * Merges fresh rows into the rows of a table, matching rows by ID and columns
+ * by header.
+ *
+ * The columns of the table stay where they are, and missing headers are
+ * added to the right. The user columns of existing rows, and the columns
+ * whose header is not part of the headers (e.g. notes), are kept, formulas
+ * included. New rows are appended. Existing rows missing from the fresh rows
+ * are kept and marked as stale, unless the options keep them as they are.
+ * @param existingHeaders The headers of the table.
+ * @param existingRows The values of the data rows of the table.
+ * @param headers The headers of the fresh rows.
+ * @param apiRows The fresh rows.
+ * @param idColumn The 0-based index of the column to use as an ID.
+ * @param options The user columns, and how stale rows are marked.
+ * @param existingFormulas The formulas of the data rows of the table, which
+ *     are kept rather than their values, '' for the cells without one.
+ * @return The headers and the data rows of the merged table.
+ */
+export function mergeTable(
+  existingHeaders: unknown[],
+  existingRows: unknown[][],
+  headers: string[],
+  apiRows: Cell[][],
+  idColumn: number,
+  options: MergeOptions,
+  existingFormulas: string[][] = []
+): {headers: string[]; rows: Cell[][]} {
+  const layout: string[] = existingHeaders.map(String);
+  layout.push(...headers.filter(h => !layout.includes(h)));
+  // Index of each column of the table in the fresh rows, -1 if not part of it
+  const apiColumns = layout.map(h => (h === '' ? -1 : headers.indexOf(h)));
+  const keptColumns = layout
+    .map((_h, column) => column)
+    .filter(
+      column =>
+        apiColumns[column] === -1 ||
+        options.userColumns.includes(apiColumns[column])
+    );
+  const tableIdColumn = apiColumns.indexOf(idColumn);
+  const tableStaleColumn =
+    options.staleColumn === undefined
+      ? -1
+      : apiColumns.indexOf(options.staleColumn);
+
+  // Reads an existing cell, preferring its formula to its value
+  const readCell = (index: number, column: number): Cell => {
+    if (column >= existingHeaders.length) {
+      return '';
+    }
+    return (existingFormulas[index]?.[column] ||
+      (existingRows[index][column] ?? '')) as Cell;
+  };
+
+  const existingIds = existingRows.map(r => String(r[tableIdColumn]));
+  const merged: Cell[][] = existingRows.map((_r, index) => {
+    // Stale unless refreshed below, or kept as it is
+    const row = layout.map((_h, column) => readCell(index, column));
+    if (tableStaleColumn > -1 && !options.keep?.(existingIds[index])) {
+      row[tableStaleColumn] = options.staleValue ?? '';
+    }
+    return row;
+  });
+  for (const apiRow of apiRows) {
+    const row = apiColumns.map(c => (c === -1 ? '' : apiRow[c] ?? ''));
+    const index = existingIds.indexOf(String(apiRow[idColumn]));
+    if (index > -1) {
+      for (const column of keptColumns) {
+        row[column] = readCell(index, column);
+      }
+      merged[index] = row;
+    } else {
+      merged.push(row);
+    }
+  }
+  return {headers: layout, rows: merged};
+}
+
+/**
+ * Returns the 0-based indexes of the columns with the given headers.
+ * @param sheetName The name of the table, for the error message.
+ * @param sheetHeaders The headers of the table.
+ * @param headers The headers of the columns.
+ * @return The indexes, in the order of the headers.
+ * @throws An error listing the headers missing from the table.
+ */
+export function resolveColumns(
+  sheetName: string,
+  sheetHeaders: unknown[],
+  headers: string[]
+): number[] {
+  const names = sheetHeaders.map(h => String(h).trim());
+  const missing = headers.filter(h => !names.includes(h));
+  if (missing.length > 0) {
+    throw new Error(
+      `The ${sheetName} sheet is missing the columns: ${missing.join(', ')}. ` +
+        'Restore their headers, or initialize the spreadsheet again.'
+    );
+  }
+  return headers.map(h => names.indexOf(h));
+}
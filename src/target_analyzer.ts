@@ -16,11 +16,12 @@
 
 import {Curve} from './curve';
 import {StrategyType} from './google_ads_client';
+import {DEFAULT_SETTINGS, OptimizationConfigs} from './settings';
 
 /**
  * Configuration for the optimization algorithm.
  */
-interface OptimizationConfig {
+export interface OptimizationConfig {
   initialTarget: number;
   maxTarget: number;
   minTarget: number;
@@ -34,8 +35,12 @@ interface OptimizationConfig {
 export class TargetAnalyzer {
   /**
    * @param curve The fitted Curve object for the profit data.
+   * @param optimizationConfigs The optimization configuration by strategy type.
    */
-  constructor(private curve: Curve) {}
+  constructor(
+    private curve: Curve,
+    private optimizationConfigs: OptimizationConfigs = DEFAULT_SETTINGS.optimization
+  ) {}
 
   /**
    * Predicts the profit value for a given target using the fitted curve.
@@ -177,7 +182,8 @@ export class TargetAnalyzer {
   }
 
   /**
-   * Returns the optimization configuration based on the strategy type.
+   * Returns the optimization configuration based on the strategy type, as set
+   * in the Settings sheet. The examples below are the default values.
    *
    * The parameters are tailored to the specific bidding strategy type (TARGET_ROAS or TARGET_CPA)
    * due to their differing scales and typical value ranges.
@@ -218,23 +224,9 @@ export class TargetAnalyzer {
     strategyType: StrategyType
   ): OptimizationConfig {
     if (strategyType === StrategyType.TARGET_ROAS) {
-      return {
-        initialTarget: 4.5,
-        maxTarget: 500.0,
-        minTarget: 1.0,
-        maxIterations: 1000,
-        learningRate: 0.05,
-        tolerance: 1e-5,
-      };
+      return this.optimizationConfigs[StrategyType.TARGET_ROAS];
     }
     // else StrategyType.TARGET_CPA
-    return {
-      initialTarget: 50,
-      maxTarget: 2000000.0,
-      minTarget: 1.0,
-      maxIterations: 100000,
-      learningRate: 0.05,
-      tolerance: 1e-5,
-    };
+    return this.optimizationConfigs[StrategyType.TARGET_CPA];
   }
 }
@@ -0,0 +1,77 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const NUMBER = '(\\d+(?:\\.\\d+)?|\\.\\d+)';
+// e.g. +10%, -5%
+const PERCENT_REGEX = new RegExp(`^([+-])\\s*${NUMBER}\\s*%$`);
+// e.g. +0.5, -1
+const DELTA_REGEX = new RegExp(`^([+-])\\s*${NUMBER}$`);
+// e.g. x1.1, *0.9
+const FACTOR_REGEX = new RegExp(`^[x*]\\s*${NUMBER}$`, 'i');
+
+/**
+ * Turns a New target input into an absolute target. Besides absolute targets,
+ * the input can be relative to the current target:
+ * - a percent change, e.g. +10% or -5%,
+ * - an absolute change, e.g. +0.5 or -1,
+ * - a factor, e.g. x1.1 or *0.9.
+ * @param input The New target input.
+ * @param currentTarget The current target, or an empty string if unknown.
+ * @return The absolute target, rounded to micros.
+ * @throws An error if the input is invalid, or if it is relative and the
+ *     current target is unknown.
+ */
+export function resolveTargetInput(
+  input: string | number,
+  currentTarget: string | number
+): number {
+  if (typeof input === 'number') {
+    return input;
+  }
+  const value = input.trim();
+
+  const percent = value.match(PERCENT_REGEX);
+  const delta = value.match(DELTA_REGEX);
+  const factor = value.match(FACTOR_REGEX);
+  if (!percent && !delta && !factor) {
+    const target = Number(value);
+    if (value === '' || isNaN(target)) {
+      throw new Error(`Invalid new target: ${input}`);
+    }
+    return target;
+  }
+
+  const current = Number(currentTarget);
+  if (currentTarget === '' || isNaN(current)) {
+    throw new Error(
+      `Cannot apply ${value}: the current target is unknown, set an ` +
+        'absolute new target instead'
+    );
+  }
+
+  let target: number;
+  if (percent) {
+    const sign = percent[1] === '-' ? -1 : 1;
+    target = current * (1 + (sign * Number(percent[2])) / 100);
+  } else if (delta) {
+    const sign = delta[1] === '-' ? -1 : 1;
+    target = current + sign * Number(delta[2]);
+  } else {
+    target = current * Number(factor![1]);
+  }
+  // Drop floating point noise, e.g. 4.950000000000001
+  return Math.round(target * 1e6) / 1e6;
+}
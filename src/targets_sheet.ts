@@ -14,29 +14,81 @@
  * limitations under the License.
  */
 
-import {SpreadsheetService} from './spreadsheet_service';
+import {currencyToMicros, microsToCurrency} from './currency';
+import {TableStorage} from './table_storage';
+import {AuditAction, AuditLogEntry, AuditLogSheet} from './audit_log_sheet';
+import {Guardrails} from './guardrails';
+import {DEFAULT_SETTINGS, Settings} from './settings';
+import {getDateRangeLabel, whereDateRange} from './date_ranges';
+import {select} from './gaql';
+import {resolveTargetInput} from './target_input';
+import {
+  PendingChangesLabelsIndex,
+  PendingChangesSheet,
+} from './pending_changes_sheet';
+import {getCustomerId} from './resource_names';
 import {
   AdGroupResponse,
   BiddingStrategyResponse,
   CampaignResponse,
   GoogleAdsClient,
+  MutateOperationResult,
+  MutateStatus,
   StrategyType,
 } from './google_ads_client';
 
-// Date ranges to include on the list of bidding targets
-// https://developers.google.com/google-ads/api/docs/query/date-ranges#predefined_date_range
-const DATE_RANGES = ['LAST_30_DAYS'];
-
-// Metrics to include on the list of bidding targets (GAQL naming)
-const TARGETS_METRICS = [
+// Performance columns computed per date range from the TARGETS_METRICS below
+const DERIVED_METRICS_HEADERS = [
+  'actual ROAS',
+  'actual CPA',
+  'target gap',
+  'target gap (%)',
+];
+const DERIVED_METRICS_INPUTS = [
   'conversions',
   'conversions_value',
   'cost_micros',
-  'average_cpc',
+];
+
+// Background of the target gaps above / below the threshold
+const OVERSHOOT_COLOR = '#fce5cd';
+const UNDERSHOOT_COLOR = '#cfe2f3';
+
+// Number format of the Apply on column
+const APPLY_ON_FORMAT = 'yyyy-mm-dd hh:mm';
+
+// Outcome of the rows whose CID is not in the Customers sheet
+const CID_NOT_LISTED_ERROR = 'Customer ID is not listed in the Customers sheet';
+
+// The bidding strategy types whose targets are listed
+const TARGET_STRATEGY_TYPES = [
+  StrategyType.TARGET_ROAS,
+  StrategyType.TARGET_CPA,
+  StrategyType.MAXIMIZE_CONVERSIONS,
+  StrategyType.MAXIMIZE_CONVERSION_VALUE,
 ];
 
 /**
- * Enum for Targets sheet columns
+ * Returns the Apply on time of a row. Cells formatted as dates are read as
+ * dates, others are parsed, e.g. "2025-11-28 00:00".
+ * @param row The row.
+ * @return The time, which is invalid if it cannot be parsed, or undefined if
+ *     the row is not scheduled.
+ */
+function getApplyOn(row: unknown[]): Date | undefined {
+  const value = row[TargetsLabelsIndex.APPLY_ON];
+  if (value instanceof Date) {
+    return value;
+  }
+  if (value === undefined || String(value).trim() === '') {
+    return undefined;
+  }
+  return new Date(String(value).trim());
+}
+
+/**
+ * Enum for Targets sheet columns, i.e. the order of the values of the rows.
+ * The columns are found by header in the sheet, wherever they are.
  */
 export enum TargetsLabelsIndex {
   ID = 0,
@@ -44,6 +96,24 @@ export enum TargetsLabelsIndex {
   STRATEGY_TYPE = 2,
   CURRENT_TARGET = 3,
   NEW_TARGET = 4,
+  OVERRIDE_GUARDRAILS = 5,
+  LAST_UPDATE_STATUS = 6,
+  LAST_UPDATE_ERROR = 7,
+  CURRENCY_CODE = 8,
+  SYNC_STATUS = 9,
+  APPLY_ON = 10,
+}
+
+/**
+ * The state of an entity of the Targets sheet, as of the last load.
+ */
+export interface TargetEntity {
+  strategyType: StrategyType;
+  currentTarget: string | number;
+  // Whether the entity was not found by the last load
+  stale: boolean;
+  // Gap between the actual ROAS/CPA and the target, undefined if unknown
+  targetGapPercent?: number;
 }
 
 /**
@@ -51,112 +121,880 @@ export enum TargetsLabelsIndex {
  */
 export class TargetsSheet {
   static readonly TARGETS_SHEET = 'Targets';
+  // Sync status of the rows whose entity was not returned by the last load
+  static readonly STALE = 'STALE';
+
+  private guardrails: Guardrails;
 
-  constructor(private spreadsheetService: SpreadsheetService) {}
+  /**
+   * @param storage The storage of the sheets.
+   * @param settings The settings of the metrics columns and of the guardrails
+   *     checked before updating targets.
+   */
+  constructor(
+    private storage: TableStorage,
+    private settings: Settings = DEFAULT_SETTINGS
+  ) {
+    this.guardrails = new Guardrails(settings.guardrails);
+  }
 
   /**
    * Initializes the Targets sheet with its headers.
    */
   initializeSheet(): void {
-    this.spreadsheetService.insertSheet(
+    this.storage.insertSheet(
       TargetsSheet.TARGETS_SHEET,
       this.getTargetsHeaders()
     );
+    // Keep relative inputs such as +10% as typed, instead of letting the
+    // spreadsheet turn them into numbers
+    this.storage.setColumnFormat(
+      TargetsSheet.TARGETS_SHEET,
+      this.getFixedHeaders()[TargetsLabelsIndex.NEW_TARGET],
+      '@'
+    );
+    this.storage.setColumnFormat(
+      TargetsSheet.TARGETS_SHEET,
+      this.getFixedHeaders()[TargetsLabelsIndex.APPLY_ON],
+      APPLY_ON_FORMAT
+    );
   }
 
   /**
    * Loads bidding targets from the API to the spreadsheet.
+   *
+   * The API columns are refreshed, while the new targets, guardrails overrides,
+   * last update results and any column added by users are kept. Rows of
+   * entities that no longer exist are kept and marked as stale, while the rows
+   * of accounts that could not be loaded are kept as they are.
    * @param googleAdsClient instance of GoogleAdsClient
    */
   load(googleAdsClient: GoogleAdsClient): void {
     const apiRows = this.getAllTargets(googleAdsClient);
-    this.spreadsheetService.updateRows(
+    this.storage.mergeRows(
       TargetsSheet.TARGETS_SHEET,
+      this.getTargetsHeaders(),
       apiRows,
-      TargetsLabelsIndex.ID
+      TargetsLabelsIndex.ID,
+      {
+        userColumns: [
+          TargetsLabelsIndex.NEW_TARGET,
+          TargetsLabelsIndex.OVERRIDE_GUARDRAILS,
+          TargetsLabelsIndex.LAST_UPDATE_STATUS,
+          TargetsLabelsIndex.LAST_UPDATE_ERROR,
+          TargetsLabelsIndex.APPLY_ON,
+        ],
+        staleColumn: TargetsLabelsIndex.SYNC_STATUS,
+        staleValue: TargetsSheet.STALE,
+        keep: id => googleAdsClient.hasFailed(getCustomerId(id)),
+      }
     );
+    this.highlightTargetGaps();
   }
 
   /**
    * Updates bidding strategy targets via Google Ads API.
+   *
+   * Rows scheduled with an Apply on time in the future are left for
+   * applyScheduled().
    * @param googleAdsClient instance of GoogleAdsClient
    */
   update(googleAdsClient: GoogleAdsClient): void {
-    const editData = this.spreadsheetService
-      .getSpreadsheet(TargetsSheet.TARGETS_SHEET)
-      .getDataRange()
-      .getValues();
+    this.applyChanges(
+      googleAdsClient,
+      this.getEditedRows(new Date()),
+      AuditAction.UPDATE
+    );
+  }
 
-    // Update only the rows that contain a changed ROAS or CPA target
-    const toUpdate = editData.filter(r => {
-      if (
-        r[TargetsLabelsIndex.NEW_TARGET] !==
-        r[TargetsLabelsIndex.CURRENT_TARGET]
-      ) {
-        return (
-          r[TargetsLabelsIndex.NEW_TARGET] !== '' &&
-          Number(r[TargetsLabelsIndex.NEW_TARGET]) > 0
+  /**
+   * Updates the targets of the rows scheduled with an Apply on time that has
+   * passed. Meant to be run by a time-driven trigger. Applied rows have their
+   * new target and Apply on time cleared, so that they are applied once.
+   * Rows that could not be applied only have their Apply on time cleared, so
+   * that they are not retried by every run until they are scheduled again.
+   * @param googleAdsClient instance of GoogleAdsClient
+   * @param now The current time.
+   */
+  applyScheduled(googleAdsClient: GoogleAdsClient, now = new Date()): void {
+    const dueRows = this.getEditedRows(now).filter(
+      r => getApplyOn(r) !== undefined
+    );
+    if (dueRows.length === 0) {
+      return;
+    }
+    const results = this.applyChanges(
+      googleAdsClient,
+      dueRows,
+      AuditAction.UPDATE
+    );
+    this.unscheduleFailedRows(dueRows, results);
+  }
+
+  /**
+   * Reverts the most recent update logged in the Audit log sheet, by setting
+   * the successfully changed targets back to their previous values. If the
+   * most recent batch is a revert that did not fully succeed, its failed
+   * operations are sent again instead.
+   * @param googleAdsClient instance of GoogleAdsClient
+   * @throws An error if there is no update to revert, or if it has already
+   *     been reverted.
+   */
+  revertLastUpdate(googleAdsClient: GoogleAdsClient): void {
+    const batch = new AuditLogSheet(this.storage).getLastBatch();
+    if (!batch) {
+      throw new Error('There is no update to revert in the Audit log sheet.');
+    }
+
+    let revertRows: Array<Array<string | number>>;
+    if (batch.action === AuditAction.REVERT) {
+      const failedEntries = batch.entries.filter(
+        e => e.outcome !== MutateStatus.SUCCESS
+      );
+      if (failedEntries.length === 0) {
+        throw new Error('The last update has already been reverted.');
+      }
+      // The entries of a revert already go back to the previous targets
+      revertRows = failedEntries.map(e =>
+        this.createRevertRow(e, e.oldTarget, e.newTarget)
+      );
+    } else {
+      revertRows = batch.entries
+        .filter(e => e.outcome === MutateStatus.SUCCESS)
+        .map(e => this.createRevertRow(e, e.newTarget, e.oldTarget));
+    }
+
+    this.applyChanges(googleAdsClient, revertRows, AuditAction.REVERT);
+  }
+
+  /**
+   * Returns a row of an audit log entry, in Targets sheet layout, moving its
+   * target between the given values.
+   */
+  private createRevertRow(
+    entry: AuditLogEntry,
+    currentTarget: string | number,
+    newTarget: string | number
+  ): Array<string | number> {
+    const row: Array<string | number> = [];
+    row[TargetsLabelsIndex.ID] = entry.resourceName;
+    row[TargetsLabelsIndex.STRATEGY_TYPE] = entry.strategyType;
+    row[TargetsLabelsIndex.CURRENT_TARGET] = currentTarget;
+    row[TargetsLabelsIndex.NEW_TARGET] = newTarget;
+    return row;
+  }
+
+  /**
+   * Sends the changed rows to Google Ads, logs them and reloads the targets.
+   *
+   * The outcome of each changed row is written to its last update status and
+   * error columns, and every operation sent is appended to the Audit log sheet.
+   * @param googleAdsClient instance of GoogleAdsClient
+   * @param editedRows The rows with a new target, in Targets sheet layout.
+   * @param action The action logged in the Audit log sheet.
+   * @return The outcome of each changed row, keyed by ID.
+   */
+  private applyChanges(
+    googleAdsClient: GoogleAdsClient,
+    editedRows: Array<Array<string | number>>,
+    action: AuditAction
+  ): {[id: string]: MutateOperationResult} {
+    // Reverts restore targets that were already accepted
+    const {results, auditLogEntries} = this.send(
+      googleAdsClient,
+      editedRows,
+      action !== AuditAction.REVERT
+    );
+    new AuditLogSheet(this.storage).append(auditLogEntries, action);
+
+    this.load(googleAdsClient);
+    this.writeUpdateResults(results);
+    if (action === AuditAction.UPDATE) {
+      this.resetUpdatedRows(editedRows, results);
+    }
+    return results;
+  }
+
+  /**
+   * Sends the changes of rows that are not read from the Targets sheet, e.g.
+   * a file given to the command line interface, with the same checks as
+   * update(). Nothing is read from or written to the spreadsheet.
+   * @param googleAdsClient instance of GoogleAdsClient
+   * @param rows The rows, in the layout of getFixedHeaders().
+   * @param now The current time, after which scheduled rows are left out.
+   * @return The outcome of each changed row, keyed by ID.
+   */
+  sendChanges(
+    googleAdsClient: GoogleAdsClient,
+    rows: Array<Array<string | number>>,
+    now = new Date()
+  ): {[id: string]: MutateOperationResult} {
+    return this.send(googleAdsClient, this.selectEditedRows(rows, now), true)
+      .results;
+  }
+
+  /**
+   * Checks the changed rows and sends the operations of the valid ones, CID
+   * by CID.
+   * @param googleAdsClient instance of GoogleAdsClient
+   * @param editedRows The rows with a new target, in Targets sheet layout.
+   * @param applyGuardrails Whether the guardrails apply to the rows.
+   * @return The outcome of each changed row, keyed by ID, and the entries of
+   *     the operations sent, for the Audit log sheet.
+   */
+  private send(
+    googleAdsClient: GoogleAdsClient,
+    editedRows: Array<Array<string | number>>,
+    applyGuardrails: boolean
+  ): {
+    results: {[id: string]: MutateOperationResult};
+    auditLogEntries: AuditLogEntry[];
+  } {
+    const results: {[id: string]: MutateOperationResult} = {};
+    for (const row of editedRows) {
+      const rowCheck = this.checkRow(row, applyGuardrails);
+      if (rowCheck) {
+        results[row[TargetsLabelsIndex.ID]] = rowCheck;
+      }
+    }
+    const toUpdate = editedRows.filter(
+      r => !(r[TargetsLabelsIndex.ID] in results)
+    );
+
+    const auditLogEntries: AuditLogEntry[] = [];
+    const cids = googleAdsClient.getCids();
+    for (const cid of cids) {
+      const changes = this.getCidOperations(toUpdate, cid);
+      if (changes.length === 0) {
+        continue;
+      }
+
+      const cidResults = this.mutate(
+        googleAdsClient,
+        cid,
+        changes.map(c => c.operation)
+      );
+      changes.forEach((change, i) => {
+        results[change.row[TargetsLabelsIndex.ID]] = cidResults[i];
+        auditLogEntries.push({
+          customerId: cid,
+          resourceName: String(change.row[TargetsLabelsIndex.ID]),
+          strategyType: String(change.row[TargetsLabelsIndex.STRATEGY_TYPE]),
+          oldTarget: change.row[TargetsLabelsIndex.CURRENT_TARGET],
+          newTarget: Number(change.row[TargetsLabelsIndex.NEW_TARGET]),
+          outcome: cidResults[i].status,
+          error: cidResults[i].error,
+        });
+      });
+    }
+
+    for (const row of toUpdate) {
+      if (!(row[TargetsLabelsIndex.ID] in results)) {
+        results[row[TargetsLabelsIndex.ID]] = {
+          status: MutateStatus.SKIPPED,
+          error: CID_NOT_LISTED_ERROR,
+        };
+      }
+    }
+    return {results, auditLogEntries};
+  }
+
+  /**
+   * Returns the entities of the sheet, with their current target and the
+   * target gap (%) of the first date range, as of the last load.
+   * @return The entities, keyed by ID.
+   */
+  getEntities(): {[id: string]: TargetEntity} {
+    const headers = this.getFixedHeaders();
+    const gapHeader = `target gap (%) - ${getDateRangeLabel(
+      this.settings.dateRanges[0]
+    )}`;
+    const withGap = this.hasDerivedMetrics();
+    const rows = this.storage.readRows<string | number>(
+      TargetsSheet.TARGETS_SHEET,
+      withGap ? [...headers, gapHeader] : headers
+    );
+
+    const entities: {[id: string]: TargetEntity} = {};
+    for (const row of rows) {
+      const gap = withGap ? row[headers.length] : '';
+      entities[String(row[TargetsLabelsIndex.ID])] = {
+        strategyType: row[TargetsLabelsIndex.STRATEGY_TYPE] as StrategyType,
+        currentTarget: row[TargetsLabelsIndex.CURRENT_TARGET],
+        stale: row[TargetsLabelsIndex.SYNC_STATUS] === TargetsSheet.STALE,
+        targetGapPercent: gap === '' ? undefined : Number(gap),
+      };
+    }
+    return entities;
+  }
+
+  /**
+   * Sends the steps of ramp plans, with the same checks, logging and reload
+   * as update(). The new targets entered in the sheet are left unchanged.
+   * @param googleAdsClient instance of GoogleAdsClient
+   * @param newTargets The new targets, keyed by entity ID.
+   * @return The outcome of each step, keyed by entity ID.
+   */
+  applyRampSteps(
+    googleAdsClient: GoogleAdsClient,
+    newTargets: {[id: string]: number}
+  ): {[id: string]: MutateOperationResult} {
+    const rows = this.storage
+      .readRows<string | number>(
+        TargetsSheet.TARGETS_SHEET,
+        this.getFixedHeaders()
+      )
+      .filter(r => String(r[TargetsLabelsIndex.ID]) in newTargets)
+      .map(r => {
+        const row = [...r];
+        row[TargetsLabelsIndex.NEW_TARGET] =
+          newTargets[String(r[TargetsLabelsIndex.ID])];
+        // Steps never override the guardrails, and are not scheduled
+        row[TargetsLabelsIndex.OVERRIDE_GUARDRAILS] = '';
+        row[TargetsLabelsIndex.APPLY_ON] = '';
+        return row;
+      });
+    if (rows.length === 0) {
+      return {};
+    }
+    return this.applyChanges(googleAdsClient, rows, AuditAction.RAMP);
+  }
+
+  /**
+   * Previews the target updates without applying them.
+   *
+   * Builds the same operations as update(), writes them to the Pending changes
+   * sheet and submits them with validateOnly, so that server-side validation
+   * errors are reported before anything is changed. The rows update() would
+   * block or skip are listed with the same outcome.
+   * @param googleAdsClient instance of GoogleAdsClient
+   */
+  preview(googleAdsClient: GoogleAdsClient): void {
+    const editedRows = this.getEditedRows(new Date());
+    const toUpdate: Array<Array<string | number>> = [];
+    const pendingRows: Array<Array<string | number>> = [];
+
+    for (const row of editedRows) {
+      const rowCheck = this.checkRow(row, true);
+      if (!rowCheck) {
+        toUpdate.push(row);
+        continue;
+      }
+      // Rows that do not pass the checks are listed with the outcome update()
+      // reports, but not sent for validation
+      const cid = this.getCid(row);
+      if (rowCheck.status !== MutateStatus.BLOCKED) {
+        pendingRows.push(
+          this.createPendingChangeRow(
+            cid,
+            row,
+            undefined,
+            `${rowCheck.status}: ${rowCheck.error}`
+          )
         );
+        continue;
       }
-      return false;
-    });
+      const [change] = this.getCidOperations([row], cid);
+      pendingRows.push(
+        change
+          ? this.createPendingChangeRow(
+              cid,
+              row,
+              change.operation,
+              `${rowCheck.status}: ${rowCheck.error}`
+            )
+          : this.createPendingChangeRow(
+              cid,
+              row,
+              undefined,
+              `${MutateStatus.SKIPPED}: Invalid ID: ${
+                row[TargetsLabelsIndex.ID]
+              }`
+            )
+      );
+    }
 
     const cids = googleAdsClient.getCids();
     for (const cid of cids) {
-      // Populate update operations by first filtering on the CID
-      const biddingStrategyOperations = toUpdate
+      const changes = this.getCidOperations(toUpdate, cid);
+      if (changes.length === 0) {
+        continue;
+      }
+
+      const results = this.mutate(
+        googleAdsClient,
+        cid,
+        changes.map(c => c.operation),
+        true
+      );
+      changes.forEach((change, i) => {
+        const validation =
+          results[i].status === MutateStatus.SUCCESS
+            ? 'OK'
+            : results[i].error ?? results[i].status;
+        pendingRows.push(
+          this.createPendingChangeRow(
+            cid,
+            change.row,
+            change.operation,
+            validation
+          )
+        );
+      });
+    }
+
+    // The rows of other CIDs are skipped by update()
+    const listedIds = new Set(
+      pendingRows.map(r => r[PendingChangesLabelsIndex.ENTITY_ID])
+    );
+    for (const row of toUpdate) {
+      if (!listedIds.has(row[TargetsLabelsIndex.ID])) {
+        pendingRows.push(
+          this.createPendingChangeRow(
+            this.getCid(row),
+            row,
+            undefined,
+            `${MutateStatus.SKIPPED}: ${CID_NOT_LISTED_ERROR}`
+          )
+        );
+      }
+    }
+
+    new PendingChangesSheet(this.storage).write(pendingRows);
+  }
+
+  /**
+   * Returns the rows of the Targets sheet with a new target that differs from
+   * the current target, and that are not scheduled after the given time.
+   * @param now The current time.
+   */
+  private getEditedRows(now: Date): Array<Array<string | number>> {
+    // Columns are read by header, so that they can be moved safely
+    const editData = this.storage.readRows<string | number>(
+      TargetsSheet.TARGETS_SHEET,
+      this.getFixedHeaders()
+    );
+    return this.selectEditedRows(editData, now);
+  }
+
+  /**
+   * Returns the rows with a new target that differs from the current target,
+   * and that are not scheduled after the given time, with their new target
+   * resolved.
+   * @param rows The rows, in the layout of getFixedHeaders().
+   * @param now The current time.
+   */
+  private selectEditedRows(
+    rows: Array<Array<string | number>>,
+    now: Date
+  ): Array<Array<string | number>> {
+    return (
+      rows
+        .filter(r => String(r[TargetsLabelsIndex.NEW_TARGET]).trim() !== '')
+        // Invalid times are kept, to be reported by checkRow()
+        .filter(r => !(Number(getApplyOn(r)) > now.getTime()))
+        .map(r => this.resolveNewTarget(r))
         .filter(r => {
           return (
-            r[TargetsLabelsIndex.ID].indexOf(cid + '/biddingStrategies') > -1
+            r[TargetsLabelsIndex.NEW_TARGET] !==
+            r[TargetsLabelsIndex.CURRENT_TARGET]
           );
         })
-        .map(r => this.createBiddingStrategyOperation(r));
+    );
+  }
 
-      const campaignOperations = toUpdate
-        .filter(r => {
-          return r[TargetsLabelsIndex.ID].indexOf(cid + '/campaigns') > -1;
-        })
-        .map(r => this.createCampaignOperation(r));
+  /**
+   * Turns the New target input of a row, which can be relative to the
+   * current target, into an absolute target. Invalid inputs are kept as is,
+   * to be reported by checkRow().
+   * @param row The edited row.
+   * @return The row with an absolute new target.
+   */
+  private resolveNewTarget(
+    row: Array<string | number>
+  ): Array<string | number> {
+    try {
+      const resolved = [...row];
+      resolved[TargetsLabelsIndex.NEW_TARGET] = resolveTargetInput(
+        row[TargetsLabelsIndex.NEW_TARGET],
+        row[TargetsLabelsIndex.CURRENT_TARGET]
+      );
+      return resolved;
+    } catch {
+      // Reported as invalid by checkRow()
+      return row;
+    }
+  }
 
-      const adGroupOperations = toUpdate
-        .filter(r => {
-          return r[TargetsLabelsIndex.ID].indexOf(cid + '/adGroups') > -1;
-        })
-        .map(r => this.createAdGroupOperation(r));
+  /**
+   * Checks an edited row before its operation is built.
+   * @param row The edited row.
+   * @param applyGuardrails Whether the guardrails apply to the row.
+   * @return A skipped or blocked result if the row must not be sent,
+   *     undefined otherwise.
+   */
+  private checkRow(
+    row: Array<string | number | boolean>,
+    applyGuardrails: boolean
+  ): MutateOperationResult | undefined {
+    if (row[TargetsLabelsIndex.SYNC_STATUS] === TargetsSheet.STALE) {
+      return {
+        status: MutateStatus.SKIPPED,
+        error: 'The entity was not found by the last load',
+      };
+    }
 
-      const mutateOperations = [
-        ...biddingStrategyOperations,
-        ...campaignOperations,
-        ...adGroupOperations,
-      ];
+    const strategyType = row[TargetsLabelsIndex.STRATEGY_TYPE];
+    if (!Object.values<unknown>(StrategyType).includes(strategyType)) {
+      return {
+        status: MutateStatus.SKIPPED,
+        error: `Invalid strategy type: ${strategyType}`,
+      };
+    }
+
+    const applyOn = getApplyOn(row);
+    if (applyOn && isNaN(applyOn.getTime())) {
+      return {
+        status: MutateStatus.SKIPPED,
+        error: `Invalid apply on time: ${row[TargetsLabelsIndex.APPLY_ON]}`,
+      };
+    }
+
+    const newTarget = Number(row[TargetsLabelsIndex.NEW_TARGET]);
+    if (!(newTarget > 0)) {
+      return {
+        status: MutateStatus.SKIPPED,
+        error: this.getInvalidTargetError(row),
+      };
+    }
 
-      if (mutateOperations.length > 0) {
-        googleAdsClient.mutateTargets(cid, mutateOperations);
+    if (applyGuardrails && !this.hasGuardrailsOverride(row)) {
+      const violations = this.guardrails.check(
+        row[TargetsLabelsIndex.STRATEGY_TYPE] as StrategyType,
+        row[TargetsLabelsIndex.CURRENT_TARGET] as number | string,
+        newTarget
+      );
+      if (violations.length > 0) {
+        return {status: MutateStatus.BLOCKED, error: violations.join('\n')};
       }
     }
+    return undefined;
+  }
 
-    this.load(googleAdsClient);
+  /**
+   * Describes why the new target of a row is invalid.
+   * @param row The edited row, with an unresolved or non-positive new target.
+   * @return The error message.
+   */
+  private getInvalidTargetError(row: Array<string | number | boolean>): string {
+    try {
+      resolveTargetInput(
+        row[TargetsLabelsIndex.NEW_TARGET] as string | number,
+        row[TargetsLabelsIndex.CURRENT_TARGET] as string | number
+      );
+    } catch (e: unknown) {
+      return e instanceof Error ? e.message : String(e);
+    }
+    return `Invalid new target: ${row[TargetsLabelsIndex.NEW_TARGET]}`;
   }
 
-  private getTargetsHeaders(): string[] {
+  private hasGuardrailsOverride(row: Array<string | number | boolean>) {
+    const override = row[TargetsLabelsIndex.OVERRIDE_GUARDRAILS];
+    return override === true || String(override).toUpperCase() === 'TRUE';
+  }
+
+  /**
+   * Clears the new target and Apply on time, and unticks the guardrails
+   * override of the rows that were updated, so that they only apply to a
+   * single update. New targets are kept across loads, and relative ones would
+   * otherwise be applied again.
+   */
+  private resetUpdatedRows(
+    editedRows: Array<Array<string | number | boolean>>,
+    results: {[id: string]: MutateOperationResult}
+  ): void {
+    const valuesById: {[id: string]: Array<string | number | boolean>} = {};
+    for (const row of editedRows) {
+      const id = String(row[TargetsLabelsIndex.ID]);
+      if (results[id]?.status === MutateStatus.SUCCESS) {
+        valuesById[id] = [
+          '',
+          this.hasGuardrailsOverride(row)
+            ? false
+            : row[TargetsLabelsIndex.OVERRIDE_GUARDRAILS],
+          '',
+        ];
+      }
+    }
+    if (Object.keys(valuesById).length > 0) {
+      const headers = this.getFixedHeaders();
+      this.storage.updateColumnsById(
+        TargetsSheet.TARGETS_SHEET,
+        headers[TargetsLabelsIndex.ID],
+        [
+          headers[TargetsLabelsIndex.NEW_TARGET],
+          headers[TargetsLabelsIndex.OVERRIDE_GUARDRAILS],
+          headers[TargetsLabelsIndex.APPLY_ON],
+        ],
+        valuesById
+      );
+    }
+  }
+
+  /**
+   * Clears the Apply on time of the scheduled rows that were not applied, and
+   * notes it in their last update error. Rows with an invalid time keep it, so
+   * that it can be fixed, as they are never sent.
+   * @param dueRows The scheduled rows whose time has passed.
+   * @param results The outcome of each row, keyed by ID.
+   */
+  private unscheduleFailedRows(
+    dueRows: Array<Array<string | number>>,
+    results: {[id: string]: MutateOperationResult}
+  ): void {
+    const valuesById: {[id: string]: string[]} = {};
+    for (const row of dueRows) {
+      const id = String(row[TargetsLabelsIndex.ID]);
+      const result = results[id];
+      if (
+        result &&
+        result.status !== MutateStatus.SUCCESS &&
+        !isNaN(Number(getApplyOn(row)))
+      ) {
+        valuesById[id] = [
+          '',
+          `${
+            result.error ?? result.status
+          } (not retried: set Apply on again to retry)`,
+        ];
+      }
+    }
+    if (Object.keys(valuesById).length > 0) {
+      const headers = this.getFixedHeaders();
+      this.storage.updateColumnsById(
+        TargetsSheet.TARGETS_SHEET,
+        headers[TargetsLabelsIndex.ID],
+        [
+          headers[TargetsLabelsIndex.APPLY_ON],
+          headers[TargetsLabelsIndex.LAST_UPDATE_ERROR],
+        ],
+        valuesById
+      );
+    }
+  }
+
+  /**
+   * Returns the customer ID of a row, from its resource name.
+   */
+  private getCid(row: Array<string | number>): string {
+    return String(row[TargetsLabelsIndex.ID]).split('/')[1] ?? '';
+  }
+
+  /**
+   * Sends the operations of a single CID, turning a failure of the whole
+   * request into a failed result for each of its operations.
+   */
+  private mutate(
+    googleAdsClient: GoogleAdsClient,
+    cid: string,
+    operations: GoogleAds.MutateOperation[],
+    validateOnly = false
+  ): MutateOperationResult[] {
+    try {
+      return googleAdsClient.mutateTargets(cid, operations, validateOnly);
+    } catch (e: unknown) {
+      const error = e instanceof Error ? e.message : String(e);
+      return operations.map(() => ({status: MutateStatus.FAILED, error}));
+    }
+  }
+
+  private writeUpdateResults(results: {
+    [id: string]: MutateOperationResult;
+  }): void {
+    const valuesById: {[id: string]: string[]} = {};
+    for (const [id, result] of Object.entries(results)) {
+      valuesById[id] = [result.status, result.error ?? ''];
+    }
+    const headers = this.getFixedHeaders();
+    this.storage.updateColumnsById(
+      TargetsSheet.TARGETS_SHEET,
+      headers[TargetsLabelsIndex.ID],
+      [
+        headers[TargetsLabelsIndex.LAST_UPDATE_STATUS],
+        headers[TargetsLabelsIndex.LAST_UPDATE_ERROR],
+      ],
+      valuesById
+    );
+  }
+
+  /**
+   * Builds the mutate operations of a single CID.
+   * @param rows The changed rows of the Targets sheet.
+   * @param cid The customer ID.
+   * @return The operations, each with the row it was built from.
+   */
+  private getCidOperations(
+    rows: Array<Array<string | number>>,
+    cid: string
+  ): Array<{
+    row: Array<string | number>;
+    operation: GoogleAds.MutateOperation;
+  }> {
+    const rowsOfType = (resource: string) =>
+      rows.filter(r => {
+        return (
+          String(r[TargetsLabelsIndex.ID]).indexOf(`${cid}/${resource}`) > -1
+        );
+      });
+
+    // Populate update operations by first filtering on the CID
+    const biddingStrategyOperations = rowsOfType('biddingStrategies').map(
+      row => ({row, operation: this.createBiddingStrategyOperation(row)})
+    );
+    const campaignOperations = rowsOfType('campaigns').map(row => ({
+      row,
+      operation: this.createCampaignOperation(row),
+    }));
+    const adGroupOperations = rowsOfType('adGroups').map(row => ({
+      row,
+      operation: this.createAdGroupOperation(row),
+    }));
+
+    return [
+      ...biddingStrategyOperations,
+      ...campaignOperations,
+      ...adGroupOperations,
+    ];
+  }
+
+  private createPendingChangeRow(
+    cid: string,
+    row: Array<string | number>,
+    operation: GoogleAds.MutateOperation | undefined,
+    validation: string
+  ): Array<string | number> {
+    const currentTarget = Number(row[TargetsLabelsIndex.CURRENT_TARGET]);
+    const newTarget = Number(row[TargetsLabelsIndex.NEW_TARGET]);
+    // Invalid new targets of skipped rows are listed as entered
+    const hasCurrentTarget =
+      row[TargetsLabelsIndex.CURRENT_TARGET] !== '' &&
+      !isNaN(currentTarget) &&
+      !isNaN(newTarget);
+
+    const pendingRow: Array<string | number> = [];
+    pendingRow[PendingChangesLabelsIndex.ENTITY_ID] =
+      row[TargetsLabelsIndex.ID];
+    pendingRow[PendingChangesLabelsIndex.ENTITY_NAME] =
+      row[TargetsLabelsIndex.NAME];
+    pendingRow[PendingChangesLabelsIndex.CUSTOMER_ID] = cid;
+    pendingRow[PendingChangesLabelsIndex.STRATEGY_TYPE] =
+      row[TargetsLabelsIndex.STRATEGY_TYPE];
+    pendingRow[PendingChangesLabelsIndex.CURRENT_TARGET] =
+      row[TargetsLabelsIndex.CURRENT_TARGET];
+    pendingRow[PendingChangesLabelsIndex.NEW_TARGET] = isNaN(newTarget)
+      ? row[TargetsLabelsIndex.NEW_TARGET]
+      : newTarget;
+    pendingRow[PendingChangesLabelsIndex.ABSOLUTE_CHANGE] = hasCurrentTarget
+      ? newTarget - currentTarget
+      : '';
+    pendingRow[PendingChangesLabelsIndex.PERCENT_CHANGE] =
+      hasCurrentTarget && currentTarget !== 0
+        ? ((newTarget - currentTarget) / currentTarget) * 100
+        : '';
+    pendingRow[PendingChangesLabelsIndex.UPDATE_MASK] = operation
+      ? this.getUpdateMask(operation)
+      : '';
+    pendingRow[PendingChangesLabelsIndex.VALIDATION] = validation;
+
+    return pendingRow;
+  }
+
+  private getUpdateMask(operation: GoogleAds.MutateOperation): string {
+    if ('biddingStrategyOperation' in operation) {
+      return operation.biddingStrategyOperation.updateMask;
+    } else if ('campaignOperation' in operation) {
+      return operation.campaignOperation.updateMask;
+    }
+    return operation.adGroupOperation.updateMask;
+  }
+
+  /**
+   * Returns the headers of the TargetsLabelsIndex columns, which must be part
+   * of the sheet, wherever they are.
+   */
+  getFixedHeaders(): string[] {
     const headers: string[] = [];
     headers[TargetsLabelsIndex.ID] = 'ID';
     headers[TargetsLabelsIndex.NAME] = 'Name';
     headers[TargetsLabelsIndex.STRATEGY_TYPE] = 'Bidding strategy type';
     headers[TargetsLabelsIndex.CURRENT_TARGET] = 'Current target';
     headers[TargetsLabelsIndex.NEW_TARGET] = 'New target';
+    headers[TargetsLabelsIndex.OVERRIDE_GUARDRAILS] = 'Override guardrails';
+    headers[TargetsLabelsIndex.LAST_UPDATE_STATUS] = 'Last update status';
+    headers[TargetsLabelsIndex.LAST_UPDATE_ERROR] = 'Last update error';
+    headers[TargetsLabelsIndex.CURRENCY_CODE] = 'Currency';
+    headers[TargetsLabelsIndex.SYNC_STATUS] = 'Sync status';
+    headers[TargetsLabelsIndex.APPLY_ON] = 'Apply on';
+
+    return headers;
+  }
+
+  /**
+   * Returns the headers of the Targets sheet: the TargetsLabelsIndex columns,
+   * then the metrics of each date range.
+   */
+  private getTargetsHeaders(): string[] {
+    const headers = this.getFixedHeaders();
 
     // Build the metrics x date ranges columns
-    for (const m of TARGETS_METRICS) {
+    for (const m of this.settings.targetsMetrics) {
       const metricHeader = this.getMetricHeader(m);
-      for (const d of DATE_RANGES) {
-        headers.push(`${metricHeader} - ${d}`);
+      for (const d of this.settings.dateRanges) {
+        headers.push(`${metricHeader} - ${getDateRangeLabel(d)}`);
+      }
+    }
+
+    // Build the derived metrics x date ranges columns
+    if (this.hasDerivedMetrics()) {
+      for (const header of DERIVED_METRICS_HEADERS) {
+        for (const d of this.settings.dateRanges) {
+          headers.push(`${header} - ${getDateRangeLabel(d)}`);
+        }
       }
     }
 
     return headers;
   }
 
+  /**
+   * Whether the derived metrics columns are included, which requires their
+   * inputs to be part of the TARGETS_METRICS setting.
+   */
+  private hasDerivedMetrics(): boolean {
+    return DERIVED_METRICS_INPUTS.every(m =>
+      this.settings.targetsMetrics.includes(m)
+    );
+  }
+
+  /**
+   * Highlights the target gaps (%) beyond the threshold of the
+   * TARGET_GAP_THRESHOLD_PERCENT setting, in either direction.
+   */
+  private highlightTargetGaps(): void {
+    const headers = this.hasDerivedMetrics()
+      ? this.settings.dateRanges.map(
+          d => `target gap (%) - ${getDateRangeLabel(d)}`
+        )
+      : [];
+
+    this.storage.setThresholdHighlights(
+      TargetsSheet.TARGETS_SHEET,
+      headers,
+      this.settings.targetGapThresholdPercent,
+      {above: OVERSHOOT_COLOR, below: UNDERSHOOT_COLOR}
+    );
+  }
+
   private getMetricHeader(metricName: string): string {
     if (metricName === 'cost_micros') {
       return 'cost';
@@ -165,6 +1003,11 @@ export class TargetsSheet {
     return metricName.replace(/_/g, ' ');
   }
 
+  /**
+   * Fetches the targets of all the entity types from the API.
+   * @param googleAdsClient instance of GoogleAdsClient
+   * @return The rows, in the layout of getTargetsHeaders().
+   */
   private getAllTargets(
     googleAdsClient: GoogleAdsClient
   ): Array<Array<string | number | ''>> {
@@ -178,28 +1021,26 @@ export class TargetsSheet {
   private getPortfolioTargetsByDateRange(googleAdsClient: GoogleAdsClient): {
     [key: string]: BiddingStrategyResponse[];
   } {
-    const columns = [
+    const query = select(
       'bidding_strategy.name',
       'bidding_strategy.type',
       'bidding_strategy.target_roas.target_roas',
       'bidding_strategy.target_cpa.target_cpa_micros',
       'bidding_strategy.maximize_conversion_value.target_roas',
       'bidding_strategy.maximize_conversions.target_cpa_micros',
-    ];
-    const selectGaql = this.buildGaqlColumns(columns);
+      'customer.currency_code',
+      ...this.getMetricFields()
+    )
+      .from('bidding_strategy')
+      .where('bidding_strategy.status', '=', 'ENABLED')
+      .where('bidding_strategy.type', 'IN', TARGET_STRATEGY_TYPES);
 
     const portfolioStrategies: {[key: string]: BiddingStrategyResponse[]} = {};
-    for (const d of DATE_RANGES) {
-      const query = `
-                 SELECT ${selectGaql}
-                 FROM bidding_strategy
-                 WHERE
-                   bidding_strategy.status = 'ENABLED'
-                   AND bidding_strategy.type IN ('${StrategyType.TARGET_ROAS}', '${StrategyType.TARGET_CPA}',
-                                                  '${StrategyType.MAXIMIZE_CONVERSIONS}', '${StrategyType.MAXIMIZE_CONVERSION_VALUE}')
-                   AND segments.date DURING ${d}`;
+    for (const d of this.settings.dateRanges) {
       portfolioStrategies[d] =
-        googleAdsClient.searchStream<BiddingStrategyResponse>(query);
+        googleAdsClient.searchStream<BiddingStrategyResponse>(
+          whereDateRange(query, d)
+        );
     }
 
     return portfolioStrategies;
@@ -212,7 +1053,10 @@ export class TargetsSheet {
       this.getPortfolioTargetsByDateRange(googleAdsClient);
 
     // Keep only CPA and ROAS strategies
-    const rows = portfolioStrategies[DATE_RANGES[0]]
+    const rows = this.getEntitiesOfAllDateRanges(
+      portfolioStrategies,
+      r => r.biddingStrategy.resourceName
+    )
       .filter(r => {
         return r.biddingStrategy.targetRoas || r.biddingStrategy.targetCpa;
       })
@@ -226,17 +1070,21 @@ export class TargetsSheet {
           r.biddingStrategy
         );
         row[TargetsLabelsIndex.NEW_TARGET] = '';
+        row[TargetsLabelsIndex.OVERRIDE_GUARDRAILS] = '';
+        row[TargetsLabelsIndex.LAST_UPDATE_STATUS] = '';
+        row[TargetsLabelsIndex.LAST_UPDATE_ERROR] = '';
+        row[TargetsLabelsIndex.CURRENCY_CODE] = r.customer?.currencyCode ?? '';
+        row[TargetsLabelsIndex.SYNC_STATUS] = '';
+        row[TargetsLabelsIndex.APPLY_ON] = '';
 
-        for (const m of TARGETS_METRICS) {
-          for (const d of DATE_RANGES) {
-            const entry = portfolioStrategies[d].find(
-              group =>
-                group.biddingStrategy.resourceName ===
-                r.biddingStrategy.resourceName
-            );
-            row.push(this.readMetric(entry, m));
-          }
-        }
+        const entries = this.settings.dateRanges.map(d =>
+          portfolioStrategies[d].find(
+            group =>
+              group.biddingStrategy.resourceName ===
+              r.biddingStrategy.resourceName
+          )
+        );
+        row.push(...this.getMetricsColumns(row, entries));
 
         return row;
       });
@@ -247,27 +1095,25 @@ export class TargetsSheet {
   private getCampaignTargetsByDateRange(googleAdsClient: GoogleAdsClient): {
     [key: string]: CampaignResponse[];
   } {
-    const columns = [
+    const query = select(
       'campaign.name',
       'campaign.bidding_strategy_type',
       'campaign.target_roas.target_roas',
       'campaign.target_cpa.target_cpa_micros',
       'campaign.maximize_conversion_value.target_roas',
       'campaign.maximize_conversions.target_cpa_micros',
-    ];
-    const selectGaql = this.buildGaqlColumns(columns);
+      'customer.currency_code',
+      ...this.getMetricFields()
+    )
+      .from('campaign')
+      .where('campaign.status', '!=', 'REMOVED')
+      .where('campaign.bidding_strategy', 'IS NULL')
+      .where('campaign.bidding_strategy_type', 'IN', TARGET_STRATEGY_TYPES);
     const campaigns: {[key: string]: CampaignResponse[]} = {};
-    for (const d of DATE_RANGES) {
-      const query = `
-                 SELECT ${selectGaql}
-                 FROM campaign
-                 WHERE
-                   campaign.status != 'REMOVED'
-                   AND segments.date DURING ${d}
-                   AND campaign.bidding_strategy IS NULL
-                   AND campaign.bidding_strategy_type IN ('${StrategyType.TARGET_ROAS}', '${StrategyType.TARGET_CPA}',
-                                                          '${StrategyType.MAXIMIZE_CONVERSIONS}', '${StrategyType.MAXIMIZE_CONVERSION_VALUE}')`;
-      campaigns[d] = googleAdsClient.searchStream<CampaignResponse>(query);
+    for (const d of this.settings.dateRanges) {
+      campaigns[d] = googleAdsClient.searchStream<CampaignResponse>(
+        whereDateRange(query, d)
+      );
     }
     return campaigns;
   }
@@ -278,7 +1124,10 @@ export class TargetsSheet {
     const campaigns = this.getCampaignTargetsByDateRange(googleAdsClient);
 
     // Keep only CPA and ROAS strategies
-    const rows = campaigns[DATE_RANGES[0]]
+    const rows = this.getEntitiesOfAllDateRanges(
+      campaigns,
+      r => r.campaign.resourceName
+    )
       .filter(r => {
         return (
           r.campaign.maximizeConversionValue ||
@@ -296,15 +1145,19 @@ export class TargetsSheet {
           r.campaign
         );
         row[TargetsLabelsIndex.NEW_TARGET] = '';
+        row[TargetsLabelsIndex.OVERRIDE_GUARDRAILS] = '';
+        row[TargetsLabelsIndex.LAST_UPDATE_STATUS] = '';
+        row[TargetsLabelsIndex.LAST_UPDATE_ERROR] = '';
+        row[TargetsLabelsIndex.CURRENCY_CODE] = r.customer?.currencyCode ?? '';
+        row[TargetsLabelsIndex.SYNC_STATUS] = '';
+        row[TargetsLabelsIndex.APPLY_ON] = '';
 
-        for (const m of TARGETS_METRICS) {
-          for (const d of DATE_RANGES) {
-            const entry = campaigns[d].find(
-              group => group.campaign.resourceName === r.campaign.resourceName
-            );
-            row.push(this.readMetric(entry, m));
-          }
-        }
+        const entries = this.settings.dateRanges.map(d =>
+          campaigns[d].find(
+            group => group.campaign.resourceName === r.campaign.resourceName
+          )
+        );
+        row.push(...this.getMetricsColumns(row, entries));
 
         return row;
       });
@@ -314,28 +1167,26 @@ export class TargetsSheet {
 
   private getAdGroupTargetsByDateRange(
     googleAdsClient: GoogleAdsClient,
-    targetField = 'ad_group.target_roas'
+    targetField: 'ad_group.target_roas' | 'ad_group.target_cpa_micros'
   ): {
     [key: string]: AdGroupResponse[];
   } {
-    const columns = [
+    const query = select(
       'ad_group.name',
       'campaign.bidding_strategy_type',
       targetField,
-    ];
-    const selectGaql = this.buildGaqlColumns(columns);
+      'customer.currency_code',
+      ...this.getMetricFields()
+    )
+      .from('ad_group')
+      .where('ad_group.status', '!=', 'REMOVED')
+      .where(targetField, '>', 0)
+      .where('campaign.bidding_strategy_type', 'IN', TARGET_STRATEGY_TYPES);
     const ad_groups: {[key: string]: AdGroupResponse[]} = {};
-    for (const d of DATE_RANGES) {
-      const query = `
-                 SELECT ${selectGaql}
-                 FROM ad_group
-                 WHERE
-                   ad_group.status != 'REMOVED'
-                   AND ${targetField} > 0
-                   AND segments.date DURING ${d}
-                   AND campaign.bidding_strategy_type IN ('${StrategyType.TARGET_ROAS}', '${StrategyType.TARGET_CPA}',
-                                                          '${StrategyType.MAXIMIZE_CONVERSIONS}', '${StrategyType.MAXIMIZE_CONVERSION_VALUE}')`;
-      ad_groups[d] = googleAdsClient.searchStream<AdGroupResponse>(query);
+    for (const d of this.settings.dateRanges) {
+      ad_groups[d] = googleAdsClient.searchStream<AdGroupResponse>(
+        whereDateRange(query, d)
+      );
     }
     return ad_groups;
   }
@@ -353,12 +1204,15 @@ export class TargetsSheet {
     );
     const ad_groups: {[key: string]: AdGroupResponse[]} = {};
 
-    for (const d of DATE_RANGES) {
+    for (const d of this.settings.dateRanges) {
       ad_groups[d] = [...ad_groups_roas[d], ...ad_groups_cpa[d]];
     }
 
     // Keep only ad group level CPA and ROAS strategies
-    const rows = ad_groups[DATE_RANGES[0]].map(r => {
+    const rows = this.getEntitiesOfAllDateRanges(
+      ad_groups,
+      r => r.adGroup.resourceName
+    ).map(r => {
       const row: Array<string | number | ''> = [];
       row[TargetsLabelsIndex.ID] = r.adGroup.resourceName;
       row[TargetsLabelsIndex.NAME] = r.adGroup.name;
@@ -377,18 +1231,24 @@ export class TargetsSheet {
         ) &&
         r.adGroup.targetCpaMicros
       ) {
-        row[TargetsLabelsIndex.CURRENT_TARGET] = r.adGroup.targetCpaMicros;
+        row[TargetsLabelsIndex.CURRENT_TARGET] = microsToCurrency(
+          r.adGroup.targetCpaMicros
+        );
       }
       row[TargetsLabelsIndex.NEW_TARGET] = '';
+      row[TargetsLabelsIndex.OVERRIDE_GUARDRAILS] = '';
+      row[TargetsLabelsIndex.LAST_UPDATE_STATUS] = '';
+      row[TargetsLabelsIndex.LAST_UPDATE_ERROR] = '';
+      row[TargetsLabelsIndex.CURRENCY_CODE] = r.customer?.currencyCode ?? '';
+      row[TargetsLabelsIndex.SYNC_STATUS] = '';
+      row[TargetsLabelsIndex.APPLY_ON] = '';
 
-      for (const m of TARGETS_METRICS) {
-        for (const d of DATE_RANGES) {
-          const entry = ad_groups[d].find(
-            group => group.adGroup.resourceName === r.adGroup.resourceName
-          );
-          row.push(this.readMetric(entry, m));
-        }
-      }
+      const entries = this.settings.dateRanges.map(d =>
+        ad_groups[d].find(
+          group => group.adGroup.resourceName === r.adGroup.resourceName
+        )
+      );
+      row.push(...this.getMetricsColumns(row, entries));
 
       return row;
     });
@@ -396,6 +1256,30 @@ export class TargetsSheet {
     return rows;
   }
 
+  /**
+   * Lists the entities returned for any of the date ranges, in order of first
+   * appearance, so that entities without activity in the first date range
+   * still get a row.
+   * @param entitiesByDateRange The entities returned for each date range.
+   * @param getResourceName Returns the resource name of an entity.
+   * @return The distinct entities.
+   */
+  private getEntitiesOfAllDateRanges<T>(
+    entitiesByDateRange: {[key: string]: T[]},
+    getResourceName: (entity: T) => string
+  ): T[] {
+    const entities: {[resourceName: string]: T} = {};
+    for (const d of this.settings.dateRanges) {
+      for (const entity of entitiesByDateRange[d]) {
+        const resourceName = getResourceName(entity);
+        if (!(resourceName in entities)) {
+          entities[resourceName] = entity;
+        }
+      }
+    }
+    return Object.values(entities);
+  }
+
   private getTargetFromType(
     type: StrategyType,
     entity:
@@ -405,7 +1289,7 @@ export class TargetsSheet {
     if (type === StrategyType.TARGET_ROAS && entity.targetRoas) {
       return entity.targetRoas?.targetRoas;
     } else if (type === StrategyType.TARGET_CPA && entity.targetCpa) {
-      return entity.targetCpa?.targetCpaMicros;
+      return microsToCurrency(entity.targetCpa.targetCpaMicros);
     } else if (
       type === StrategyType.MAXIMIZE_CONVERSION_VALUE &&
       entity.maximizeConversionValue
@@ -415,17 +1299,94 @@ export class TargetsSheet {
       type === StrategyType.MAXIMIZE_CONVERSIONS &&
       entity.maximizeConversions
     ) {
-      return entity.maximizeConversions?.targetCpaMicros;
+      return microsToCurrency(entity.maximizeConversions.targetCpaMicros);
     }
 
     throw new Error(`Cannot read target for entity with type ${type}`);
   }
 
-  private buildGaqlColumns(columns: string[]): string {
-    // Add metrics. prefix for GAQL
-    const metricsFq = TARGETS_METRICS.map(m => 'metrics.' + m);
-    columns.push(...metricsFq);
-    return columns.join(', ');
+  /**
+   * Returns the GAQL fields of the metrics of the targets.
+   */
+  private getMetricFields(): Array<`metrics.${string}`> {
+    return this.settings.targetsMetrics.map(m => `metrics.${m}` as const);
+  }
+
+  /**
+   * Builds the metrics x date ranges columns of a row, followed by the
+   * derived metrics x date ranges columns.
+   * @param row The row, with its strategy type and current target set.
+   * @param entries The entity returned for each date range, if any.
+   * @return The metrics columns.
+   */
+  private getMetricsColumns(
+    row: Array<string | number | ''>,
+    entries: Array<
+      AdGroupResponse | CampaignResponse | BiddingStrategyResponse | undefined
+    >
+  ): Array<number | string> {
+    const columns: Array<number | string> = [];
+    for (const m of this.settings.targetsMetrics) {
+      columns.push(...entries.map(entry => this.readMetric(entry, m)));
+    }
+    if (!this.hasDerivedMetrics()) {
+      return columns;
+    }
+
+    const derived = entries.map(entry =>
+      this.getDerivedMetrics(
+        row[TargetsLabelsIndex.STRATEGY_TYPE] as StrategyType,
+        row[TargetsLabelsIndex.CURRENT_TARGET],
+        entry
+      )
+    );
+    DERIVED_METRICS_HEADERS.forEach((_header, i) =>
+      columns.push(...derived.map(values => values[i]))
+    );
+    return columns;
+  }
+
+  /**
+   * Computes the actual ROAS and CPA of an entity, and the gap of the one
+   * matching its strategy type to its current target.
+   * @param strategyType The bidding strategy type.
+   * @param currentTarget The current target.
+   * @param entry The entity returned for a date range, if any.
+   * @return The derived metrics, in DERIVED_METRICS_HEADERS order.
+   */
+  private getDerivedMetrics(
+    strategyType: StrategyType,
+    currentTarget: string | number | undefined,
+    entry:
+      | AdGroupResponse
+      | CampaignResponse
+      | BiddingStrategyResponse
+      | undefined
+  ): Array<number | ''> {
+    if (!entry || !entry.metrics) {
+      return DERIVED_METRICS_HEADERS.map(() => '');
+    }
+    const conversions = Number(this.readMetric(entry, 'conversions')) || 0;
+    const value = Number(this.readMetric(entry, 'conversions_value')) || 0;
+    const cost = Number(this.readMetric(entry, 'cost_micros')) || 0;
+    const actualRoas = cost > 0 ? value / cost : '';
+    const actualCpa = conversions > 0 ? cost / conversions : '';
+
+    const isRoas = [
+      StrategyType.TARGET_ROAS,
+      StrategyType.MAXIMIZE_CONVERSION_VALUE,
+    ].includes(strategyType);
+    const actual = isRoas ? actualRoas : actualCpa;
+    const target =
+      currentTarget === undefined || currentTarget === ''
+        ? NaN
+        : Number(currentTarget);
+    if (actual === '' || isNaN(target)) {
+      return [actualRoas, actualCpa, '', ''];
+    }
+
+    const gap = actual - target;
+    return [actualRoas, actualCpa, gap, target > 0 ? (gap / target) * 100 : ''];
   }
 
   private readMetric(
@@ -506,7 +1467,9 @@ export class TargetsSheet {
         update: {
           resourceName: row[TargetsLabelsIndex.ID] as string,
           maximizeConversions: {
-            targetCpaMicros: row[TargetsLabelsIndex.NEW_TARGET] as number,
+            targetCpaMicros: currencyToMicros(
+              Number(row[TargetsLabelsIndex.NEW_TARGET])
+            ),
           },
         },
       };
@@ -530,7 +1493,9 @@ export class TargetsSheet {
         update: {
           resourceName: row[TargetsLabelsIndex.ID] as string,
           targetCpa: {
-            targetCpaMicros: row[TargetsLabelsIndex.NEW_TARGET] as number,
+            targetCpaMicros: currencyToMicros(
+              Number(row[TargetsLabelsIndex.NEW_TARGET])
+            ),
           },
         },
       };
@@ -569,7 +1534,9 @@ export class TargetsSheet {
           updateMask: 'targetCpaMicros',
           update: {
             resourceName: row[TargetsLabelsIndex.ID] as string,
-            targetCpaMicros: row[TargetsLabelsIndex.NEW_TARGET] as number,
+            targetCpaMicros: currencyToMicros(
+              Number(row[TargetsLabelsIndex.NEW_TARGET])
+            ),
           },
         },
       };
@@ -0,0 +1,145 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * How often a time-driven trigger runs.
+ */
+export enum Frequency {
+  HOURLY = 'HOURLY',
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+}
+
+/**
+ * The days of the week of weekly triggers.
+ */
+export const WEEK_DAYS = [
+  'MONDAY',
+  'TUESDAY',
+  'WEDNESDAY',
+  'THURSDAY',
+  'FRIDAY',
+  'SATURDAY',
+  'SUNDAY',
+];
+
+/**
+ * When a time-driven trigger runs. The hour is ignored by hourly triggers,
+ * the day of the week by all but weekly triggers.
+ */
+export interface TriggerSchedule {
+  frequency: Frequency;
+  hour: number;
+  weekDay: string;
+}
+
+/**
+ * A time-driven trigger of the project.
+ */
+export interface ProjectTrigger {
+  id: string;
+  handler: string;
+}
+
+/**
+ * A service for managing the time-driven triggers of the script.
+ */
+export class TriggerService {
+  /**
+   * Returns the time-driven triggers of the project, created by the user
+   * running the script.
+   */
+  getTriggers(): ProjectTrigger[] {
+    return ScriptApp.getProjectTriggers()
+      .filter(t => t.getEventType() === ScriptApp.EventType.CLOCK)
+      .map(t => ({id: t.getUniqueId(), handler: t.getHandlerFunction()}));
+  }
+
+  /**
+   * Creates a time-driven trigger. The hour is in the time zone of the script.
+   * @param handler The name of the function to run.
+   * @param schedule When to run it.
+   * @return The ID of the trigger.
+   */
+  createTrigger(handler: string, schedule: TriggerSchedule): string {
+    const builder = ScriptApp.newTrigger(handler).timeBased();
+    switch (schedule.frequency) {
+      case Frequency.HOURLY:
+        builder.everyHours(1);
+        break;
+      case Frequency.DAILY:
+        builder.everyDays(1).atHour(schedule.hour);
+        break;
+      case Frequency.WEEKLY:
+        builder
+          .onWeekDay(
+            ScriptApp.WeekDay[
+              schedule.weekDay as keyof typeof GoogleAppsScript.Base.Weekday
+            ]
+          )
+          .atHour(schedule.hour);
+        break;
+    }
+    return builder.create().getUniqueId();
+  }
+
+  /**
+   * Whether triggers can be managed, which is not the case in Google Ads
+   * Scripts.
+   */
+  isAvailable(): boolean {
+    return typeof ScriptApp !== 'undefined';
+  }
+
+  /**
+   * Creates a trigger running a function once, after a delay. Replaces the
+   * triggers of the function, so that a single continuation is pending.
+   * @param handler The name of the function to run.
+   * @param delayMs The delay, in milliseconds.
+   * @return The ID of the trigger.
+   */
+  createContinuation(handler: string, delayMs: number): string {
+    this.deleteTriggers(handler);
+    return ScriptApp.newTrigger(handler)
+      .timeBased()
+      .after(delayMs)
+      .create()
+      .getUniqueId();
+  }
+
+  /**
+   * Deletes the triggers of a function.
+   * @param handler The name of the function.
+   */
+  deleteTriggers(handler: string): void {
+    ScriptApp.getProjectTriggers()
+      .filter(t => t.getHandlerFunction() === handler)
+      .forEach(t => ScriptApp.deleteTrigger(t));
+  }
+
+  /**
+   * Deletes a trigger of the project, if it still exists.
+   * @param id The ID of the trigger.
+   */
+  deleteTrigger(id: string): void {
+    const trigger = ScriptApp.getProjectTriggers().find(
+      t => t.getUniqueId() === id
+    );
+    if (trigger) {
+      ScriptApp.deleteTrigger(trigger);
+    }
+  }
+}
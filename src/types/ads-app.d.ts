@@ -1,6 +1,18 @@
 declare namespace GoogleAds {
   interface AdsApp extends GoogleAdsScripts.AdsApp.AdsApp {
-    mutateAll(operations: MutateOperation[]): MutateResult[];
+    mutateAll(
+      operations: MutateOperation[],
+      options?: MutateOptions
+    ): MutateResult[];
+  }
+
+  /**
+   * Options of a mutateAll call.
+   * https://developers.google.com/google-ads/scripts/docs/reference/adsapp/adsapp
+   */
+  interface MutateOptions {
+    apiVersion?: string;
+    partialFailure?: boolean;
   }
 
   /**
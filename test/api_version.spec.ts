@@ -0,0 +1,38 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  DEFAULT_API_VERSION,
+  SUPPORTED_API_VERSIONS,
+  checkApiVersion,
+} from '../src/api_version';
+
+describe('checkApiVersion', () => {
+  it('should accept the supported versions', () => {
+    // Act & Assert
+    for (const version of SUPPORTED_API_VERSIONS) {
+      expect(checkApiVersion(version)).toBe(version);
+    }
+    expect(SUPPORTED_API_VERSIONS).toContain(DEFAULT_API_VERSION);
+  });
+
+  it('should reject the unsupported versions', () => {
+    // Act & Assert
+    expect(() => checkApiVersion('v15')).toThrow(
+      'Unsupported Google Ads API version: v15. Supported versions: v19, v20, v21'
+    );
+  });
+});
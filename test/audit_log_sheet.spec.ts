@@ -0,0 +1,154 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  AuditAction,
+  AuditLogEntry,
+  AuditLogLabelsIndex,
+  AuditLogSheet,
+} from '../src/audit_log_sheet';
+import {MutateStatus, StrategyType} from '../src/google_ads_client';
+import {MemoryStorage} from '../src/memory_storage';
+import {TableStorage} from '../src/table_storage';
+
+describe('AuditLogSheet', () => {
+  let storage: MemoryStorage;
+  let batchIds: number;
+  let auditLogSheet: AuditLogSheet;
+
+  /**
+   * Returns a logged mutation of a campaign.
+   */
+  function entry(id: number, newTarget: number): AuditLogEntry {
+    return {
+      customerId: '123',
+      resourceName: `customers/123/campaigns/${id}`,
+      strategyType: StrategyType.TARGET_ROAS,
+      oldTarget: 2,
+      newTarget,
+      outcome: MutateStatus.SUCCESS,
+      error: '',
+    };
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    storage = new MemoryStorage();
+    batchIds = 0;
+    auditLogSheet = new AuditLogSheet(storage, () => `batch-${++batchIds}`);
+    auditLogSheet.initializeSheet();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should append the entries of a run with the same batch, time and user', () => {
+    // Act
+    auditLogSheet.append([entry(1, 3), entry(2, 4)], AuditAction.UPDATE);
+
+    // Assert
+    const rows = storage.getTable(AuditLogSheet.AUDIT_LOG_SHEET).rows;
+    expect(rows).toEqual([
+      [
+        '2025-01-01T00:00:00.000Z',
+        AuditLogSheet.TRIGGER_USER,
+        AuditAction.UPDATE,
+        '123',
+        'customers/123/campaigns/1',
+        StrategyType.TARGET_ROAS,
+        2,
+        3,
+        MutateStatus.SUCCESS,
+        '',
+        'batch-1',
+      ],
+      expect.arrayContaining(['customers/123/campaigns/2', 'batch-1']),
+    ]);
+  });
+
+  it('should read the last batch, even if appended at the same time', () => {
+    // Arrange
+    auditLogSheet.append([entry(1, 3), entry(2, 4)], AuditAction.UPDATE);
+    auditLogSheet.append([entry(3, 5)], AuditAction.RAMP);
+
+    // Act
+    const batch = auditLogSheet.getLastBatch();
+
+    // Assert
+    expect(batch).toEqual({
+      batchId: 'batch-2',
+      timestamp: '2025-01-01T00:00:00.000Z',
+      action: AuditAction.RAMP,
+      entries: [entry(3, 5)],
+    });
+  });
+
+  it('should tell when the last batch is a revert', () => {
+    // Arrange
+    auditLogSheet.append([entry(1, 3)], AuditAction.UPDATE);
+    jest.advanceTimersByTime(1000);
+    auditLogSheet.append([{...entry(1, 2), oldTarget: 3}], AuditAction.REVERT);
+
+    // Act
+    const batch = auditLogSheet.getLastBatch();
+
+    // Assert
+    expect(batch?.action).toBe(AuditAction.REVERT);
+    expect(batch?.entries.map(e => e.newTarget)).toEqual([2]);
+  });
+
+  it('should return no batch when nothing was logged', () => {
+    // Act & Assert
+    expect(auditLogSheet.getLastBatch()).toBeUndefined();
+  });
+
+  it('should group the rows logged before batch IDs by timestamp', () => {
+    // Arrange
+    const row = (timestamp: string | Date, id: number) => {
+      const r: Array<string | number | Date> = new Array(10).fill('');
+      r[AuditLogLabelsIndex.TIMESTAMP] = timestamp;
+      r[AuditLogLabelsIndex.ACTION] = AuditAction.UPDATE;
+      r[AuditLogLabelsIndex.RESOURCE_NAME] = `customers/123/campaigns/${id}`;
+      return r;
+    };
+    // Sheets turns some timestamps into dates
+    const legacyStorage = {
+      insertSheet: jest.fn(),
+      readRows: jest
+        .fn()
+        .mockReturnValue([
+          row('2024-12-31T00:00:00.000Z', 1),
+          row(new Date('2025-01-01T00:00:00.000Z'), 2),
+          row('2025-01-01T00:00:00.000Z', 3),
+        ]),
+    } as unknown as jest.Mocked<TableStorage>;
+
+    // Act
+    const batch = new AuditLogSheet(legacyStorage).getLastBatch();
+
+    // Assert
+    expect(legacyStorage.insertSheet).toHaveBeenCalledWith(
+      AuditLogSheet.AUDIT_LOG_SHEET,
+      expect.arrayContaining(['Batch ID'])
+    );
+    expect(batch?.timestamp).toBe('2025-01-01T00:00:00.000Z');
+    expect(batch?.entries.map(e => e.resourceName)).toEqual([
+      'customers/123/campaigns/2',
+      'customers/123/campaigns/3',
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {CidSheet} from '../src/cid_sheet';
+import {GoogleAdsClient} from '../src/google_ads_client';
+import {GoogleAdsTransport} from '../src/google_ads_transport';
+import {MemoryStorage} from '../src/memory_storage';
+
+describe('CidSheet', () => {
+  let storage: MemoryStorage;
+  let transport: jest.Mocked<GoogleAdsTransport>;
+  let cidSheet: CidSheet;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    transport = {search: jest.fn(), mutate: jest.fn()};
+    cidSheet = new CidSheet(storage);
+    cidSheet.initializeSheet();
+    storage.appendRows('Customers', [['Old', 1, false, '111', '999']]);
+  });
+
+  it('should replace the customer IDs with the children of the manager', () => {
+    // Arrange
+    transport.search.mockReturnValue([
+      {
+        cid: '999',
+        results: [
+          {
+            customerClient: {
+              clientCustomer: 'customers/222',
+              level: 1,
+              manager: false,
+              descriptiveName: 'New',
+              id: '222',
+            },
+          },
+        ],
+        durationMs: 0,
+      },
+    ]);
+
+    // Act
+    cidSheet.loadCids(new GoogleAdsClient(transport, []), '999');
+
+    // Assert
+    expect(transport.search.mock.calls[0][0]).toEqual(['999']);
+    expect(storage.getTable('Customers').rows).toEqual([
+      ['New', 1, false, '222', '999'],
+    ]);
+  });
+
+  it('should keep the customer IDs when the manager cannot be searched', () => {
+    // Arrange
+    transport.search.mockReturnValue([
+      {
+        cid: '999',
+        results: [],
+        durationMs: 0,
+        error: 'API error: The caller does not have permission',
+      },
+    ]);
+
+    // Act & Assert
+    expect(() =>
+      cidSheet.loadCids(new GoogleAdsClient(transport, []), '999')
+    ).toThrow(
+      'The customer IDs of 999 cannot be fetched: ' +
+        'API error: The caller does not have permission'
+    );
+    expect(storage.getTable('Customers').rows).toEqual([
+      ['Old', 1, false, '111', '999'],
+    ]);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {MutateStatus, StrategyType} from '../src/google_ads_client';
+import {GoogleAdsTransport} from '../src/google_ads_transport';
+import {MemoryStorage} from '../src/memory_storage';
+import {CliIo, parseArgs, runCli} from '../src/node/cli';
+
+describe('cli', () => {
+  let io: jest.Mocked<CliIo>;
+  let transport: jest.Mocked<GoogleAdsTransport>;
+
+  beforeEach(() => {
+    io = {readFile: jest.fn(), write: jest.fn(), error: jest.fn()};
+    transport = {search: jest.fn(), mutate: jest.fn()};
+    (global as unknown as {Logger: object}).Logger = {log: jest.fn()};
+  });
+
+  describe('parseArgs', () => {
+    it('should parse the command and its options', () => {
+      // Act
+      const options = parseArgs([
+        'load-targets',
+        '--cids=123-456-7890, 2345678901',
+        '--format',
+        'json',
+        '--output',
+        'targets.json',
+        '--dir=sheets',
+      ]);
+
+      // Assert
+      expect(options).toEqual({
+        command: 'load-targets',
+        cids: ['1234567890', '2345678901'],
+        format: 'json',
+        output: 'targets.json',
+        dir: 'sheets',
+      });
+    });
+
+    it('should reject invalid arguments', () => {
+      // Act & Assert
+      expect(() => parseArgs([])).toThrow('No command');
+      expect(() => parseArgs(['delete'])).toThrow('Unknown command: delete');
+      expect(() => parseArgs(['suggestions'])).toThrow('requires --cids');
+      expect(() => parseArgs(['update'])).toThrow('requires --file');
+      expect(() => parseArgs(['update', '--file'])).toThrow(
+        'Missing value of --file'
+      );
+      expect(() =>
+        parseArgs(['suggestions', '--cids', '1', '--format', 'xml'])
+      ).toThrow('Unknown format: xml');
+    });
+  });
+
+  describe('runCli', () => {
+    it('should send the changes of the file and write their outcome', () => {
+      // Arrange
+      io.readFile.mockReturnValue(
+        'ID,Bidding strategy type,Current target,New target,Name\n' +
+          `customers/1/campaigns/2,${StrategyType.TARGET_ROAS},4,5,Brand\n` +
+          `customers/1/campaigns/3,${StrategyType.TARGET_ROAS},4,4,Generic\n` +
+          `customers/2/campaigns/4,${StrategyType.TARGET_ROAS},4,-1,Shoes\n` +
+          'customers/1/campaigns/5,,,5,Socks\n'
+      );
+      transport.mutate.mockReturnValue([
+        {status: MutateStatus.FAILED, error: 'Too high.'},
+      ]);
+
+      // Act
+      const exitCode = runCli(
+        parseArgs(['update', '--file', 'changes.csv']),
+        io,
+        () => transport
+      );
+
+      // Assert
+      expect(io.readFile).toHaveBeenCalledWith('changes.csv');
+      expect(transport.mutate).toHaveBeenCalledTimes(1);
+      const [cid, operations, validateOnly] = transport.mutate.mock.calls[0];
+      expect(cid).toBe('1');
+      expect(operations).toHaveLength(1);
+      expect(validateOnly).toBe(false);
+      expect(io.write).toHaveBeenCalledWith(
+        'ID,Status,Error\r\n' +
+          'customers/2/campaigns/4,SKIPPED,Invalid new target: -1\r\n' +
+          'customers/1/campaigns/5,SKIPPED,Invalid strategy type: \r\n' +
+          'customers/1/campaigns/2,FAILED,Too high.\r\n',
+        undefined
+      );
+      expect(exitCode).toBe(1);
+    });
+
+    it('should require the columns the changes are built from', () => {
+      // Arrange
+      io.readFile.mockReturnValue('ID,New target\ncustomers/1/campaigns/2,5\n');
+
+      // Act & Assert
+      expect(() =>
+        runCli(
+          parseArgs(['update', '--file', 'changes.csv']),
+          io,
+          () => transport
+        )
+      ).toThrow(
+        'Missing columns in the file: Bidding strategy type, Current target'
+      );
+      expect(transport.mutate).not.toHaveBeenCalled();
+    });
+
+    it('should write the suggestions and report the failing accounts', () => {
+      // Arrange
+      transport.search.mockImplementation(cids =>
+        cids.map(cid => ({
+          cid,
+          results: [],
+          durationMs: 0,
+          error: 'API error: The caller does not have permission',
+        }))
+      );
+
+      // Act
+      const exitCode = runCli(
+        parseArgs([
+          'suggestions',
+          '--cids',
+          '1',
+          '--format',
+          'json',
+          '--output',
+          'out.json',
+        ]),
+        io,
+        () => transport
+      );
+
+      // Assert
+      expect(io.write).toHaveBeenCalledWith('[]\n', 'out.json');
+      expect(io.error).toHaveBeenCalledWith(
+        'Account 1 could not be loaded: API error: The caller does not have permission'
+      );
+      expect(exitCode).toBe(1);
+    });
+
+    it('should load the targets into the sheet of the storage', () => {
+      // Arrange
+      transport.search.mockImplementation(cids =>
+        cids.map(cid => ({cid, results: [], durationMs: 0}))
+      );
+      const storage = new MemoryStorage();
+      storage.setTable('Targets', {
+        headers: ['ID', 'New target', 'Sync status'],
+        rows: [['customers/1/campaigns/2', 5, '']],
+      });
+
+      // Act
+      const exitCode = runCli(
+        parseArgs(['load-targets', '--cids', '1']),
+        io,
+        () => transport,
+        storage
+      );
+
+      // Assert
+      const [csv] = io.write.mock.calls[0];
+      expect(csv).toMatch(/^ID,New target,Sync status,Name,/);
+      expect(csv).toContain('\r\ncustomers/1/campaigns/2,5,STALE,');
+      expect(storage.getTable('Targets').rows).toHaveLength(1);
+      expect(exitCode).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {parseCsv, toCsv, toJson} from '../src/node/csv';
+
+describe('csv', () => {
+  it('should quote the cells that need it and parse them back', () => {
+    // Arrange
+    const rows = [
+      ['customers/1/campaigns/2', 'Brand, "exact"', 1.5],
+      ['customers/1/campaigns/3', 'Two\nlines', ''],
+    ];
+
+    // Act
+    const csv = toCsv(['ID', 'Name', 'New target'], rows);
+
+    // Assert
+    expect(csv).toBe(
+      'ID,Name,New target\r\n' +
+        'customers/1/campaigns/2,"Brand, ""exact""",1.5\r\n' +
+        'customers/1/campaigns/3,"Two\nlines",\r\n'
+    );
+    expect(parseCsv(csv)).toEqual([
+      ['ID', 'Name', 'New target'],
+      ['customers/1/campaigns/2', 'Brand, "exact"', '1.5'],
+      ['customers/1/campaigns/3', 'Two\nlines', ''],
+    ]);
+  });
+
+  it('should parse files without a final line break', () => {
+    // Act & Assert
+    expect(parseCsv('a,b\n1,2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+    expect(() => parseCsv('a,"b\n1,2')).toThrow('Invalid CSV');
+  });
+
+  it('should key the JSON objects by header', () => {
+    // Act
+    const json = toJson(['ID', 'Target'], [['customers/1/campaigns/2', 3]]);
+
+    // Assert
+    expect(JSON.parse(json)).toEqual([
+      {ID: 'customers/1/campaigns/2', Target: 3},
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {CsvStorage} from '../src/node/csv_storage';
+
+describe('CsvStorage', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'abm-')), 'sheets');
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(dir), {recursive: true, force: true});
+  });
+
+  it('should write each table to the CSV file of its name', () => {
+    // Arrange
+    const storage = new CsvStorage(dir);
+
+    // Act
+    storage.insertSheet('Audit log', ['ID', 'New target']);
+    storage.appendRows('Audit log', [['customers/1/campaigns/2', '+10%']]);
+
+    // Assert
+    expect(fs.readFileSync(path.join(dir, 'Audit log.csv'), 'utf8')).toBe(
+      'ID,New target\r\ncustomers/1/campaigns/2,+10%\r\n'
+    );
+  });
+
+  it('should read the tables written by a previous run', () => {
+    // Arrange
+    fs.mkdirSync(dir);
+    fs.writeFileSync(
+      path.join(dir, 'Targets.csv'),
+      'ID,New target,Name\ncustomers/1/campaigns/2,1.5,"Brand, US"\n'
+    );
+    const storage = new CsvStorage(dir);
+
+    // Act
+    storage.insertSheet('Targets', ['ID', 'Sync status']);
+
+    // Assert
+    expect(storage.readRows('Targets', ['New target', 'Name'])).toEqual([
+      [1.5, 'Brand, US'],
+    ]);
+    expect(new CsvStorage(dir).getTable('Targets').headers).toEqual([
+      'ID',
+      'New target',
+      'Name',
+      'Sync status',
+    ]);
+    expect(() => storage.getTable('Jobs')).toThrow(
+      'Sheet Jobs cannot be found.'
+    );
+  });
+});
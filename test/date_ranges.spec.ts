@@ -0,0 +1,68 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  getDateRangeLabel,
+  parseDateRange,
+  whereDateRange,
+} from '../src/date_ranges';
+import {select} from '../src/gaql';
+
+describe('parseDateRange', () => {
+  it('should accept predefined date ranges', () => {
+    expect(parseDateRange(' last_14_days ')).toEqual('LAST_14_DAYS');
+  });
+
+  it('should normalize custom date windows', () => {
+    expect(parseDateRange("between '2025-01-01' and '2025-01-31'")).toEqual(
+      'BETWEEN 2025-01-01 AND 2025-01-31'
+    );
+  });
+
+  it('should reject invalid date windows', () => {
+    expect(() => parseDateRange('BETWEEN 2025-02-30 AND 2025-03-01')).toThrow(
+      '"2025-02-30" is not a valid date'
+    );
+    expect(() => parseDateRange('BETWEEN 2025-02-01 AND 2025-01-01')).toThrow(
+      'starts after it ends'
+    );
+  });
+});
+
+describe('whereDateRange', () => {
+  it('should add the GAQL condition of each kind of date range', () => {
+    const query = select('campaign.name').from('campaign');
+
+    expect(String(whereDateRange(query, 'THIS_MONTH'))).toEqual(
+      'SELECT campaign.name FROM campaign WHERE segments.date DURING THIS_MONTH'
+    );
+    expect(
+      String(whereDateRange(query, 'BETWEEN 2025-01-01 AND 2025-01-31'))
+    ).toEqual(
+      'SELECT campaign.name FROM campaign ' +
+        "WHERE segments.date BETWEEN '2025-01-01' AND '2025-01-31'"
+    );
+  });
+});
+
+describe('getDateRangeLabel', () => {
+  it('should label custom date windows with their dates', () => {
+    expect(getDateRangeLabel('LAST_7_DAYS')).toEqual('LAST_7_DAYS');
+    expect(getDateRangeLabel('BETWEEN 2025-01-01 AND 2025-01-31')).toEqual(
+      '2025-01-01 to 2025-01-31'
+    );
+  });
+});
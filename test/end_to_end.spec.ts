@@ -0,0 +1,245 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as http from 'http';
+
+import {AuditLogSheet} from '../src/audit_log_sheet';
+import {GoogleAdsClient, MutateStatus} from '../src/google_ads_client';
+import {ApiTransport} from '../src/google_ads_transport';
+import {MemoryStorage} from '../src/memory_storage';
+import {DEFAULT_RETRY_CONFIG} from '../src/retry';
+import {TargetsSheet} from '../src/targets_sheet';
+import {
+  FIXTURES_DIR,
+  FailureKind,
+  FakeGoogleAdsServer,
+} from './fake_google_ads/server';
+
+const CIDS = ['1234567890', '2345678901'];
+
+describe('End to end', () => {
+  let server: FakeGoogleAdsServer;
+  let storage: MemoryStorage;
+  let targetsSheet: TargetsSheet;
+  let client: GoogleAdsClient;
+
+  /**
+   * Returns the rows of the Targets sheet, with the given columns.
+   */
+  function readTargets(headers: string[]) {
+    return storage.readRows(TargetsSheet.TARGETS_SHEET, ['ID', ...headers]);
+  }
+
+  beforeEach(() => {
+    (global as unknown as {Logger: object}).Logger = {log: jest.fn()};
+    server = new FakeGoogleAdsServer(FIXTURES_DIR);
+    storage = new MemoryStorage();
+    targetsSheet = new TargetsSheet(storage);
+    targetsSheet.initializeSheet();
+    new AuditLogSheet(storage).initializeSheet();
+    client = new GoogleAdsClient(
+      new ApiTransport(
+        'dev-token',
+        '9876543210',
+        DEFAULT_RETRY_CONFIG,
+        10,
+        'v20',
+        server.transport(),
+        {getAccessToken: () => 'token'},
+        'https://googleads.test'
+      ),
+      CIDS
+    );
+  });
+
+  it('should load the targets of the recorded accounts', () => {
+    // Act
+    targetsSheet.load(client);
+
+    // Assert
+    expect(readTargets(['Current target', 'Currency'])).toEqual([
+      ['customers/1234567890/biddingStrategies/333', 20, 'EUR'],
+      ['customers/1234567890/campaigns/111', 4, 'EUR'],
+      ['customers/1234567890/campaigns/222', 15, 'EUR'],
+      ['customers/2345678901/campaigns/444', 3.5, 'USD'],
+      ['customers/1234567890/adGroups/555', 5, 'EUR'],
+    ]);
+    const [request] = server.requests;
+    expect(request.url).toBe(
+      'https://googleads.test/v20/customers/1234567890/googleAds:searchStream'
+    );
+    expect(request.headers).toEqual({
+      Authorization: 'Bearer token',
+      'developer-token': 'dev-token',
+      'login-customer-id': '9876543210',
+    });
+    expect(JSON.parse(request.payload!).query).toContain(
+      'FROM bidding_strategy'
+    );
+  });
+
+  it('should merge the chunks of the search streams', () => {
+    // Arrange
+    server.streamBatchSize = 1;
+
+    // Act
+    targetsSheet.load(client);
+
+    // Assert
+    expect(readTargets([])).toHaveLength(5);
+  });
+
+  it('should retry the searches that hit the rate limit', () => {
+    // Arrange
+    server.injectFailure({
+      kind: FailureKind.RATE_LIMIT,
+      cid: '1234567890',
+      method: 'searchStream',
+      times: 2,
+    });
+
+    // Act
+    targetsSheet.load(client);
+
+    // Assert
+    expect(server.sleeps).toHaveLength(2);
+    expect(client.getFailures()).toEqual({});
+    expect(readTargets([])).toHaveLength(5);
+  });
+
+  it('should keep the rows of the accounts without permission', () => {
+    // Arrange
+    targetsSheet.load(client);
+    server.injectFailure({
+      kind: FailureKind.PERMISSION_DENIED,
+      cid: '2345678901',
+    });
+
+    // Act
+    targetsSheet.load(client);
+
+    // Assert
+    expect(client.getFailures()).toEqual({
+      '2345678901': expect.stringContaining(
+        'The caller does not have permission (authorizationError.USER_PERMISSION_DENIED)'
+      ),
+    });
+    expect(readTargets(['Sync status'])).toContainEqual([
+      'customers/2345678901/campaigns/444',
+      '',
+    ]);
+  });
+
+  it('should send the new targets and report the partial failures', () => {
+    // Arrange
+    targetsSheet.load(client);
+    storage.updateColumnsById(
+      TargetsSheet.TARGETS_SHEET,
+      'ID',
+      ['New target'],
+      {
+        'customers/1234567890/campaigns/111': [4.4],
+        'customers/1234567890/campaigns/222': [16],
+      }
+    );
+    server.injectFailure({
+      kind: FailureKind.PARTIAL_FAILURE,
+      operationIndexes: [1],
+      times: 1,
+    });
+
+    // Act
+    targetsSheet.update(client);
+
+    // Assert
+    expect(server.mutates).toHaveLength(1);
+    const [mutate] = server.mutates;
+    expect(mutate.cid).toBe('1234567890');
+    expect(mutate.partialFailure).toBe(true);
+    expect(mutate.validateOnly).toBe(false);
+    expect(mutate.operations).toEqual([
+      {
+        campaignOperation: {
+          update: {
+            resourceName: 'customers/1234567890/campaigns/111',
+            targetRoas: {targetRoas: 4.4},
+          },
+          updateMask: 'targetRoas.targetRoas',
+        },
+      },
+      {
+        campaignOperation: {
+          update: {
+            resourceName: 'customers/1234567890/campaigns/222',
+            maximizeConversions: {targetCpaMicros: 16000000},
+          },
+          updateMask: 'maximizeConversions.targetCpaMicros',
+        },
+      },
+    ]);
+    expect(
+      readTargets(['Last update status', 'Last update error']).slice(1, 3)
+    ).toEqual([
+      ['customers/1234567890/campaigns/111', MutateStatus.SUCCESS, ''],
+      [
+        'customers/1234567890/campaigns/222',
+        MutateStatus.FAILED,
+        'The target is not valid.',
+      ],
+    ]);
+  });
+
+  it('should serve the API over HTTP', async () => {
+    // Arrange
+    const endpoint = await server.listen();
+
+    try {
+      // Act
+      const [status, body] = await new Promise<[number, string]>(
+        (resolve, reject) => {
+          const request = http.request(
+            `${endpoint}/v20/customers/2345678901/googleAds:searchStream`,
+            {
+              method: 'POST',
+              headers: {
+                Authorization: 'Bearer token',
+                'developer-token': 'dev-token',
+                'content-type': 'application/json',
+              },
+            },
+            response => {
+              let text = '';
+              response.on('data', chunk => (text += chunk));
+              response.on('end', () => resolve([response.statusCode!, text]));
+            }
+          );
+          request.on('error', reject);
+          request.end(
+            JSON.stringify({query: 'SELECT campaign.name FROM campaign'})
+          );
+        }
+      );
+
+      // Assert
+      expect(status).toBe(200);
+      const [chunk] = JSON.parse(body);
+      expect(chunk.fieldMask).toBe('campaign.name');
+      expect(chunk.results[0].campaign.name).toBe('Shoes');
+    } finally {
+      await server.close();
+    }
+  });
+});
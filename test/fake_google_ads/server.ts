@@ -0,0 +1,460 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+
+import {
+  HttpRequest,
+  HttpResponse,
+  HttpTransport,
+} from '../../src/http_transport';
+
+/**
+ * The directory of the recorded fixtures: one directory per customer ID, with
+ * one JSON file of search rows per GAQL resource, e.g.
+ * 1234567890/campaign.json.
+ */
+export const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+/**
+ * The failures the server can inject.
+ */
+export enum FailureKind {
+  // HTTP 429 RESOURCE_EXHAUSTED, which clients retry
+  RATE_LIMIT = 'RATE_LIMIT',
+  // HTTP 403 PERMISSION_DENIED, e.g. an account whose access was revoked
+  PERMISSION_DENIED = 'PERMISSION_DENIED',
+  // A mutate whose operations partly fail, with HTTP 200
+  PARTIAL_FAILURE = 'PARTIAL_FAILURE',
+}
+
+/**
+ * A failure injected into the next matching requests.
+ */
+export interface InjectedFailure {
+  kind: FailureKind;
+  // The customer ID of the failing requests, any if omitted
+  cid?: string;
+  // The method of the failing requests, any if omitted. Partial failures
+  // only apply to mutates.
+  method?: 'searchStream' | 'mutate';
+  // How many requests fail, all of them if omitted
+  times?: number;
+  // The indexes of the failing operations of a partial failure, the first one
+  // if omitted
+  operationIndexes?: number[];
+}
+
+/**
+ * A mutate request received by the server.
+ */
+export interface RecordedMutate {
+  cid: string;
+  operations: GoogleAds.MutateOperation[];
+  partialFailure: boolean;
+  validateOnly: boolean;
+  headers: {[name: string]: string};
+}
+
+// e.g. /v20/customers/1234567890/googleAds:searchStream
+const ROUTE = /^\/(v\d+)\/customers\/(\d+)\/googleAds:(searchStream|mutate)$/;
+
+/**
+ * A stand-in for the Google Ads REST API, for end-to-end tests. It serves
+ * recorded searchStream rows by customer ID and GAQL resource, records the
+ * mutate requests, and fails requests on demand, with the response bodies of
+ * the real API.
+ *
+ * Requests are either handled in-process, through transport(), or over HTTP
+ * once listen() is called. Queries are not evaluated: a search returns all
+ * the rows of the fixture of its resource.
+ */
+export class FakeGoogleAdsServer {
+  // The requests received, in order
+  readonly requests: HttpRequest[] = [];
+  readonly mutates: RecordedMutate[] = [];
+  // The waits requested through transport(), e.g. between retries
+  readonly sleeps: number[] = [];
+  // Rows of a searchStream response chunk, to exercise the merge of chunks
+  streamBatchSize = 10000;
+
+  private fixtures: {[cid: string]: {[resource: string]: unknown[]}} = {};
+  private failures: InjectedFailure[] = [];
+  private requestCount = 0;
+  private server?: http.Server;
+
+  /**
+   * @param fixturesDir The directory of the fixtures to serve, if any.
+   */
+  constructor(fixturesDir?: string) {
+    if (fixturesDir) {
+      this.loadFixtures(fixturesDir);
+    }
+  }
+
+  /**
+   * Loads the fixtures of a directory, one directory per customer ID.
+   * @param dir The directory.
+   */
+  loadFixtures(dir: string): void {
+    for (const cid of fs.readdirSync(dir)) {
+      for (const file of fs.readdirSync(path.join(dir, cid))) {
+        if (file.endsWith('.json')) {
+          this.addFixture(
+            cid,
+            path.basename(file, '.json'),
+            JSON.parse(fs.readFileSync(path.join(dir, cid, file), 'utf8'))
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Sets the rows returned by the searches of a resource for a customer ID.
+   * @param cid The customer ID.
+   * @param resource The GAQL resource, e.g. campaign.
+   * @param rows The rows, as returned by the REST API.
+   */
+  addFixture(cid: string, resource: string, rows: unknown[]): void {
+    this.fixtures[cid] = this.fixtures[cid] ?? {};
+    this.fixtures[cid][resource] = rows;
+  }
+
+  /**
+   * Fails the next matching requests.
+   * @param failure The failure.
+   */
+  injectFailure(failure: InjectedFailure): void {
+    this.failures.push({...failure});
+  }
+
+  /**
+   * Returns an HTTP transport sending its requests to this server without a
+   * network, which records its waits instead of sleeping.
+   */
+  transport(): HttpTransport {
+    return {
+      fetchAll: requests => requests.map(r => this.handle(r)),
+      sleep: ms => {
+        this.sleeps.push(ms);
+      },
+    };
+  }
+
+  /**
+   * Handles a request to the API.
+   * @param request The request.
+   * @return The response.
+   */
+  handle(request: HttpRequest): HttpResponse {
+    this.requests.push(request);
+    const requestId = `fake-${++this.requestCount}`;
+    const route = ROUTE.exec(request.url.replace(/^https?:\/\/[^/]+/, ''));
+    if (!route || request.method !== 'post') {
+      return errorResponse(404, 'NOT_FOUND', 'Not found.', [], requestId);
+    }
+    const [, , cid, method] = route;
+    const headers = request.headers ?? {};
+    if (!/^Bearer \S+/.test(headers['Authorization'] ?? '')) {
+      return errorResponse(
+        401,
+        'UNAUTHENTICATED',
+        'Request is missing required authentication credential.',
+        [{authenticationError: 'NOT_ADS_USER'}],
+        requestId
+      );
+    }
+    if (!headers['developer-token']) {
+      return errorResponse(
+        401,
+        'UNAUTHENTICATED',
+        'The developer token is missing.',
+        [{authenticationError: 'DEVELOPER_TOKEN_PROHIBITED'}],
+        requestId
+      );
+    }
+
+    let body: {[key: string]: unknown};
+    try {
+      body = JSON.parse(request.payload ?? '');
+    } catch (e) {
+      return errorResponse(
+        400,
+        'INVALID_ARGUMENT',
+        'Invalid JSON payload received.',
+        [],
+        requestId
+      );
+    }
+
+    const failure = this.takeFailure(cid, method);
+    const stream = method === 'searchStream';
+    if (failure?.kind === FailureKind.RATE_LIMIT) {
+      return errorResponse(
+        429,
+        'RESOURCE_EXHAUSTED',
+        'Resource has been exhausted (e.g. check quota).',
+        [{quotaError: 'RESOURCE_EXHAUSTED'}],
+        requestId,
+        stream
+      );
+    }
+    if (failure?.kind === FailureKind.PERMISSION_DENIED) {
+      return errorResponse(
+        403,
+        'PERMISSION_DENIED',
+        'The caller does not have permission',
+        [{authorizationError: 'USER_PERMISSION_DENIED'}],
+        requestId,
+        stream
+      );
+    }
+    return stream
+      ? this.searchStream(cid, String(body.query ?? ''), requestId)
+      : this.mutate(cid, body, headers, requestId, failure);
+  }
+
+  /**
+   * Serves the handled requests over HTTP, on localhost.
+   * @param port The port, any free one if 0.
+   * @return The base URL of the API, e.g. http://localhost:1234.
+   */
+  listen(port = 0): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      let payload = '';
+      req.setEncoding('utf8');
+      req.on('data', chunk => (payload += chunk));
+      req.on('end', () => {
+        const headers: {[name: string]: string} = {};
+        for (const [name, value] of Object.entries(req.headers)) {
+          // The API headers are matched case-sensitively, as they are sent
+          const key = name === 'authorization' ? 'Authorization' : name;
+          headers[key] = String(value);
+        }
+        const response = this.handle({
+          url: `http://localhost${req.url}`,
+          method: req.method === 'POST' ? 'post' : 'get',
+          contentType: req.headers['content-type'],
+          headers,
+          payload,
+        });
+        res.writeHead(response.status, {
+          'content-type': 'application/json',
+          ...response.headers,
+        });
+        res.end(response.body);
+      });
+    });
+    return new Promise(resolve => {
+      this.server!.listen(port, 'localhost', () => {
+        const address = this.server!.address() as {port: number};
+        resolve(`http://localhost:${address.port}`);
+      });
+    });
+  }
+
+  /**
+   * Stops serving over HTTP.
+   */
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close(e => (e ? reject(e) : resolve()));
+    });
+  }
+
+  /**
+   * Returns the first failure matching a request, and counts it as used.
+   */
+  private takeFailure(
+    cid: string,
+    method: string
+  ): InjectedFailure | undefined {
+    const index = this.failures.findIndex(
+      f =>
+        (f.cid === undefined || f.cid === cid) &&
+        (f.method === undefined || f.method === method) &&
+        (f.kind !== FailureKind.PARTIAL_FAILURE || method === 'mutate')
+    );
+    if (index < 0) {
+      return undefined;
+    }
+    const failure = this.failures[index];
+    if (failure.times !== undefined && --failure.times <= 0) {
+      this.failures.splice(index, 1);
+    }
+    return failure;
+  }
+
+  private searchStream(
+    cid: string,
+    query: string,
+    requestId: string
+  ): HttpResponse {
+    const resource = /\bFROM\s+(\w+)/i.exec(query)?.[1];
+    if (!resource) {
+      return errorResponse(
+        400,
+        'INVALID_ARGUMENT',
+        'Request contains an invalid argument.',
+        [{queryError: 'EXPECTED_FROM'}],
+        requestId,
+        true
+      );
+    }
+    const fieldMask = (/\bSELECT\s+([\s\S]+?)\s+FROM\b/i.exec(query)?.[1] ?? '')
+      .split(',')
+      .map(f => f.trim().replace(/_(\w)/g, (_m, c: string) => c.toUpperCase()))
+      .join(',');
+    const rows = this.fixtures[cid]?.[resource] ?? [];
+
+    // The stream is a JSON array of chunks, and chunks without rows have no
+    // results field
+    const chunks: Array<{[key: string]: unknown}> = [];
+    for (let i = 0; i < rows.length; i += this.streamBatchSize) {
+      chunks.push({
+        results: rows.slice(i, i + this.streamBatchSize),
+        fieldMask,
+        requestId,
+      });
+    }
+    if (chunks.length === 0) {
+      chunks.push({fieldMask, requestId});
+    }
+    return jsonResponse(200, chunks, requestId);
+  }
+
+  private mutate(
+    cid: string,
+    body: {[key: string]: unknown},
+    headers: {[name: string]: string},
+    requestId: string,
+    failure?: InjectedFailure
+  ): HttpResponse {
+    const operations = (body.mutateOperations ??
+      []) as GoogleAds.MutateOperation[];
+    const partialFailure = body.partialFailure === true;
+    const validateOnly = body.validateOnly === true;
+    this.mutates.push({cid, operations, partialFailure, validateOnly, headers});
+
+    const failing = failure ? failure.operationIndexes ?? [0] : [];
+    const errors = failing.map(index => ({
+      errorCode: {biddingError: 'INVALID_TARGET'},
+      message: 'The target is not valid.',
+      location: {
+        fieldPathElements: [{fieldName: 'mutate_operations', index}],
+      },
+    }));
+    if (errors.length > 0 && !partialFailure) {
+      // Without partial failure, a failing operation fails the whole request
+      return errorResponse(
+        400,
+        'INVALID_ARGUMENT',
+        'Request contains an invalid argument.',
+        errors.map(e => e.errorCode),
+        requestId
+      );
+    }
+    if (validateOnly) {
+      return jsonResponse(200, {}, requestId);
+    }
+
+    const response: {[key: string]: unknown} = {
+      mutateOperationResponses: operations.map((operation, index) => {
+        if (failing.includes(index)) {
+          return {};
+        }
+        // e.g. campaignOperation.update -> campaignResult
+        const [name, value] = Object.entries(operation)[0];
+        return {
+          [name.replace(/Operation$/, 'Result')]: {
+            resourceName: (value as {update: {resourceName: string}}).update
+              .resourceName,
+          },
+        };
+      }),
+    };
+    if (errors.length > 0) {
+      response.partialFailureError = {
+        code: 3,
+        message: `Multiple errors in 'details'. First error: ${errors[0].message}`,
+        details: [
+          {
+            '@type':
+              'type.googleapis.com/google.ads.googleads.v20.errors.GoogleAdsFailure',
+            errors,
+            requestId,
+          },
+        ],
+      };
+    }
+    return jsonResponse(200, response, requestId);
+  }
+}
+
+function jsonResponse(
+  status: number,
+  body: unknown,
+  requestId: string
+): HttpResponse {
+  return {
+    status,
+    body: JSON.stringify(body),
+    headers: {'request-id': requestId},
+  };
+}
+
+/**
+ * Returns an error response in the format of the API.
+ * @param status The HTTP status.
+ * @param grpcStatus The gRPC status, e.g. PERMISSION_DENIED.
+ * @param message The message.
+ * @param errorCodes The Google Ads error codes, e.g.
+ *     {quotaError: 'RESOURCE_EXHAUSTED'}.
+ * @param requestId The request ID.
+ * @param stream Whether to wrap the error in an array, as searchStream does.
+ */
+function errorResponse(
+  status: number,
+  grpcStatus: string,
+  message: string,
+  errorCodes: Array<{[category: string]: string}>,
+  requestId: string,
+  stream = false
+): HttpResponse {
+  const error = {
+    error: {
+      code: status,
+      message,
+      status: grpcStatus,
+      details: [
+        {
+          '@type':
+            'type.googleapis.com/google.ads.googleads.v20.errors.GoogleAdsFailure',
+          errors: errorCodes.map(errorCode => ({errorCode, message})),
+          requestId,
+        },
+      ],
+    },
+  };
+  return jsonResponse(status, stream ? [error] : error, requestId);
+}
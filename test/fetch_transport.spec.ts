@@ -0,0 +1,106 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {ChildProcess, spawn} from 'child_process';
+
+import {FetchTransport} from '../src/node/fetch_transport';
+
+// Echoes the requests. Run in another process, as the transport blocks the
+// thread of the test while it waits for the responses.
+const SERVER_SCRIPT = `
+const server = require('http').createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => (body += chunk));
+  req.on('end', () => {
+    res.setHeader('request-id', 'abc');
+    res.writeHead(req.url === '/missing' ? 404 : 200);
+    res.end(JSON.stringify({
+      method: req.method,
+      url: req.url,
+      contentType: req.headers['content-type'],
+      body,
+    }));
+  });
+});
+server.listen(0, () => console.log(server.address().port));
+`;
+
+describe('FetchTransport', () => {
+  let server: ChildProcess;
+  let endpoint: string;
+  let transport: FetchTransport;
+
+  beforeAll(async () => {
+    server = spawn(process.execPath, ['-e', SERVER_SCRIPT]);
+    const port = await new Promise<string>(resolve =>
+      server.stdout!.once('data', data => resolve(String(data).trim()))
+    );
+    endpoint = `http://localhost:${port}`;
+  });
+
+  afterAll(() => {
+    server.kill();
+  });
+
+  beforeEach(() => {
+    transport = new FetchTransport(10000);
+  });
+
+  afterEach(() => {
+    transport.close();
+  });
+
+  it('should send the requests and return their responses in order', () => {
+    // Act
+    const responses = transport.fetchAll([
+      {
+        url: `${endpoint}/search`,
+        method: 'post',
+        contentType: 'application/json',
+        payload: '{"query":"q"}',
+      },
+      {url: `${endpoint}/missing`, method: 'get'},
+    ]);
+
+    // Assert
+    expect(responses.map(r => r.status)).toEqual([200, 404]);
+    expect(JSON.parse(responses[0].body)).toEqual({
+      method: 'POST',
+      url: '/search',
+      contentType: 'application/json',
+      body: '{"query":"q"}',
+    });
+    expect(responses[1].headers!['request-id']).toBe('abc');
+  });
+
+  it('should reuse its thread for the next requests', () => {
+    // Act
+    transport.fetchAll([{url: `${endpoint}/1`, method: 'get'}]);
+    const [response] = transport.fetchAll([
+      {url: `${endpoint}/2`, method: 'get'},
+    ]);
+
+    // Assert
+    expect(JSON.parse(response.body).url).toBe('/2');
+  });
+
+  it('should fail the requests that get no response', () => {
+    // Act & Assert
+    expect(() =>
+      transport.fetchAll([{url: 'http://127.0.0.1:65534/x', method: 'get'}])
+    ).toThrow('ECONNREFUSED');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {GaqlRow, select} from '../src/gaql';
+
+describe('GAQL query builder', () => {
+  const campaigns = select('campaign.name', 'metrics.clicks').from('campaign');
+
+  it('should select the fields of a resource', () => {
+    // Act & Assert
+    expect(String(campaigns)).toBe(
+      'SELECT campaign.name, metrics.clicks FROM campaign'
+    );
+  });
+
+  it('should join the conditions and quote their values', () => {
+    // Act
+    const query = campaigns
+      .where('campaign.status', '!=', 'REMOVED')
+      .where('campaign.name', 'LIKE', "Brand's %")
+      .where('metrics.clicks', '>', 10)
+      .where('campaign.advertising_channel_type', 'IN', ['SEARCH', 'SHOPPING'])
+      .where('campaign.bidding_strategy', 'IS NULL')
+      .where('campaign.serving_status', 'NOT IN', ['ENDED'])
+      .where('campaign.experiment_type', '!=', 'BASE')
+      .where('campaign.url_expansion_opt_out', '=', false);
+
+    // Assert
+    expect(query.toString()).toBe(
+      'SELECT campaign.name, metrics.clicks FROM campaign ' +
+        "WHERE campaign.status != 'REMOVED' " +
+        "AND campaign.name LIKE 'Brand\\'s %' " +
+        'AND metrics.clicks > 10 ' +
+        "AND campaign.advertising_channel_type IN ('SEARCH', 'SHOPPING') " +
+        'AND campaign.bidding_strategy IS NULL ' +
+        "AND campaign.serving_status NOT IN ('ENDED') " +
+        "AND campaign.experiment_type != 'BASE' " +
+        'AND campaign.url_expansion_opt_out = FALSE'
+    );
+  });
+
+  it('should restrict the dates, order and limit the rows', () => {
+    // Act
+    const query = campaigns
+      .during('LAST_30_DAYS')
+      .between('2025-01-01', '2025-01-31', 'segments.week')
+      .orderBy('metrics.clicks', 'DESC')
+      .orderBy('campaign.name')
+      .limit(10);
+
+    // Assert
+    expect(query.toString()).toBe(
+      'SELECT campaign.name, metrics.clicks FROM campaign ' +
+        'WHERE segments.date DURING LAST_30_DAYS ' +
+        "AND segments.week BETWEEN '2025-01-01' AND '2025-01-31' " +
+        'ORDER BY metrics.clicks DESC, campaign.name ASC LIMIT 10'
+    );
+  });
+
+  it('should leave the query it is built from as it is', () => {
+    // Act
+    campaigns.where('campaign.status', '=', 'ENABLED').limit(1);
+
+    // Assert
+    expect(String(campaigns)).toBe(
+      'SELECT campaign.name, metrics.clicks FROM campaign'
+    );
+  });
+
+  it('should type the rows from the selected fields', () => {
+    // Arrange
+    const row: GaqlRow<
+      'campaign.target_cpa.target_cpa_micros' | 'metrics.clicks'
+    > = {
+      campaign: {targetCpa: {targetCpaMicros: 1000000}},
+      metrics: {clicks: 3},
+    };
+
+    // Act & Assert
+    expect(row.campaign.targetCpa.targetCpaMicros).toBe(1000000);
+    expect(campaigns.row).toBeUndefined();
+  });
+
+  it('should reject invalid fields, resources and values', () => {
+    // Act & Assert
+    expect(() => select()).toThrow('A query must select at least one field');
+    expect(() => select('campaign.name; DROP')).toThrow(
+      'Invalid GAQL field: campaign.name; DROP'
+    );
+    expect(() => select('campaign.name').from('campaign WHERE')).toThrow(
+      'Invalid GAQL resource: campaign WHERE'
+    );
+    expect(() => campaigns.where('campaign.status', 'IN', [])).toThrow(
+      'IN on campaign.status needs a list of values'
+    );
+    expect(() => campaigns.where('metrics.clicks', '>', NaN)).toThrow(
+      'NaN cannot be used in a query'
+    );
+    expect(() => campaigns.during("LAST_30_DAYS'")).toThrow(
+      '"LAST_30_DAYS\'" is not a predefined date range'
+    );
+    expect(() => campaigns.between('2025-01-01', '31/01/2025')).toThrow(
+      '"31/01/2025" is not a YYYY-MM-DD date'
+    );
+    expect(() => campaigns.limit(0)).toThrow(
+      'The limit must be a positive integer, got 0'
+    );
+  });
+});
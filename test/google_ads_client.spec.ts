@@ -22,15 +22,21 @@ import {
   CampaignResponse,
   CampaignSimulationResponse,
   GoogleAdsClient,
+  MutateStatus,
   StrategyType,
 } from '../src/google_ads_client';
+import {GoogleAdsTransport} from '../src/google_ads_transport';
+import {QueryCache} from '../src/query_cache';
 
 describe('GoogleAdsClient', () => {
   let googleAdsClient: GoogleAdsClient;
 
   beforeEach(() => {
     // Initialize a new client for each test to ensure isolation
-    googleAdsClient = new GoogleAdsClient('dev-token', 'mcc-id', ['cid']);
+    googleAdsClient = new GoogleAdsClient(
+      {search: jest.fn(), mutate: jest.fn()},
+      ['cid']
+    );
   });
 
   describe('getEntityTarget', () => {
@@ -149,6 +155,98 @@ describe('GoogleAdsClient', () => {
     });
   });
 
+  describe('searchStream', () => {
+    let transport: jest.Mocked<GoogleAdsTransport>;
+
+    beforeEach(() => {
+      transport = {search: jest.fn(), mutate: jest.fn()};
+    });
+
+    it('should skip the failing CIDs and report every CID', () => {
+      // Arrange
+      googleAdsClient = new GoogleAdsClient(transport, ['1', '2', '3']);
+      transport.search.mockReturnValue([
+        {cid: '1', results: ['a'], durationMs: 10},
+        {
+          cid: '2',
+          results: [],
+          durationMs: 10,
+          error: 'API error: The caller does not have permission',
+        },
+        {cid: '3', results: ['c1', 'c2'], durationMs: 20},
+      ]);
+
+      // Act
+      const results = googleAdsClient.searchStream('q');
+
+      // Assert
+      expect(transport.search).toHaveBeenCalledWith(['1', '2', '3'], 'q');
+      expect(results).toEqual(['a', 'c1', 'c2']);
+      expect(googleAdsClient.getFailures()).toEqual({
+        '2': 'API error: The caller does not have permission',
+      });
+      const reports = googleAdsClient.getAccountReports();
+      expect(reports['1']).toEqual({rows: 1, durationMs: 10});
+      expect(reports['3']).toEqual({rows: 2, durationMs: 20});
+      expect(googleAdsClient.hasFailed('2')).toBe(true);
+      expect(googleAdsClient.hasFailed('3')).toBe(false);
+    });
+
+    it('should fetch cached queries once for the clients sharing a cache', () => {
+      // Arrange
+      googleAdsClient = new GoogleAdsClient(
+        transport,
+        ['1', '2'],
+        new QueryCache()
+      );
+      transport.search.mockImplementation(cids =>
+        cids.map(cid => ({cid, results: [`row of ${cid}`], durationMs: 0}))
+      );
+      googleAdsClient.searchStream('q', true);
+
+      // Act
+      const otherClient = googleAdsClient.withCids(['2']);
+      const results = otherClient.searchStream('q', true);
+      otherClient.searchStream('q');
+
+      // Assert
+      expect(results).toEqual(['row of 2']);
+      // The query run without the cache is sent again
+      expect(transport.search.mock.calls).toEqual([
+        [['1', '2'], 'q'],
+        [['2'], 'q'],
+      ]);
+    });
+  });
+
+  describe('mutateTargets', () => {
+    it('should send the operations through the transport', () => {
+      // Arrange
+      (global as unknown as {Logger: object}).Logger = {log: jest.fn()};
+      const transport = {search: jest.fn(), mutate: jest.fn()};
+      transport.mutate.mockReturnValue([{status: MutateStatus.SUCCESS}]);
+      googleAdsClient = new GoogleAdsClient(transport, ['1']);
+      const operations: GoogleAds.MutateOperation[] = [
+        {
+          campaignOperation: {
+            updateMask: 'targetRoas.targetRoas',
+            update: {
+              resourceName: 'customers/1/campaigns/1',
+              targetRoas: {targetRoas: 5},
+            },
+          },
+        },
+      ];
+
+      // Act
+      const results = googleAdsClient.mutateTargets('1', operations, true);
+
+      // Assert
+      expect(transport.mutate).toHaveBeenCalledWith('1', operations, true);
+      expect(results).toEqual([{status: MutateStatus.SUCCESS}]);
+    });
+  });
+
   describe('fetchBiddingStrategySimulations', () => {
     it('should call searchStream with the correct query for bidding strategy simulations', () => {
       // Arrange
@@ -157,30 +255,28 @@ describe('GoogleAdsClient', () => {
         .spyOn(googleAdsClient, 'searchStream')
         .mockReturnValue(mockResponse);
 
-      const expectedQuery = `
-          SELECT
-            bidding_strategy.resource_name,
-            bidding_strategy_simulation.bidding_strategy_id,
-            bidding_strategy_simulation.type,
-            bidding_strategy.type,
-            bidding_strategy_simulation.start_date,
-            bidding_strategy_simulation.end_date,
-            bidding_strategy_simulation.target_roas_point_list.points,
-            bidding_strategy_simulation.target_cpa_point_list.points,
-            bidding_strategy.name,
-            bidding_strategy.target_roas.target_roas,
-            bidding_strategy.target_cpa.target_cpa_micros,
-            customer.descriptive_name
-          FROM bidding_strategy_simulation
-          WHERE bidding_strategy_simulation.type IN ('${StrategyType.TARGET_ROAS}', '${StrategyType.TARGET_CPA}')
-            AND bidding_strategy.type IN ('${StrategyType.TARGET_ROAS}', '${StrategyType.TARGET_CPA}')`;
+      const expectedQuery =
+        'SELECT bidding_strategy.resource_name, ' +
+        'bidding_strategy_simulation.bidding_strategy_id, ' +
+        'bidding_strategy_simulation.type, bidding_strategy.type, ' +
+        'bidding_strategy_simulation.start_date, ' +
+        'bidding_strategy_simulation.end_date, ' +
+        'bidding_strategy_simulation.target_roas_point_list.points, ' +
+        'bidding_strategy_simulation.target_cpa_point_list.points, ' +
+        'bidding_strategy.name, bidding_strategy.target_roas.target_roas, ' +
+        'bidding_strategy.target_cpa.target_cpa_micros, ' +
+        'customer.descriptive_name, customer.currency_code ' +
+        'FROM bidding_strategy_simulation ' +
+        "WHERE bidding_strategy_simulation.type IN ('TARGET_ROAS', 'TARGET_CPA') " +
+        "AND bidding_strategy.type IN ('TARGET_ROAS', 'TARGET_CPA')";
 
       // Act
       const result = googleAdsClient.fetchBiddingStrategySimulations();
 
       // Assert
       expect(searchStreamSpy).toHaveBeenCalledTimes(1);
-      expect(searchStreamSpy).toHaveBeenCalledWith(expectedQuery);
+      expect(String(searchStreamSpy.mock.calls[0][0])).toBe(expectedQuery);
+      expect(searchStreamSpy.mock.calls[0][1]).toBe(true);
       expect(result).toBe(mockResponse);
     });
   });
@@ -193,36 +289,31 @@ describe('GoogleAdsClient', () => {
         .spyOn(googleAdsClient, 'searchStream')
         .mockReturnValue(mockResponse);
 
-      const expectedQuery = `
-        SELECT
-          customer.descriptive_name,
-          campaign.resource_name,
-          campaign.name,
-          campaign_simulation.type,
-          campaign.bidding_strategy_type,
-          campaign.maximize_conversion_value.target_roas,
-          campaign.maximize_conversions.target_cpa_micros,
-          campaign.target_cpa.target_cpa_micros,
-          campaign.target_roas.target_roas,
-          campaign_simulation.campaign_id,
-          campaign_simulation.start_date,
-          campaign_simulation.end_date,
-          campaign_simulation.target_roas_point_list.points,
-          campaign_simulation.target_cpa_point_list.points
-        FROM campaign_simulation
-        WHERE campaign_simulation.type IN ('${StrategyType.TARGET_ROAS}', '${StrategyType.TARGET_CPA}')
-          AND campaign_simulation.modification_method != "SCALING"
-          AND campaign.bidding_strategy_type IN ('${StrategyType.MAXIMIZE_CONVERSION_VALUE}', '${StrategyType.MAXIMIZE_CONVERSIONS}',
-          '${StrategyType.TARGET_ROAS}', '${StrategyType.TARGET_CPA}')
-          AND campaign.bidding_strategy IS NULL
-      `;
+      const expectedQuery =
+        'SELECT customer.descriptive_name, customer.currency_code, ' +
+        'campaign.resource_name, campaign.name, campaign_simulation.type, ' +
+        'campaign.bidding_strategy_type, ' +
+        'campaign.maximize_conversion_value.target_roas, ' +
+        'campaign.maximize_conversions.target_cpa_micros, ' +
+        'campaign.target_cpa.target_cpa_micros, ' +
+        'campaign.target_roas.target_roas, campaign_simulation.campaign_id, ' +
+        'campaign_simulation.start_date, campaign_simulation.end_date, ' +
+        'campaign_simulation.target_roas_point_list.points, ' +
+        'campaign_simulation.target_cpa_point_list.points ' +
+        'FROM campaign_simulation ' +
+        "WHERE campaign_simulation.type IN ('TARGET_ROAS', 'TARGET_CPA') " +
+        "AND campaign_simulation.modification_method != 'SCALING' " +
+        'AND campaign.bidding_strategy_type IN ' +
+        "('MAXIMIZE_CONVERSION_VALUE', 'MAXIMIZE_CONVERSIONS', 'TARGET_ROAS', 'TARGET_CPA') " +
+        'AND campaign.bidding_strategy IS NULL';
 
       // Act
       const result = googleAdsClient.fetchCampaignSimulations();
 
       // Assert
       expect(searchStreamSpy).toHaveBeenCalledTimes(1);
-      expect(searchStreamSpy).toHaveBeenCalledWith(expectedQuery);
+      expect(String(searchStreamSpy.mock.calls[0][0])).toBe(expectedQuery);
+      expect(searchStreamSpy.mock.calls[0][1]).toBe(true);
       expect(result).toBe(mockResponse);
     });
   });
@@ -235,29 +326,24 @@ describe('GoogleAdsClient', () => {
         .spyOn(googleAdsClient, 'searchStream')
         .mockReturnValue(mockResponse);
 
-      const expectedQuery = `
-        SELECT
-          customer.descriptive_name,
-          ad_group.resource_name,
-          ad_group.name,
-          ad_group_simulation.type,
-          ad_group.effective_target_cpa_micros,
-          ad_group.effective_target_roas,
-          ad_group_simulation.ad_group_id,
-          ad_group_simulation.start_date,
-          ad_group_simulation.end_date,
-          ad_group_simulation.target_roas_point_list.points,
-          ad_group_simulation.target_cpa_point_list.points
-        FROM ad_group_simulation
-        WHERE ad_group_simulation.type IN ('${StrategyType.TARGET_ROAS}', '${StrategyType.TARGET_CPA}')
-      `;
+      const expectedQuery =
+        'SELECT customer.descriptive_name, customer.currency_code, ' +
+        'ad_group.resource_name, ad_group.name, ad_group_simulation.type, ' +
+        'ad_group.effective_target_cpa_micros, ad_group.effective_target_roas, ' +
+        'ad_group_simulation.ad_group_id, ad_group_simulation.start_date, ' +
+        'ad_group_simulation.end_date, ' +
+        'ad_group_simulation.target_roas_point_list.points, ' +
+        'ad_group_simulation.target_cpa_point_list.points ' +
+        'FROM ad_group_simulation ' +
+        "WHERE ad_group_simulation.type IN ('TARGET_ROAS', 'TARGET_CPA')";
 
       // Act
       const result = googleAdsClient.fetchAdGroupSimulations();
 
       // Assert
       expect(searchStreamSpy).toHaveBeenCalledTimes(1);
-      expect(searchStreamSpy).toHaveBeenCalledWith(expectedQuery);
+      expect(String(searchStreamSpy.mock.calls[0][0])).toBe(expectedQuery);
+      expect(searchStreamSpy.mock.calls[0][1]).toBe(true);
       expect(result).toBe(mockResponse);
     });
   });
@@ -0,0 +1,512 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {MutateStatus} from '../src/google_ads_client';
+import {GoogleAdsApiError} from '../src/google_ads_api_error';
+import {AdsAppTransport, ApiTransport} from '../src/google_ads_transport';
+import {DEFAULT_RETRY_CONFIG} from '../src/retry';
+
+describe('ApiTransport', () => {
+  let fetchAll: jest.Mock;
+  let sleep: jest.Mock;
+  let transport: ApiTransport;
+
+  /**
+   * Returns an HTTP response.
+   */
+  function response(status: number, body: unknown, headers = {}) {
+    return {
+      status,
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+      headers,
+    };
+  }
+
+  /**
+   * Returns a transport sending its requests to the fetchAll mock.
+   */
+  function apiTransport(retryConfig = DEFAULT_RETRY_CONFIG, concurrency = 10) {
+    return new ApiTransport(
+      'dev-token',
+      'mcc-id',
+      retryConfig,
+      concurrency,
+      'v20',
+      {fetchAll, sleep},
+      {getAccessToken: () => 'token'}
+    );
+  }
+
+  beforeEach(() => {
+    fetchAll = jest.fn();
+    sleep = jest.fn();
+    (global as unknown as {Logger: object}).Logger = {log: jest.fn()};
+    transport = apiTransport();
+  });
+
+  describe('mutate', () => {
+    const operations: GoogleAds.MutateOperation[] = [
+      {
+        campaignOperation: {
+          updateMask: 'targetRoas.targetRoas',
+          update: {
+            resourceName: 'customers/1/campaigns/1',
+            targetRoas: {targetRoas: 5},
+          },
+        },
+      },
+      {
+        campaignOperation: {
+          updateMask: 'targetRoas.targetRoas',
+          update: {
+            resourceName: 'customers/1/campaigns/2',
+            targetRoas: {targetRoas: 500},
+          },
+        },
+      },
+    ];
+
+    it('should send operations with partial failure and map errors to operations', () => {
+      // Arrange
+      const callApiSpy = jest.spyOn(transport, 'callApi').mockReturnValue({
+        mutateOperationResponses: [
+          {campaignResult: {resourceName: 'customers/1/campaigns/1'}},
+          {},
+        ],
+        partialFailureError: {
+          code: 3,
+          message: 'Multiple errors in details',
+          details: [
+            {
+              errors: [
+                {
+                  message: 'Too high.',
+                  location: {
+                    fieldPathElements: [
+                      {fieldName: 'mutate_operations', index: 1},
+                      {fieldName: 'campaign_operation'},
+                    ],
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      } as unknown as ReturnType<ApiTransport['callApi']>);
+
+      // Act
+      const results = transport.mutate('1', operations, false);
+
+      // Assert
+      expect(callApiSpy).toHaveBeenCalledWith(expect.any(String), {
+        mutateOperations: operations,
+        partialFailure: true,
+        validateOnly: false,
+      });
+      expect(results).toEqual([
+        {
+          status: MutateStatus.SUCCESS,
+          resourceName: 'customers/1/campaigns/1',
+        },
+        {status: MutateStatus.FAILED, error: 'Too high.'},
+      ]);
+    });
+
+    it('should report all operations as successful without partial failure', () => {
+      // Arrange
+      jest.spyOn(transport, 'callApi').mockReturnValue({results: []});
+
+      // Act
+      const results = transport.mutate('1', operations, true);
+
+      // Assert
+      expect(results).toEqual([
+        {status: MutateStatus.SUCCESS, resourceName: undefined},
+        {status: MutateStatus.SUCCESS, resourceName: undefined},
+      ]);
+    });
+  });
+
+  describe('callApi', () => {
+    const quotaError = {
+      error: {
+        code: 429,
+        message: 'Resource has been exhausted',
+        status: 'RESOURCE_EXHAUSTED',
+        details: [
+          {
+            errors: [
+              {
+                errorCode: {quotaError: 'RESOURCE_EXHAUSTED'},
+                message: 'Too many requests',
+              },
+            ],
+            requestId: 'req-1',
+          },
+        ],
+      },
+    };
+
+    it('should send the credentials of the transport', () => {
+      // Arrange
+      fetchAll.mockReturnValue([response(200, {results: []})]);
+
+      // Act
+      transport.callApi('https://x/mutate', {a: 1});
+
+      // Assert
+      expect(fetchAll).toHaveBeenCalledWith([
+        {
+          url: 'https://x/mutate',
+          method: 'post',
+          contentType: 'application/json',
+          headers: {
+            Authorization: 'Bearer token',
+            'developer-token': 'dev-token',
+            'login-customer-id': 'mcc-id',
+          },
+          payload: '{"a":1}',
+        },
+      ]);
+    });
+
+    it('should retry throttled requests with a growing backoff', () => {
+      // Arrange
+      fetchAll
+        .mockReturnValueOnce([response(429, quotaError)])
+        .mockReturnValueOnce([response(503, 'Service Unavailable')])
+        .mockReturnValueOnce([response(200, {results: [1]})]);
+
+      // Act
+      const result = transport.callApi('https://x/mutate', {});
+
+      // Assert
+      expect(result).toEqual({results: [1]});
+      expect(fetchAll).toHaveBeenCalledTimes(3);
+      expect(sleep).toHaveBeenCalledTimes(2);
+      const [[firstDelay], [secondDelay]] = sleep.mock.calls;
+      expect(firstDelay).toBeGreaterThanOrEqual(500);
+      expect(firstDelay).toBeLessThanOrEqual(1000);
+      expect(secondDelay).toBeGreaterThanOrEqual(1000);
+      expect(secondDelay).toBeLessThanOrEqual(2000);
+    });
+
+    it('should throw a typed error without retrying permanent failures', () => {
+      // Arrange
+      fetchAll.mockReturnValue([
+        response(400, [
+          {
+            error: {
+              code: 400,
+              message: 'Request contains an invalid argument.',
+              status: 'INVALID_ARGUMENT',
+              details: [
+                {
+                  errors: [
+                    {
+                      errorCode: {queryError: 'UNRECOGNIZED_FIELD'},
+                      message: 'Unrecognized field',
+                      location: {
+                        fieldPathElements: [
+                          {fieldName: 'operations', index: 0},
+                          {fieldName: 'update'},
+                        ],
+                      },
+                    },
+                  ],
+                  requestId: 'req-2',
+                },
+              ],
+            },
+          },
+        ]),
+      ]);
+
+      // Act
+      let error: GoogleAdsApiError | undefined;
+      try {
+        transport.callApi('https://x/googleAds:searchStream', {});
+      } catch (e) {
+        error = e as GoogleAdsApiError;
+      }
+
+      // Assert
+      expect(error).toBeInstanceOf(GoogleAdsApiError);
+      expect(error?.httpStatus).toBe(400);
+      expect(error?.errorCodes).toEqual(['queryError.UNRECOGNIZED_FIELD']);
+      expect(error?.requestId).toBe('req-2');
+      expect(error?.fieldPaths).toEqual(['operations[0].update']);
+      expect(error?.message).toBe(
+        'API error: Request contains an invalid argument. (queryError.UNRECOGNIZED_FIELD)'
+      );
+      expect(fetchAll).toHaveBeenCalledTimes(1);
+      expect(sleep).not.toHaveBeenCalled();
+    });
+
+    it('should retry the successful responses that cannot be read', () => {
+      // Arrange
+      fetchAll
+        .mockReturnValueOnce([response(200, '[{"results": [1')])
+        .mockReturnValueOnce([response(200, {results: [1]})]);
+
+      // Act
+      const result = transport.callApi('https://x/mutate', {});
+
+      // Assert
+      expect(result).toEqual({results: [1]});
+      expect(fetchAll).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw a typed error for the responses that cannot be read', () => {
+      // Arrange
+      transport = apiTransport({maxRetries: 0, budgetSeconds: 120});
+      fetchAll.mockReturnValue([
+        response(200, '<html>Sign in</html>', {'request-id': 'req-3'}),
+      ]);
+
+      // Act & Assert
+      let error: GoogleAdsApiError | undefined;
+      try {
+        transport.callApi('https://x/mutate', {});
+      } catch (e) {
+        error = e as GoogleAdsApiError;
+      }
+      expect(error).toBeInstanceOf(GoogleAdsApiError);
+      expect(error?.httpStatus).toBe(200);
+      expect(error?.requestId).toBe('req-3');
+      expect(error?.message).toBe(
+        'API error: Invalid response of https://x/mutate: HTTP 200: <html>Sign in</html>'
+      );
+    });
+
+    it('should give up once the retries are used up', () => {
+      // Arrange
+      transport = apiTransport({maxRetries: 2, budgetSeconds: 120});
+      fetchAll.mockReturnValue([response(502, '<html>Bad Gateway</html>')]);
+
+      // Act & Assert
+      expect(() => transport.callApi('https://x/mutate', {})).toThrow(
+        'API error: HTTP 502: <html>Bad Gateway</html>'
+      );
+      expect(fetchAll).toHaveBeenCalledTimes(3);
+    });
+
+    it('should fail all the requests without a response', () => {
+      // Arrange
+      transport = apiTransport({maxRetries: 0, budgetSeconds: 0});
+      fetchAll.mockImplementation(() => {
+        throw new Error('Timeout');
+      });
+
+      // Act & Assert
+      expect(() => transport.callApi('https://x/mutate', {})).toThrow(
+        'API error: Timeout'
+      );
+    });
+  });
+
+  describe('search', () => {
+    it('should fetch the CIDs in batches and report the failing ones', () => {
+      // Arrange
+      transport = apiTransport({maxRetries: 0, budgetSeconds: 0}, 2);
+      const denied = {
+        error: {
+          code: 403,
+          message: 'The caller does not have permission',
+          status: 'PERMISSION_DENIED',
+        },
+      };
+      fetchAll
+        .mockReturnValueOnce([
+          response(200, [{results: ['a']}]),
+          response(403, denied),
+        ])
+        .mockReturnValueOnce([response(200, [{results: ['c1', 'c2']}])]);
+
+      // Act
+      const results = transport.search(['1', '2', '3'], 'q');
+
+      // Assert
+      expect(fetchAll).toHaveBeenCalledTimes(2);
+      expect(
+        fetchAll.mock.calls[0][0].map((r: {url: string}) => r.url)
+      ).toEqual([
+        expect.stringContaining('/1/googleAds:searchStream'),
+        expect.stringContaining('/2/googleAds:searchStream'),
+      ]);
+      expect(results).toEqual([
+        {cid: '1', results: ['a'], durationMs: expect.any(Number)},
+        {
+          cid: '2',
+          results: [],
+          durationMs: expect.any(Number),
+          error: 'API error: The caller does not have permission',
+        },
+        {cid: '3', results: ['c1', 'c2'], durationMs: expect.any(Number)},
+      ]);
+    });
+
+    it('should retry and report the search responses that are not an array', () => {
+      // Arrange
+      transport = apiTransport({maxRetries: 1, budgetSeconds: 120});
+      fetchAll
+        .mockReturnValueOnce([response(200, {}), response(200, [null])])
+        .mockReturnValueOnce([response(200, {}), response(200, [])]);
+
+      // Act
+      const results = transport.search(['1', '2'], 'q');
+
+      // Assert
+      expect(fetchAll).toHaveBeenCalledTimes(2);
+      expect(results).toEqual([
+        {
+          cid: '1',
+          results: [],
+          durationMs: expect.any(Number),
+          error: expect.stringMatching(
+            /^API error: Invalid response of .*\/1\/googleAds:searchStream: HTTP 200: \{\}$/
+          ),
+        },
+        {cid: '2', results: [], durationMs: expect.any(Number)},
+      ]);
+    });
+
+    it('should call the API version of the transport', () => {
+      // Arrange
+      transport = new ApiTransport(
+        'dev-token',
+        '',
+        DEFAULT_RETRY_CONFIG,
+        10,
+        'v21',
+        {fetchAll, sleep},
+        {getAccessToken: () => 'token'},
+        'https://googleads.test'
+      );
+      fetchAll.mockReturnValue([response(200, [])]);
+
+      // Act
+      transport.search(['1'], 'q');
+
+      // Assert
+      expect(fetchAll.mock.calls[0][0][0].url).toBe(
+        'https://googleads.test/v21/customers/1/googleAds:searchStream'
+      );
+    });
+
+    it('should reject the unsupported API versions', () => {
+      // Act & Assert
+      expect(
+        () => new ApiTransport('dev-token', '', undefined, 10, 'v1')
+      ).toThrow('Unsupported Google Ads API version: v1.');
+    });
+  });
+});
+
+describe('AdsAppTransport', () => {
+  /**
+   * Returns a stub of an AdsApp iterator over the given items.
+   */
+  function iterator<T>(items: T[]) {
+    let i = 0;
+    return {hasNext: () => i < items.length, next: () => items[i++]};
+  }
+
+  afterEach(() => {
+    // Other tests run outside of the Google Ads Scripts environment
+    delete (global as {AdsApp?: unknown}).AdsApp;
+    delete (global as {AdsManagerApp?: unknown}).AdsManagerApp;
+  });
+
+  it('should report the accounts that fail or cannot be found', () => {
+    // Arrange
+    const accounts = ['111-111-1111', '222-222-2222'].map(id => ({
+      getCustomerId: () => id,
+    }));
+    let selected = '';
+    Object.assign(global, {
+      Logger: {log: jest.fn()},
+      AdsManagerApp: {
+        accounts: () => ({
+          withIds: () => ({get: () => iterator(accounts)}),
+        }),
+        select: (account: {getCustomerId: () => string}) =>
+          (selected = account.getCustomerId()),
+      },
+      AdsApp: {
+        search: () => {
+          if (selected === '222-222-2222') {
+            throw new Error('Account cancelled');
+          }
+          return iterator(['a', 'b']);
+        },
+      },
+    });
+
+    // Act
+    const results = new AdsAppTransport().search(
+      ['1111111111', '2222222222', '3333333333'],
+      'q'
+    );
+
+    // Assert
+    expect(results).toEqual([
+      {cid: '1111111111', results: ['a', 'b'], durationMs: expect.any(Number)},
+      {
+        cid: '2222222222',
+        results: [],
+        durationMs: expect.any(Number),
+        error: 'Account cancelled',
+      },
+      {
+        cid: '3333333333',
+        results: [],
+        durationMs: 0,
+        error: 'The account cannot be found under the manager account',
+      },
+    ]);
+  });
+
+  it('should query the API version of the transport', () => {
+    // Arrange
+    const search = jest.fn().mockReturnValue(iterator([]));
+    Object.assign(global, {
+      Logger: {log: jest.fn()},
+      AdsManagerApp: {
+        accounts: () => ({
+          withIds: () => ({
+            get: () => iterator([{getCustomerId: () => '111-111-1111'}]),
+          }),
+        }),
+        select: jest.fn(),
+      },
+      AdsApp: {search},
+    });
+
+    // Act
+    new AdsAppTransport('v21').search(['1111111111'], 'q');
+
+    // Assert
+    expect(search).toHaveBeenCalledWith('q', {apiVersion: 'v21'});
+  });
+
+  it('should not support validation without applying changes', () => {
+    // Act & Assert
+    expect(() => new AdsAppTransport().mutate('1234567890', [], true)).toThrow(
+      'Validation without applying changes is not supported'
+    );
+  });
+});
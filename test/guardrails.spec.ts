@@ -0,0 +1,68 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {DEFAULT_GUARDRAILS, Guardrails} from '../src/guardrails';
+import {StrategyType} from '../src/google_ads_client';
+
+describe('Guardrails', () => {
+  let guardrails: Guardrails;
+
+  beforeEach(() => {
+    guardrails = new Guardrails({
+      ...DEFAULT_GUARDRAILS,
+      [StrategyType.TARGET_CPA]: {
+        maxChangePercent: 20,
+        minTarget: 1,
+        maxTarget: 100,
+      },
+    });
+  });
+
+  it('should accept a change within all limits', () => {
+    expect(guardrails.check(StrategyType.TARGET_CPA, 50, 55)).toEqual([]);
+  });
+
+  it('should reject a change larger than the maximum step', () => {
+    expect(guardrails.check(StrategyType.TARGET_CPA, 50, 70)).toEqual([
+      'Change of 40.0% exceeds the maximum of 20%',
+    ]);
+  });
+
+  it('should reject a change in either direction', () => {
+    expect(guardrails.check(StrategyType.TARGET_CPA, 50, 30)).toEqual([
+      'Change of 40.0% exceeds the maximum of 20%',
+    ]);
+  });
+
+  it('should reject targets outside of the absolute bounds', () => {
+    expect(guardrails.check(StrategyType.TARGET_CPA, '', 0.5)).toEqual([
+      'New target 0.5 is below the minimum of 1',
+    ]);
+    expect(guardrails.check(StrategyType.TARGET_CPA, 100, 110)).toEqual([
+      'New target 110 is above the maximum of 100',
+    ]);
+  });
+
+  it('should skip the step check when the current target is unknown', () => {
+    expect(guardrails.check(StrategyType.TARGET_CPA, '', 90)).toEqual([]);
+  });
+
+  it('should apply the ROAS guardrails to maximize conversion value', () => {
+    expect(
+      guardrails.check(StrategyType.MAXIMIZE_CONVERSION_VALUE, 4, 40)
+    ).toEqual(['Change of 900.0% exceeds the maximum of 50%']);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {RefreshTokenAuth, UrlFetchTransport} from '../src/http_transport';
+
+describe('UrlFetchTransport', () => {
+  it('should send the requests with UrlFetchApp', () => {
+    // Arrange
+    const fetchAll = jest.fn().mockReturnValue([
+      {
+        getResponseCode: () => 404,
+        getContentText: () => 'Not found',
+        getHeaders: () => ({'request-id': 'req-1'}),
+      },
+    ]);
+    Object.assign(global, {UrlFetchApp: {fetchAll}});
+
+    // Act
+    const responses = new UrlFetchTransport().fetchAll([
+      {url: 'https://x', method: 'get'},
+    ]);
+
+    // Assert
+    expect(fetchAll).toHaveBeenCalledWith([
+      {url: 'https://x', method: 'get', headers: {}, muteHttpExceptions: true},
+    ]);
+    expect(responses).toEqual([
+      {status: 404, body: 'Not found', headers: {'request-id': 'req-1'}},
+    ]);
+  });
+});
+
+describe('RefreshTokenAuth', () => {
+  let fetchAll: jest.Mock;
+  let now: number;
+  let auth: RefreshTokenAuth;
+
+  beforeEach(() => {
+    fetchAll = jest.fn();
+    now = 0;
+    auth = new RefreshTokenAuth(
+      'client-id',
+      'client secret',
+      'refresh-token',
+      {fetchAll, sleep: jest.fn()},
+      () => now
+    );
+  });
+
+  it('should exchange the refresh token and renew the access token when it expires', () => {
+    // Arrange
+    fetchAll
+      .mockReturnValueOnce([
+        {status: 200, body: '{"access_token":"a1","expires_in":3600}'},
+      ])
+      .mockReturnValueOnce([
+        {status: 200, body: '{"access_token":"a2","expires_in":3600}'},
+      ]);
+
+    // Act
+    const first = auth.getAccessToken();
+    now = 30 * 60 * 1000;
+    const cached = auth.getAccessToken();
+    now = 60 * 60 * 1000;
+    const renewed = auth.getAccessToken();
+
+    // Assert
+    expect([first, cached, renewed]).toEqual(['a1', 'a1', 'a2']);
+    expect(fetchAll).toHaveBeenCalledTimes(2);
+    expect(fetchAll.mock.calls[0][0]).toEqual([
+      {
+        url: 'https://oauth2.googleapis.com/token',
+        method: 'post',
+        contentType: 'application/x-www-form-urlencoded',
+        payload:
+          'client_id=client-id&client_secret=client%20secret&' +
+          'refresh_token=refresh-token&grant_type=refresh_token',
+      },
+    ]);
+  });
+
+  it('should throw the error of a rejected refresh token', () => {
+    // Arrange
+    fetchAll.mockReturnValue([
+      {
+        status: 400,
+        body: '{"error":"invalid_grant","error_description":"Token has been expired or revoked."}',
+      },
+    ]);
+
+    // Act & Assert
+    expect(() => auth.getAccessToken()).toThrow(
+      'OAuth error: HTTP 400: Token has been expired or revoked.'
+    );
+  });
+});
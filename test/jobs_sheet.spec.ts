@@ -0,0 +1,195 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  ChunkType,
+  JobStatus,
+  JobsLabelsIndex,
+  JobsSheet,
+  RESUME_HANDLER,
+  ResumableJob,
+} from '../src/jobs_sheet';
+import {GoogleAdsClient} from '../src/google_ads_client';
+import {GoogleAdsTransport} from '../src/google_ads_transport';
+import {SpreadsheetService} from '../src/spreadsheet_service';
+import {TriggerService} from '../src/trigger_service';
+
+jest.mock('../src/spreadsheet_service');
+jest.mock('../src/google_ads_client');
+jest.mock('../src/trigger_service');
+
+describe('JobsSheet', () => {
+  let spreadsheetService: jest.Mocked<SpreadsheetService>;
+  let googleAdsClient: jest.Mocked<GoogleAdsClient>;
+  let triggerService: jest.Mocked<TriggerService>;
+  let job: jest.Mocked<ResumableJob>;
+
+  /**
+   * Returns a row of the Jobs sheet for the test job.
+   */
+  function jobRow(status: JobStatus, chunksDone: number, cids: string) {
+    const row: Array<string | number> = new Array(8).fill('');
+    row[JobsLabelsIndex.JOB] = 'Simulations';
+    row[JobsLabelsIndex.STATUS] = status;
+    row[JobsLabelsIndex.CHUNKS_DONE] = chunksDone;
+    row[JobsLabelsIndex.CUSTOMER_IDS] = cids;
+    return row;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    spreadsheetService = new SpreadsheetService(
+      ''
+    ) as jest.Mocked<SpreadsheetService>;
+    googleAdsClient = new GoogleAdsClient(
+      {} as GoogleAdsTransport,
+      []
+    ) as jest.Mocked<GoogleAdsClient>;
+    triggerService = new TriggerService() as jest.Mocked<TriggerService>;
+    job = {
+      jobName: 'Simulations',
+      start: jest.fn(),
+      loadChunk: jest.fn(),
+      complete: jest.fn(),
+    };
+
+    spreadsheetService.readRows.mockReturnValue([]);
+    googleAdsClient.getCids.mockReturnValue(['1', '2']);
+    googleAdsClient.withCids.mockImplementation(
+      cids => ({cids} as unknown as GoogleAdsClient)
+    );
+    triggerService.isAvailable.mockReturnValue(true);
+  });
+
+  it('should load every chunk and complete the job', () => {
+    // Arrange
+    const jobsSheet = new JobsSheet(
+      spreadsheetService,
+      Date.now(),
+      triggerService
+    );
+
+    // Act
+    const complete = jobsSheet.run(job, googleAdsClient);
+
+    // Assert
+    expect(complete).toBe(true);
+    expect(job.start).toHaveBeenCalled();
+    expect(job.loadChunk.mock.calls).toEqual([
+      [{cids: ['1']}, ChunkType.BIDDING_STRATEGY],
+      [{cids: ['1']}, ChunkType.CAMPAIGN],
+      [{cids: ['1']}, ChunkType.AD_GROUP],
+      [{cids: ['2']}, ChunkType.BIDDING_STRATEGY],
+      [{cids: ['2']}, ChunkType.CAMPAIGN],
+      [{cids: ['2']}, ChunkType.AD_GROUP],
+    ]);
+    expect(job.complete).toHaveBeenCalled();
+    const [, [row]] = spreadsheetService.appendRows.mock.calls[0];
+    expect(row[JobsLabelsIndex.STATUS]).toBe(JobStatus.IN_PROGRESS);
+    expect(row[JobsLabelsIndex.CUSTOMER_IDS]).toBe('1, 2');
+    expect(triggerService.createContinuation).not.toHaveBeenCalled();
+  });
+
+  it('should save a checkpoint and schedule a continuation when out of time', () => {
+    // Arrange
+    const jobsSheet = new JobsSheet(
+      spreadsheetService,
+      Date.now() - 5 * 60 * 1000,
+      triggerService
+    );
+
+    // Act
+    const complete = jobsSheet.run(job, googleAdsClient);
+
+    // Assert
+    expect(complete).toBe(false);
+    expect(job.loadChunk).not.toHaveBeenCalled();
+    expect(job.complete).not.toHaveBeenCalled();
+    expect(triggerService.createContinuation).toHaveBeenCalledWith(
+      RESUME_HANDLER,
+      expect.any(Number)
+    );
+  });
+
+  it('should resume the job from its checkpoint', () => {
+    // Arrange
+    spreadsheetService.readRows.mockReturnValue([
+      jobRow(JobStatus.IN_PROGRESS, 4, '1, 2'),
+    ]);
+    const jobsSheet = new JobsSheet(
+      spreadsheetService,
+      Date.now(),
+      triggerService
+    );
+
+    // Act
+    jobsSheet.resume([job], () => googleAdsClient);
+
+    // Assert
+    expect(triggerService.deleteTriggers).toHaveBeenCalledWith(RESUME_HANDLER);
+    expect(job.start).not.toHaveBeenCalled();
+    expect(job.loadChunk.mock.calls).toEqual([
+      [{cids: ['2']}, ChunkType.CAMPAIGN],
+      [{cids: ['2']}, ChunkType.AD_GROUP],
+    ]);
+    expect(job.complete).toHaveBeenCalled();
+    const lastCall = spreadsheetService.updateColumnsById.mock.calls.pop()!;
+    expect(lastCall[3]['Simulations']).toEqual(
+      expect.arrayContaining([JobStatus.COMPLETE, 6])
+    );
+  });
+
+  it('should not resume complete jobs', () => {
+    // Arrange
+    spreadsheetService.readRows.mockReturnValue([
+      jobRow(JobStatus.COMPLETE, 6, '1, 2'),
+    ]);
+    const jobsSheet = new JobsSheet(
+      spreadsheetService,
+      Date.now(),
+      triggerService
+    );
+
+    // Act
+    jobsSheet.resume([job], () => googleAdsClient);
+
+    // Assert
+    expect(job.loadChunk).not.toHaveBeenCalled();
+    expect(job.complete).not.toHaveBeenCalled();
+  });
+
+  it('should mark the job as failed when a chunk fails', () => {
+    // Arrange
+    job.loadChunk.mockImplementationOnce(() => {
+      throw new Error('Quota exceeded');
+    });
+    const jobsSheet = new JobsSheet(
+      spreadsheetService,
+      Date.now(),
+      triggerService
+    );
+
+    // Act & Assert
+    expect(() => jobsSheet.run(job, googleAdsClient)).toThrow('Quota exceeded');
+    expect(job.complete).not.toHaveBeenCalled();
+    const [, [row]] = spreadsheetService.appendRows.mock.calls[1];
+    expect(row[JobsLabelsIndex.STATUS]).toBe(JobStatus.FAILED);
+    expect(row[JobsLabelsIndex.CHUNKS_DONE]).toBe(0);
+    expect(row[JobsLabelsIndex.NOTE]).toBe(
+      'BIDDING_STRATEGY of 1: Quota exceeded'
+    );
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {GoogleAdsClient} from '../src/google_ads_client';
+import {GoogleAdsTransport} from '../src/google_ads_transport';
+import {MemoryStorage} from '../src/memory_storage';
+import {TargetsSheet} from '../src/targets_sheet';
+
+describe('MemoryStorage', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    storage.setTable('Targets', {
+      headers: ['Notes', 'ID', 'Target'],
+      rows: [
+        ['x', 'a', 1],
+        ['', 'b', 2],
+      ],
+    });
+  });
+
+  it('should keep the headers of an existing table and add the missing ones', () => {
+    // Act
+    storage.insertSheet('Targets', ['ID', 'Target', 'Status']);
+    storage.insertSheet('Jobs', ['Job']);
+
+    // Assert
+    expect(storage.getTable('Targets')).toEqual({
+      headers: ['Notes', 'ID', 'Target', 'Status'],
+      rows: [
+        ['x', 'a', 1, ''],
+        ['', 'b', 2, ''],
+      ],
+    });
+    expect(storage.getTable('Jobs')).toEqual({headers: ['Job'], rows: []});
+  });
+
+  it('should read and write the columns by header', () => {
+    // Act
+    storage.appendRows('Targets', [[3, 'c']], ['Target', 'ID']);
+    storage.updateColumnsById('Targets', 'ID', ['Notes'], {b: ['y']});
+    const deleted = storage.deleteRows('Targets', ['ID'], ([id]) => id === 'a');
+
+    // Assert
+    expect(deleted).toBe(1);
+    expect(storage.readRows('Targets', ['ID', 'Notes', 'Target'])).toEqual([
+      ['b', 'y', 2],
+      ['c', '', 3],
+    ]);
+    expect(() => storage.readRows('Targets', ['Status'])).toThrow(
+      'The Targets sheet is missing the columns: Status.'
+    );
+    expect(() => storage.readRows('Jobs', ['Job'])).toThrow(
+      'Sheet Jobs cannot be found.'
+    );
+  });
+
+  it('should leave the columns without values unchanged', () => {
+    // Act
+    storage.updateColumnsById('Targets', 'ID', ['Notes', 'Target'], {
+      a: ['y'],
+      b: [undefined as unknown as string, 3],
+    });
+
+    // Assert
+    expect(storage.readRows('Targets', ['ID', 'Notes', 'Target'])).toEqual([
+      ['a', 'y', 1],
+      ['b', '', 3],
+    ]);
+  });
+
+  it('should merge fresh rows by ID, keeping the other columns', () => {
+    // Act
+    storage.mergeRows(
+      'Targets',
+      ['ID', 'Target', 'Status'],
+      [['b', 20, '']],
+      0,
+      {userColumns: [], staleColumn: 2, staleValue: 'STALE'}
+    );
+
+    // Assert
+    expect(storage.getTable('Targets')).toEqual({
+      headers: ['Notes', 'ID', 'Target', 'Status'],
+      rows: [
+        ['x', 'a', 1, 'STALE'],
+        ['', 'b', 20, ''],
+      ],
+    });
+  });
+
+  it('should run the load of the Targets sheet without a spreadsheet', () => {
+    // Arrange
+    const transport: jest.Mocked<GoogleAdsTransport> = {
+      search: jest.fn(),
+      mutate: jest.fn(),
+    };
+    transport.search.mockImplementation(cids =>
+      cids.map(cid => ({
+        cid,
+        results: [],
+        durationMs: 0,
+        error: cid === '2' ? 'API error: Permission denied' : undefined,
+      }))
+    );
+    (global as unknown as {Logger: object}).Logger = {log: jest.fn()};
+    const targetsSheet = new TargetsSheet(storage);
+    storage.clearSheet('Targets');
+    targetsSheet.initializeSheet();
+    const headers = storage.getTable('Targets').headers;
+    const row = (id: string) =>
+      headers.map(h =>
+        h === 'ID' ? id : h === 'New target' ? 5 : h === 'Notes' ? 'keep' : ''
+      );
+    storage.appendRows('Targets', [
+      row('customers/1/campaigns/2'),
+      row('customers/2/campaigns/3'),
+    ]);
+
+    // Act
+    targetsSheet.load(new GoogleAdsClient(transport, ['1', '2']));
+
+    // Assert
+    const rows = storage.readRows('Targets', [
+      'ID',
+      'New target',
+      'Sync status',
+      'Notes',
+    ]);
+    expect(rows).toEqual([
+      // The entity was not found anymore
+      ['customers/1/campaigns/2', 5, TargetsSheet.STALE, 'keep'],
+      // The account could not be loaded
+      ['customers/2/campaigns/3', 5, '', 'keep'],
+    ]);
+    // The column added by users stays first
+    expect(storage.getTable('Targets').headers[0]).toBe('Notes');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {QueryCache} from '../src/query_cache';
+
+describe('QueryCache', () => {
+  let store: Map<string, string>;
+  let putAll: jest.Mock;
+
+  beforeEach(() => {
+    store = new Map();
+    putAll = jest.fn((values: {[key: string]: string}) => {
+      for (const [key, value] of Object.entries(values)) {
+        store.set(key, value);
+      }
+    });
+    Object.assign(global, {
+      Logger: {log: jest.fn()},
+      CacheService: {
+        getUserCache: () => ({
+          get: (key: string) => store.get(key) ?? null,
+          getAll: (keys: string[]) =>
+            Object.fromEntries(
+              keys.filter(k => store.has(k)).map(k => [k, store.get(k)])
+            ),
+          putAll,
+        }),
+      },
+      Utilities: {
+        DigestAlgorithm: {SHA_256: 'SHA_256'},
+        computeDigest: (_algorithm: string, value: string) => value,
+        base64Encode: (digest: string) => digest,
+      },
+    });
+  });
+
+  it('should keep the results by customer ID and query', () => {
+    // Arrange
+    const queryCache = new QueryCache();
+
+    // Act
+    queryCache.put('1', 'q', ['a']);
+
+    // Assert
+    expect(queryCache.get('1', 'q')).toEqual(['a']);
+    expect(queryCache.get('2', 'q')).toBeUndefined();
+    expect(queryCache.get('1', 'other')).toBeUndefined();
+    expect(putAll).not.toHaveBeenCalled();
+  });
+
+  it('should share the results with the next executions, split in parts', () => {
+    // Arrange
+    const results = [{points: 'x'.repeat(120 * 1000)}];
+    new QueryCache(60).put('1', 'q', results);
+
+    // Act
+    const cached = new QueryCache(60).get('1', 'q');
+
+    // Assert
+    expect(cached).toEqual(results);
+    const [[values, ttlSeconds]] = putAll.mock.calls;
+    expect(Object.keys(values)).toHaveLength(4);
+    expect(ttlSeconds).toBe(3600);
+  });
+
+  it('should miss the results whose parts were evicted', () => {
+    // Arrange
+    new QueryCache(60).put('1', 'q', [{points: 'x'.repeat(120 * 1000)}]);
+    store.delete([...store.keys()][1]);
+
+    // Act & Assert
+    expect(new QueryCache(60).get('1', 'q')).toBeUndefined();
+  });
+});
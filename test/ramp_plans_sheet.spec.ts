@@ -0,0 +1,243 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  RampPlansLabelsIndex,
+  RampPlansSheet,
+  RampStatus,
+} from '../src/ramp_plans_sheet';
+import {MemoryStorage} from '../src/memory_storage';
+import {SpreadsheetService} from '../src/spreadsheet_service';
+import {TargetsSheet} from '../src/targets_sheet';
+import {
+  GoogleAdsClient,
+  MutateStatus,
+  StrategyType,
+} from '../src/google_ads_client';
+import {GoogleAdsTransport} from '../src/google_ads_transport';
+
+jest.mock('../src/spreadsheet_service');
+jest.mock('../src/targets_sheet');
+jest.mock('../src/google_ads_client');
+
+describe('RampPlansSheet', () => {
+  const now = new Date('2025-06-10T09:00:00');
+  const id = 'customers/1/campaigns/1';
+  let spreadsheetService: jest.Mocked<SpreadsheetService>;
+  let targetsSheet: jest.Mocked<TargetsSheet>;
+  let googleAdsClient: jest.Mocked<GoogleAdsClient>;
+  let rampPlansSheet: RampPlansSheet;
+
+  /**
+   * Returns a plan reaching a 5.0 tROAS in 4 steps, every 3 days.
+   */
+  function plan(values: {[column: number]: string | number | Date} = {}) {
+    const row: Array<string | number | Date> = [id, 5, 4, 3, '', '', 0, ''];
+    row[RampPlansLabelsIndex.LAST_STEP_TARGET] = '';
+    row[RampPlansLabelsIndex.NOTE] = '';
+    for (const [column, value] of Object.entries(values)) {
+      row[Number(column)] = value;
+    }
+    return row;
+  }
+
+  function getUpdates() {
+    return spreadsheetService.updateColumnsById.mock.calls[0][3];
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    spreadsheetService = new SpreadsheetService(
+      ''
+    ) as jest.Mocked<SpreadsheetService>;
+    targetsSheet = new TargetsSheet(
+      spreadsheetService
+    ) as jest.Mocked<TargetsSheet>;
+    googleAdsClient = new GoogleAdsClient(
+      {} as GoogleAdsTransport,
+      []
+    ) as jest.Mocked<GoogleAdsClient>;
+    rampPlansSheet = new RampPlansSheet(spreadsheetService);
+
+    targetsSheet.getEntities.mockReturnValue({
+      [id]: {
+        strategyType: StrategyType.TARGET_ROAS,
+        currentTarget: 4,
+        stale: false,
+        targetGapPercent: 5,
+      },
+    });
+    targetsSheet.applyRampSteps.mockReturnValue({
+      [id]: {status: MutateStatus.SUCCESS},
+    });
+  });
+
+  it('should start new plans with their first step', () => {
+    // Arrange
+    spreadsheetService.readRows.mockReturnValueOnce([plan()]);
+
+    // Act
+    rampPlansSheet.run(googleAdsClient, targetsSheet, now);
+
+    // Assert
+    expect(targetsSheet.load).toHaveBeenCalled();
+    expect(targetsSheet.applyRampSteps).toHaveBeenCalledWith(googleAdsClient, {
+      [id]: 4.25,
+    });
+    expect(getUpdates()).toEqual({
+      [id]: [RampStatus.ACTIVE, '', 1, now, 4.25],
+    });
+  });
+
+  it('should wait for the interval between steps', () => {
+    // Arrange
+    spreadsheetService.readRows.mockReturnValueOnce([
+      plan({
+        [RampPlansLabelsIndex.STATUS]: RampStatus.ACTIVE,
+        [RampPlansLabelsIndex.STEPS_DONE]: 1,
+        [RampPlansLabelsIndex.LAST_STEP_ON]: new Date('2025-06-08T09:00:00'),
+      }),
+    ]);
+
+    // Act
+    rampPlansSheet.run(googleAdsClient, targetsSheet, now);
+
+    // Assert
+    expect(targetsSheet.applyRampSteps).toHaveBeenCalledWith(
+      googleAdsClient,
+      {}
+    );
+    expect(getUpdates()).toEqual({[id]: [RampStatus.ACTIVE, '']});
+  });
+
+  it('should complete the plan with its last step', () => {
+    // Arrange
+    spreadsheetService.readRows.mockReturnValueOnce([
+      plan({
+        [RampPlansLabelsIndex.STEPS_DONE]: 3,
+        // A step can be due a bit early
+        [RampPlansLabelsIndex.LAST_STEP_ON]: new Date('2025-06-07T09:30:00'),
+      }),
+    ]);
+
+    // Act
+    rampPlansSheet.run(googleAdsClient, targetsSheet, now);
+
+    // Assert
+    expect(targetsSheet.applyRampSteps).toHaveBeenCalledWith(googleAdsClient, {
+      [id]: 5,
+    });
+    expect(getUpdates()).toEqual({[id]: [RampStatus.DONE, '', 4, now, 5]});
+  });
+
+  it('should mark completed plans done, keeping their progress', () => {
+    // Arrange
+    const storage = new MemoryStorage();
+    rampPlansSheet = new RampPlansSheet(storage);
+    rampPlansSheet.initializeSheet();
+    storage.appendRows(RampPlansSheet.RAMP_PLANS_SHEET, [
+      [id, 5, 4, 3, '', '', 4, '2025-06-07', 5, 'Old note'],
+    ]);
+
+    // Act
+    rampPlansSheet.run(googleAdsClient, targetsSheet, now);
+
+    // Assert
+    expect(targetsSheet.applyRampSteps).toHaveBeenCalledWith(
+      googleAdsClient,
+      {}
+    );
+    expect(storage.getTable(RampPlansSheet.RAMP_PLANS_SHEET).rows).toEqual([
+      [id, 5, 4, 3, '', RampStatus.DONE, 4, '2025-06-07', 5, ''],
+    ]);
+  });
+
+  it('should pause invalid plans before checking whether they are done', () => {
+    // Arrange
+    spreadsheetService.readRows.mockReturnValueOnce([
+      plan({[RampPlansLabelsIndex.STEPS]: ''}),
+    ]);
+
+    // Act
+    rampPlansSheet.run(googleAdsClient, targetsSheet, now);
+
+    // Assert
+    expect(getUpdates()).toEqual({
+      [id]: [
+        RampStatus.PAUSED,
+        'The goal target must be positive, and the steps a positive integer',
+      ],
+    });
+  });
+
+  it('should pause plans out of their tolerance band', () => {
+    // Arrange
+    targetsSheet.getEntities.mockReturnValue({
+      [id]: {
+        strategyType: StrategyType.TARGET_ROAS,
+        currentTarget: 4,
+        stale: false,
+        targetGapPercent: -30,
+      },
+    });
+    spreadsheetService.readRows.mockReturnValueOnce([plan()]);
+
+    // Act
+    rampPlansSheet.run(googleAdsClient, targetsSheet, now);
+
+    // Assert
+    expect(targetsSheet.applyRampSteps).toHaveBeenCalledWith(
+      googleAdsClient,
+      {}
+    );
+    expect(getUpdates()).toEqual({
+      [id]: [
+        RampStatus.PAUSED,
+        'The actual ROAS/CPA is 30.0% below the target, beyond the 20% tolerance',
+      ],
+    });
+  });
+
+  it('should pause plans whose step is blocked', () => {
+    // Arrange
+    targetsSheet.applyRampSteps.mockReturnValue({
+      [id]: {status: MutateStatus.BLOCKED, error: 'Too big'},
+    });
+    spreadsheetService.readRows.mockReturnValueOnce([plan()]);
+
+    // Act
+    rampPlansSheet.run(googleAdsClient, targetsSheet, now);
+
+    // Assert
+    expect(getUpdates()).toEqual({
+      [id]: [RampStatus.PAUSED, 'BLOCKED: Too big'],
+    });
+  });
+
+  it('should not load the targets without active plans', () => {
+    // Arrange
+    spreadsheetService.readRows.mockReturnValueOnce([
+      plan({[RampPlansLabelsIndex.STATUS]: RampStatus.PAUSED}),
+    ]);
+
+    // Act
+    rampPlansSheet.run(googleAdsClient, targetsSheet, now);
+
+    // Assert
+    expect(targetsSheet.load).not.toHaveBeenCalled();
+    expect(spreadsheetService.updateColumnsById).not.toHaveBeenCalled();
+  });
+});
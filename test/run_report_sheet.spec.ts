@@ -0,0 +1,85 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  RunReportLabelsIndex,
+  RunReportSheet,
+  RunStatus,
+} from '../src/run_report_sheet';
+import {SpreadsheetService} from '../src/spreadsheet_service';
+
+jest.mock('../src/spreadsheet_service');
+
+describe('RunReportSheet', () => {
+  let spreadsheetService: jest.Mocked<SpreadsheetService>;
+  let runReportSheet: RunReportSheet;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    spreadsheetService = new SpreadsheetService(
+      ''
+    ) as jest.Mocked<SpreadsheetService>;
+    runReportSheet = new RunReportSheet(spreadsheetService);
+  });
+
+  it('should replace the rows of the reported accounts of the load', () => {
+    // Arrange
+    spreadsheetService.readRows.mockReturnValue([
+      ['Targets', '1', RunStatus.OK, 10, 1, '', 'yesterday'],
+      ['Targets', '3', RunStatus.OK, 5, 1, '', 'yesterday'],
+      ['Simulations', '1', RunStatus.OK, 20, 2, '', 'yesterday'],
+    ]);
+
+    // Act
+    runReportSheet.write('Targets', {
+      '1': {rows: 12, durationMs: 1234},
+      '2': {rows: 0, durationMs: 310, error: 'API error: Permission denied'},
+    });
+
+    // Assert
+    expect(spreadsheetService.clearSheet).toHaveBeenCalledWith(
+      RunReportSheet.RUN_REPORT_SHEET
+    );
+    const [, rows] = spreadsheetService.appendRows.mock.calls[0];
+    expect(
+      rows.map(r => [
+        r[RunReportLabelsIndex.LOAD],
+        r[RunReportLabelsIndex.CUSTOMER_ID],
+      ])
+    ).toEqual([
+      ['Targets', '3'],
+      ['Simulations', '1'],
+      ['Targets', '1'],
+      ['Targets', '2'],
+    ]);
+    expect(rows[2].slice(0, 6)).toEqual([
+      'Targets',
+      '1',
+      RunStatus.OK,
+      12,
+      1.2,
+      '',
+    ]);
+    expect(rows[3].slice(0, 6)).toEqual([
+      'Targets',
+      '2',
+      RunStatus.FAILED,
+      0,
+      0.3,
+      'API error: Permission denied',
+    ]);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  ScheduleStatus,
+  SchedulesLabelsIndex,
+  SchedulesSheet,
+} from '../src/schedules_sheet';
+import {SpreadsheetService} from '../src/spreadsheet_service';
+import {Frequency, TriggerService} from '../src/trigger_service';
+
+jest.mock('../src/spreadsheet_service');
+jest.mock('../src/trigger_service', () => ({
+  ...jest.requireActual('../src/trigger_service'),
+  TriggerService: jest.fn().mockImplementation(() => ({
+    getTriggers: jest.fn().mockReturnValue([]),
+    createTrigger: jest.fn(),
+    deleteTrigger: jest.fn(),
+  })),
+}));
+
+describe('SchedulesSheet', () => {
+  let spreadsheetService: jest.Mocked<SpreadsheetService>;
+  let triggerService: jest.Mocked<TriggerService>;
+  let schedulesSheet: SchedulesSheet;
+
+  function getWrittenRows() {
+    return spreadsheetService.appendRows.mock.calls[0][1];
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    spreadsheetService = new SpreadsheetService(
+      ''
+    ) as jest.Mocked<SpreadsheetService>;
+    triggerService = new TriggerService() as jest.Mocked<TriggerService>;
+    schedulesSheet = new SchedulesSheet(spreadsheetService, triggerService);
+  });
+
+  describe('initializeSheet', () => {
+    it('should keep the trigger IDs as text', () => {
+      // Act
+      schedulesSheet.initializeSheet();
+
+      // Assert
+      expect(spreadsheetService.setColumnFormat).toHaveBeenCalledWith(
+        SchedulesSheet.SCHEDULES_SHEET,
+        'Trigger ID',
+        '@'
+      );
+    });
+  });
+
+  describe('install', () => {
+    it('should replace the triggers of the schedulable functions', () => {
+      // Arrange
+      triggerService.getTriggers.mockReturnValue([
+        {id: 'old', handler: 'loadTargets'},
+        {id: 'other', handler: 'someOtherFunction'},
+      ]);
+      triggerService.createTrigger
+        .mockReturnValueOnce('t1')
+        .mockReturnValueOnce('t2');
+      spreadsheetService.readRows.mockReturnValueOnce([
+        ['loadTargets', 'daily', 6, '', '', '', 'old'],
+        ['updateTargets', 'WEEKLY', 9, 'monday', '', '', ''],
+      ]);
+
+      // Act
+      schedulesSheet.install();
+
+      // Assert
+      expect(triggerService.deleteTrigger).toHaveBeenCalledTimes(1);
+      expect(triggerService.deleteTrigger).toHaveBeenCalledWith('old');
+      expect(triggerService.createTrigger).toHaveBeenCalledWith('loadTargets', {
+        frequency: Frequency.DAILY,
+        hour: 6,
+        weekDay: '',
+      });
+      expect(triggerService.createTrigger).toHaveBeenCalledWith(
+        'updateTargets',
+        {frequency: Frequency.WEEKLY, hour: 9, weekDay: 'MONDAY'}
+      );
+      expect(spreadsheetService.clearSheet).toHaveBeenCalledWith(
+        SchedulesSheet.SCHEDULES_SHEET
+      );
+      expect(getWrittenRows()).toEqual([
+        ['loadTargets', 'daily', 6, '', ScheduleStatus.INSTALLED, '', 't1'],
+        [
+          'updateTargets',
+          'WEEKLY',
+          9,
+          'monday',
+          ScheduleStatus.INSTALLED,
+          '',
+          't2',
+        ],
+      ]);
+    });
+
+    it('should not install invalid or duplicated schedules', () => {
+      // Arrange
+      spreadsheetService.readRows.mockReturnValueOnce([
+        ['loadTargets', 'HOURLY', '', '', '', '', ''],
+        ['loadTargets', 'HOURLY', 5, '', '', '', ''],
+        ['loadTargets', 'DAILY', 25, '', '', '', ''],
+        ['deleteEverything', 'DAILY', 1, '', '', '', ''],
+      ]);
+
+      // Act
+      schedulesSheet.install();
+
+      // Assert
+      expect(triggerService.createTrigger).toHaveBeenCalledTimes(1);
+      const statuses = getWrittenRows().map(
+        r => r[SchedulesLabelsIndex.STATUS]
+      );
+      expect(statuses).toEqual([
+        ScheduleStatus.INSTALLED,
+        ScheduleStatus.DUPLICATE,
+        ScheduleStatus.INVALID,
+        ScheduleStatus.INVALID,
+      ]);
+    });
+  });
+
+  describe('list', () => {
+    it('should flag deleted triggers and list orphaned ones', () => {
+      // Arrange
+      triggerService.getTriggers.mockReturnValue([
+        {id: 't1', handler: 'loadTargets'},
+        {id: 'manual', handler: 'updateTargets'},
+      ]);
+      spreadsheetService.readRows.mockReturnValueOnce([
+        ['loadTargets', 'DAILY', 6, '', ScheduleStatus.INSTALLED, '', 't1'],
+        ['loadSimulations', 'DAILY', 7, '', ScheduleStatus.INSTALLED, '', 't2'],
+      ]);
+
+      // Act
+      schedulesSheet.list();
+
+      // Assert
+      const rows = getWrittenRows();
+      expect(rows.map(r => r[SchedulesLabelsIndex.STATUS])).toEqual([
+        ScheduleStatus.INSTALLED,
+        ScheduleStatus.NOT_INSTALLED,
+        ScheduleStatus.ORPHANED,
+      ]);
+      expect(rows[2][SchedulesLabelsIndex.FUNCTION]).toBe('updateTargets');
+      expect(rows[2][SchedulesLabelsIndex.TRIGGER_ID]).toBe('manual');
+    });
+    it('should match long numeric trigger IDs kept as text', () => {
+      // Arrange
+      const id = '1234567890123456789';
+      triggerService.getTriggers.mockReturnValue([
+        {id, handler: 'loadTargets'},
+      ]);
+      spreadsheetService.readRows.mockReturnValueOnce([
+        ['loadTargets', 'DAILY', 6, '', ScheduleStatus.INSTALLED, '', id],
+      ]);
+
+      // Act
+      schedulesSheet.list();
+
+      // Assert
+      expect(getWrittenRows()).toEqual([
+        ['loadTargets', 'DAILY', 6, '', ScheduleStatus.INSTALLED, '', id],
+      ]);
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete the triggers and keep the schedules', () => {
+      // Arrange
+      triggerService.getTriggers.mockReturnValue([
+        {id: 't1', handler: 'loadTargets'},
+        {id: 'manual', handler: 'updateTargets'},
+      ]);
+      spreadsheetService.readRows.mockReturnValueOnce([
+        ['loadTargets', 'DAILY', 6, '', ScheduleStatus.INSTALLED, '', 't1'],
+        ['updateTargets', '', '', '', ScheduleStatus.ORPHANED, '', 'manual'],
+      ]);
+
+      // Act
+      schedulesSheet.remove();
+
+      // Assert
+      expect(triggerService.deleteTrigger).toHaveBeenCalledWith('t1');
+      expect(triggerService.deleteTrigger).toHaveBeenCalledWith('manual');
+      expect(getWrittenRows()).toEqual([
+        ['loadTargets', 'DAILY', 6, '', ScheduleStatus.REMOVED, '', ''],
+      ]);
+    });
+  });
+});
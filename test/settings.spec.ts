@@ -0,0 +1,130 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {DEFAULT_SETTINGS, parseSettings} from '../src/settings';
+import {SettingsLabelsIndex, SettingsSheet} from '../src/settings_sheet';
+import {SpreadsheetService} from '../src/spreadsheet_service';
+import {StrategyType} from '../src/google_ads_client';
+
+jest.mock('../src/spreadsheet_service');
+
+describe('parseSettings', () => {
+  it('should return the defaults when no entry is set', () => {
+    expect(parseSettings({})).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('should parse typed entries', () => {
+    const settings = parseSettings({
+      LOGIN_CUSTOMER_ID: '123-456-7890',
+      CUSTOMER_IDS: '1234567890, 0987654321',
+      DATE_RANGES: 'LAST_7_DAYS,LAST_30_DAYS',
+      METRIC_TO_OPTIMIZE_TO: 'conversions',
+      ROAS_OPTIMIZATION_MAX_ITERATIONS: 200,
+      CPA_GUARDRAIL_MAX_CHANGE_PERCENT: '',
+      API_MAX_RETRIES: 0,
+      API_VERSION: 'v21',
+      QUERY_CACHE_MINUTES: 60,
+    });
+
+    expect(settings.loginCustomerId).toEqual('1234567890');
+    expect(settings.customerIds).toEqual(['1234567890', '0987654321']);
+    expect(settings.dateRanges).toEqual(['LAST_7_DAYS', 'LAST_30_DAYS']);
+    expect(settings.metricToOptimizeTo).toEqual('conversions');
+    expect(
+      settings.optimization[StrategyType.TARGET_ROAS].maxIterations
+    ).toEqual(200);
+    expect(
+      settings.guardrails[StrategyType.TARGET_CPA].maxChangePercent
+    ).toBeUndefined();
+    expect(
+      settings.guardrails[StrategyType.MAXIMIZE_CONVERSIONS].maxChangePercent
+    ).toBeUndefined();
+    expect(settings.retry.maxRetries).toEqual(0);
+    expect(settings.apiVersion).toEqual('v21');
+    expect(settings.queryCacheMinutes).toEqual(60);
+  });
+
+  it('should not modify the defaults', () => {
+    parseSettings({ROAS_GUARDRAIL_MAX_TARGET: 20});
+
+    expect(
+      DEFAULT_SETTINGS.guardrails[StrategyType.TARGET_ROAS].maxTarget
+    ).toEqual(100);
+  });
+
+  it('should list every invalid entry', () => {
+    expect(() =>
+      parseSettings({
+        DATE_RANGES: 'LAST_YEAR',
+        ROAS_OPTIMIZATION_LEARNING_RATE: 'fast',
+        UNKNOWN_KEY: 'value',
+      })
+    ).toThrow(
+      'Invalid entries in the Settings sheet:\n' +
+        'DATE_RANGES: "LAST_YEAR" is not one of TODAY, YESTERDAY, ' +
+        'LAST_7_DAYS, LAST_14_DAYS, LAST_30_DAYS, LAST_BUSINESS_WEEK, ' +
+        'LAST_WEEK_MON_SUN, LAST_WEEK_SUN_SAT, THIS_WEEK_MON_TODAY, ' +
+        'THIS_WEEK_SUN_TODAY, THIS_MONTH, LAST_MONTH nor BETWEEN ' +
+        'YYYY-MM-DD AND YYYY-MM-DD\n' +
+        'ROAS_OPTIMIZATION_LEARNING_RATE: "fast" is not a positive number\n' +
+        'UNKNOWN_KEY: unknown setting'
+    );
+  });
+});
+
+describe('SettingsSheet', () => {
+  let spreadsheetService: jest.Mocked<SpreadsheetService>;
+  let settingsSheet: SettingsSheet;
+
+  beforeEach(() => {
+    spreadsheetService = new SpreadsheetService(
+      ''
+    ) as jest.Mocked<SpreadsheetService>;
+    settingsSheet = new SettingsSheet(spreadsheetService);
+    jest.clearAllMocks();
+  });
+
+  it('should only append the missing entries on initialization', () => {
+    spreadsheetService.readRows.mockReturnValueOnce([
+      ['DEV_TOKEN', 'token', ''],
+      ['DATE_RANGES', 'LAST_7_DAYS', ''],
+    ]);
+
+    settingsSheet.initializeSheet();
+
+    const rows = spreadsheetService.appendRows.mock.calls[0][1];
+    const keys = rows.map(r => r[SettingsLabelsIndex.KEY]);
+    expect(keys).not.toContain('DEV_TOKEN');
+    expect(keys).not.toContain('DATE_RANGES');
+    expect(rows).toContainEqual([
+      'TARGETS_METRICS',
+      'conversions, conversions_value, cost_micros, average_cpc',
+      expect.any(String),
+    ]);
+  });
+
+  it('should read the entries of the sheet', () => {
+    spreadsheetService.readRows.mockReturnValueOnce([
+      ['METRIC_TO_OPTIMIZE_TO', 'clicks', ''],
+      ['', '', ''],
+    ]);
+
+    expect(settingsSheet.getSettings()).toEqual({
+      ...DEFAULT_SETTINGS,
+      metricToOptimizeTo: 'clicks',
+    });
+  });
+});
@@ -22,6 +22,8 @@ import {
   CampaignSimulationResponse,
   AdGroupSimulationResponse,
 } from '../src/google_ads_client';
+import {GoogleAdsTransport} from '../src/google_ads_transport';
+import {ChunkType} from '../src/jobs_sheet';
 
 // Mock the dependencies to isolate the SimulationsSheet class for testing
 jest.mock('../src/spreadsheet_service');
@@ -39,16 +41,6 @@ describe('SimulationsSheet', () => {
   let mockGoogleAdsClient: jest.Mocked<GoogleAdsClient>;
   let simulationsSheet: SimulationsSheet;
 
-  // Mock sheet and range objects to test formula appending
-  const mockRange = {
-    setFormula: jest.fn().mockReturnThis(),
-    copyTo: jest.fn(),
-  };
-  const mockSheet = {
-    getLastRow: jest.fn().mockReturnValue(10), // Assume some rows exist
-    getRange: jest.fn().mockReturnValue(mockRange),
-  };
-
   beforeEach(() => {
     // Clear all instances and calls to constructor and all methods before each test
     MockSpreadsheetService.mockClear();
@@ -58,13 +50,14 @@ describe('SimulationsSheet', () => {
     mockSpreadsheetService = new MockSpreadsheetService(
       'test-id'
     ) as jest.Mocked<SpreadsheetService>;
-    mockGoogleAdsClient = new MockGoogleAdsClient('token', 'mcc', [
-      'cid',
+    mockGoogleAdsClient = new MockGoogleAdsClient({} as GoogleAdsTransport, [
+      '1',
     ]) as jest.Mocked<GoogleAdsClient>;
+    mockGoogleAdsClient.getCids.mockReturnValue(['1']);
 
-    // Provide a mock implementation for getSpreadsheet to return our mock sheet
-    mockSpreadsheetService.getSpreadsheet.mockReturnValue(
-      mockSheet as unknown as GoogleAppsScript.Spreadsheet.Sheet
+    // The mock sheet has its columns in the default order
+    mockSpreadsheetService.getColumnIndexes.mockImplementation(
+      (_sheetName, headers) => headers.map((_h, i) => i)
     );
 
     simulationsSheet = new SimulationsSheet(mockSpreadsheetService);
@@ -82,9 +75,11 @@ describe('SimulationsSheet', () => {
 
       expect(sheetName).toBe(SimulationsSheet.SIM_SHEET);
       expect(headers).toBeInstanceOf(Array);
-      expect(headers.length).toBe(23); // 15 base columns + 8 formula columns
+      expect(headers.length).toBe(25); // 17 base columns + 8 formula columns
       expect(headers[0]).toBe('Customer name');
-      expect(headers[15]).toBe('Value-cost');
+      expect(headers[15]).toBe('Currency');
+      expect(headers[16]).toBe('Customer ID');
+      expect(headers[17]).toBe('Value-cost');
     });
   });
 
@@ -116,7 +111,7 @@ describe('SimulationsSheet', () => {
           name: 'Test Strategy',
           targetRoas: {targetRoas: 0.4},
         },
-        customer: {descriptiveName: 'Test Customer'},
+        customer: {descriptiveName: 'Test Customer', currencyCode: 'EUR'},
       },
     ];
     const mockCampaignSim: CampaignSimulationResponse[] = [
@@ -146,7 +141,7 @@ describe('SimulationsSheet', () => {
           biddingStrategyType: StrategyType.MAXIMIZE_CONVERSION_VALUE,
           maximizeConversionValue: {targetRoas: 0.7},
         },
-        customer: {descriptiveName: 'Test Customer'},
+        customer: {descriptiveName: 'Test Customer', currencyCode: 'EUR'},
       },
     ];
     const mockAdGroupSim: AdGroupSimulationResponse[] = [
@@ -175,7 +170,7 @@ describe('SimulationsSheet', () => {
           name: 'Test Ad Group',
           effectiveTargetCpaMicros: 12000000,
         },
-        customer: {descriptiveName: 'Test Customer'},
+        customer: {descriptiveName: 'Test Customer', currencyCode: 'EUR'},
       },
     ];
 
@@ -192,9 +187,7 @@ describe('SimulationsSheet', () => {
       simulationsSheet.load(mockGoogleAdsClient);
 
       // Assert
-      expect(mockSpreadsheetService.clearSheet).toHaveBeenCalledWith(
-        SimulationsSheet.SIM_SHEET
-      );
+      expect(mockSpreadsheetService.clearSheet).not.toHaveBeenCalled();
       const [sheetName, appendedRows] =
         mockSpreadsheetService.appendRows.mock.calls[0];
       expect(sheetName).toBe(SimulationsSheet.SIM_SHEET);
@@ -205,6 +198,8 @@ describe('SimulationsSheet', () => {
       expect(strategyRow[3]).toBe(StrategyType.TARGET_ROAS); // strategyType
       expect(strategyRow[5]).toBe(0.4); // currentTarget
       expect(strategyRow[12]).toBe(1); // cost (1000000 / 1e6)
+      expect(strategyRow[15]).toBe('EUR'); // currencyCode
+      expect(strategyRow[16]).toBe('1'); // customerId
     });
 
     it('should correctly process and append campaign simulations', () => {
@@ -269,9 +264,77 @@ describe('SimulationsSheet', () => {
       simulationsSheet.load(mockGoogleAdsClient);
 
       // Assert
-      expect(mockSheet.getRange).toHaveBeenCalled();
-      expect(mockRange.setFormula).toHaveBeenCalledTimes(8); // 8 formulas
-      expect(mockRange.copyTo).toHaveBeenCalledTimes(8);
+      const [sheetName, formulas] =
+        mockSpreadsheetService.fillFormulas.mock.calls[0];
+      expect(sheetName).toBe(SimulationsSheet.SIM_SHEET);
+      expect(Object.keys(formulas).length).toBe(8); // 8 formulas
+      expect(formulas['Value-cost']).toBe('K2-M2');
+      expect(formulas['Incremental target']).toBe(
+        'IF(T2>=0, T2/MAX(V2,0.1), V2/T2)'
+      );
+    });
+
+    it('should build the formulas from the columns of the headers', () => {
+      // Arrange
+      mockGoogleAdsClient.fetchBiddingStrategySimulations.mockReturnValue(
+        mockStrategySim
+      );
+      mockGoogleAdsClient.fetchCampaignSimulations.mockReturnValue([]);
+      mockGoogleAdsClient.fetchAdGroupSimulations.mockReturnValue([]);
+      // A column inserted before the cost moves it and the columns after it
+      mockSpreadsheetService.getColumnIndexes.mockImplementation(
+        (_sheetName, headers) =>
+          headers.map((h, i) => (i >= headers.indexOf('Cost') ? i + 1 : i))
+      );
+
+      // Act
+      simulationsSheet.load(mockGoogleAdsClient);
+
+      // Assert
+      const [, formulas] = mockSpreadsheetService.fillFormulas.mock.calls[0];
+      expect(formulas['Value-cost']).toBe('K2-N2');
+      expect(formulas['Value diff']).toBe('K2-T2');
+    });
+
+    it('should replace the rows of the loaded accounts only', () => {
+      // Arrange
+      mockGoogleAdsClient.getCids.mockReturnValue(['1', '2', '3']);
+      mockGoogleAdsClient.hasFailed.mockImplementation(cid => cid === '2');
+      mockGoogleAdsClient.fetchBiddingStrategySimulations.mockReturnValue(
+        mockStrategySim
+      );
+      mockGoogleAdsClient.fetchCampaignSimulations.mockReturnValue([]);
+      mockGoogleAdsClient.fetchAdGroupSimulations.mockReturnValue([]);
+
+      // Act
+      simulationsSheet.loadChunk(
+        mockGoogleAdsClient,
+        ChunkType.BIDDING_STRATEGY
+      );
+
+      // Assert
+      const [, columns, matches] =
+        mockSpreadsheetService.deleteRows.mock.calls[0];
+      expect(columns).toEqual(['Customer ID', 'Simulated entity name']);
+      expect(matches(['1', 'Strategy: Test Strategy'])).toBe(true);
+      expect(matches(['3', 'Strategy: Other Strategy'])).toBe(true);
+      // The failed account keeps its previous rows
+      expect(matches(['2', 'Strategy: Test Strategy'])).toBe(false);
+      // The rows of the other entity types are left for their chunks
+      expect(matches(['1', 'Campaign: Test Campaign'])).toBe(false);
+      const [, appendedRows] = mockSpreadsheetService.appendRows.mock.calls[0];
+      expect(appendedRows.length).toBe(1);
+    });
+
+    it('should remove the rows of the accounts not loaded anymore', () => {
+      // Act
+      simulationsSheet.start(['1']);
+
+      // Assert
+      const [, , matches] = mockSpreadsheetService.deleteRows.mock.calls[0];
+      expect(matches(['1'])).toBe(false);
+      expect(matches(['2'])).toBe(true);
+      expect(matches([''])).toBe(true);
     });
 
     it('should handle cases where no simulations are returned', () => {
@@ -286,10 +349,11 @@ describe('SimulationsSheet', () => {
       // Assert
       expect(mockSpreadsheetService.appendRows).toHaveBeenCalledWith(
         SimulationsSheet.SIM_SHEET,
-        []
+        [],
+        expect.any(Array)
       );
       // Ensure formulas are still appended (to headers) even with no data
-      expect(mockSheet.getRange).toHaveBeenCalled();
+      expect(mockSpreadsheetService.fillFormulas).toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,360 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {SpreadsheetService} from '../src/spreadsheet_service';
+
+describe('SpreadsheetService', () => {
+  let spreadsheetService: SpreadsheetService;
+  let setValues: jest.Mock;
+  let getRange: jest.Mock;
+  let deleteRows: jest.Mock;
+
+  /**
+   * Stubs the sheet returned by getSpreadsheet() with the given content.
+   */
+  function mockSheet(values: unknown[][], formulas?: string[][]) {
+    setValues = jest.fn();
+    getRange = jest.fn(() => ({setValues, setFontWeight: jest.fn()}));
+    deleteRows = jest.fn();
+    const sheet = {
+      getDataRange: () => ({
+        getValues: () => values,
+        getFormulas: () => formulas ?? values.map(r => r.map(() => '')),
+        clearContent: jest.fn(),
+      }),
+      getRange,
+      deleteRows,
+    };
+    jest
+      .spyOn(spreadsheetService, 'getSpreadsheet')
+      .mockReturnValue(sheet as unknown as GoogleAppsScript.Spreadsheet.Sheet);
+  }
+
+  beforeEach(() => {
+    spreadsheetService = new SpreadsheetService('');
+  });
+
+  describe('mergeRows', () => {
+    const headers = ['ID', 'Target', 'New target', 'Status'];
+    const options = {userColumns: [2], staleColumn: 3, staleValue: 'STALE'};
+
+    it('should refresh API columns and keep user columns by ID', () => {
+      // Arrange
+      mockSheet([headers, ['b', 2, 2.5, ''], ['a', 1, '+10%', '']]);
+
+      // Act
+      spreadsheetService.mergeRows(
+        'Targets',
+        headers,
+        [
+          ['a', 10, '', ''],
+          ['b', 20, '', ''],
+          ['c', 30, '', ''],
+        ],
+        0,
+        options
+      );
+
+      // Assert
+      expect(setValues).toHaveBeenCalledWith([
+        headers,
+        ['b', 20, 2.5, ''],
+        ['a', 10, '+10%', ''],
+        ['c', 30, '', ''],
+      ]);
+    });
+
+    it('should mark the rows missing from the API as stale', () => {
+      // Arrange
+      mockSheet([headers, ['a', 1, 2, ''], ['b', 2, '', '']]);
+
+      // Act
+      spreadsheetService.mergeRows(
+        'Targets',
+        headers,
+        [['b', 20, '', '']],
+        0,
+        options
+      );
+
+      // Assert
+      expect(setValues).toHaveBeenCalledWith([
+        headers,
+        ['a', 1, 2, 'STALE'],
+        ['b', 20, '', ''],
+      ]);
+    });
+
+    it('should keep the columns where they are, with those added by users and their formulas', () => {
+      // Arrange
+      mockSheet(
+        [
+          ['ID', 'New target', 'Notes', 'Double'],
+          ['a', 2, 'check Monday', 4],
+        ],
+        [
+          ['', '', '', ''],
+          ['', '', '', '=B2*2'],
+        ]
+      );
+
+      // Act
+      spreadsheetService.mergeRows(
+        'Targets',
+        headers,
+        [['a', 10, '', '']],
+        0,
+        options
+      );
+
+      // Assert
+      expect(setValues).toHaveBeenCalledWith([
+        ['ID', 'New target', 'Notes', 'Double', 'Target', 'Status'],
+        ['a', 2, 'check Monday', '=B2*2', 10, ''],
+      ]);
+    });
+  });
+
+  describe('readRows', () => {
+    it('should return the values in the order of the headers', () => {
+      // Arrange
+      mockSheet([
+        ['Notes', 'New target', 'ID'],
+        ['check', 5, 'a'],
+      ]);
+
+      // Act
+      const rows = spreadsheetService.readRows('Targets', ['ID', 'New target']);
+
+      // Assert
+      expect(rows).toEqual([['a', 5]]);
+    });
+
+    it('should throw if a header is missing', () => {
+      // Arrange
+      mockSheet([['ID', 'Current target']]);
+
+      // Act & Assert
+      expect(() =>
+        spreadsheetService.readRows('Targets', ['ID', 'New target'])
+      ).toThrow('The Targets sheet is missing the columns: New target.');
+    });
+  });
+
+  describe('deleteRows', () => {
+    it('should delete the matching rows by blocks, bottom up', () => {
+      // Arrange
+      mockSheet([
+        ['Name', 'Customer ID'],
+        ['a', '1'],
+        ['b', '2'],
+        ['c', '2'],
+        ['d', '1'],
+        ['e', '2'],
+      ]);
+
+      // Act
+      const deleted = spreadsheetService.deleteRows(
+        'Simulations',
+        ['Customer ID'],
+        ([cid]) => cid === '2'
+      );
+
+      // Assert
+      expect(deleted).toBe(3);
+      expect(deleteRows.mock.calls).toEqual([
+        [6, 1],
+        [3, 2],
+      ]);
+    });
+  });
+
+  describe('updateColumnsById', () => {
+    it('should write each column where its header is', () => {
+      // Arrange
+      mockSheet([
+        ['Status', 'ID', 'Notes', 'Error'],
+        ['', 'a', 'x', ''],
+        ['OLD', 'b', 'y', 'old error'],
+      ]);
+
+      // Act
+      spreadsheetService.updateColumnsById(
+        'Targets',
+        'ID',
+        ['Status', 'Error'],
+        {
+          a: ['SUCCESS', ''],
+        }
+      );
+
+      // Assert
+      expect(getRange).toHaveBeenCalledWith(2, 1, 2, 1);
+      expect(getRange).toHaveBeenCalledWith(2, 4, 2, 1);
+      expect(setValues).toHaveBeenCalledWith([['SUCCESS'], ['OLD']]);
+      expect(setValues).toHaveBeenCalledWith([[''], ['old error']]);
+    });
+
+    it('should write the formulas of the other rows back', () => {
+      // Arrange
+      mockSheet(
+        [
+          ['ID', 'New target'],
+          ['a', 6],
+          ['b', 5.5],
+        ],
+        [
+          ['', ''],
+          ['', ''],
+          ['', '=C3*1.1'],
+        ]
+      );
+
+      // Act
+      spreadsheetService.updateColumnsById('Targets', 'ID', ['New target'], {
+        a: [''],
+      });
+
+      // Assert
+      expect(setValues).toHaveBeenCalledWith([[''], ['=C3*1.1']]);
+    });
+
+    it('should leave the columns after the last value of a row unchanged', () => {
+      // Arrange
+      mockSheet([
+        ['Status', 'ID', 'Notes', 'Error'],
+        ['OLD', 'a', 'x', 'old error'],
+        ['OLD', 'b', 'y', 'old error'],
+      ]);
+
+      // Act
+      spreadsheetService.updateColumnsById(
+        'Targets',
+        'ID',
+        ['Status', 'Notes', 'Error'],
+        {
+          a: ['DONE'],
+          b: ['DONE', 'z'],
+        }
+      );
+
+      // Assert
+      expect(setValues).toHaveBeenCalledTimes(2);
+      expect(setValues).toHaveBeenCalledWith([['DONE'], ['DONE']]);
+      expect(setValues).toHaveBeenCalledWith([['x'], ['z']]);
+    });
+  });
+
+  describe('setThresholdHighlights', () => {
+    /**
+     * Returns a conditional format rule with a number condition.
+     */
+    function rule(criteria: string, background: string) {
+      return {
+        getBooleanCondition: () => ({
+          getCriteriaType: () => criteria,
+          getBackground: () => background,
+        }),
+      };
+    }
+
+    it('should replace the previous highlights wherever they are', () => {
+      // Arrange
+      const previousAbove = rule('NUMBER_GREATER_THAN', '#FCE5CD');
+      const previousBelow = rule('NUMBER_LESS_THAN', '#cfe2f3');
+      const userRule = rule('NUMBER_GREATER_THAN', '#ff0000');
+      const setConditionalFormatRules = jest.fn();
+      jest.spyOn(spreadsheetService, 'getSpreadsheet').mockReturnValue({
+        getRange: jest.fn(() => ({})),
+        getMaxRows: () => 100,
+        getConditionalFormatRules: () => [
+          previousAbove,
+          userRule,
+          previousBelow,
+        ],
+        setConditionalFormatRules,
+      } as unknown as GoogleAppsScript.Spreadsheet.Sheet);
+      jest.spyOn(spreadsheetService, 'getColumnIndexes').mockReturnValue([4]);
+      const builder: {[method: string]: jest.Mock} = {
+        whenNumberGreaterThan: jest.fn(() => builder),
+        whenNumberLessThan: jest.fn(() => builder),
+        setBackground: jest.fn(() => builder),
+        setRanges: jest.fn(() => builder),
+        build: jest.fn(() => 'highlight'),
+      };
+      (global as unknown as {SpreadsheetApp: object}).SpreadsheetApp = {
+        BooleanCriteria: {
+          NUMBER_GREATER_THAN: 'NUMBER_GREATER_THAN',
+          NUMBER_LESS_THAN: 'NUMBER_LESS_THAN',
+        },
+        newConditionalFormatRule: () => builder,
+      };
+
+      // Act
+      spreadsheetService.setThresholdHighlights('Targets', ['Gap'], 20, {
+        above: '#fce5cd',
+        below: '#cfe2f3',
+      });
+
+      // Assert
+      expect(setConditionalFormatRules).toHaveBeenCalledWith([
+        userRule,
+        'highlight',
+        'highlight',
+      ]);
+      expect(builder.whenNumberGreaterThan).toHaveBeenCalledWith(20);
+      expect(builder.whenNumberLessThan).toHaveBeenCalledWith(-20);
+    });
+  });
+
+  describe('fillFormulas', () => {
+    it('should write the formulas to the first row and copy them down', () => {
+      // Arrange
+      const copyTo = jest.fn();
+      const setFormula = jest.fn(() => ({copyTo}));
+      const sheet = {
+        getLastRow: () => 10,
+        getRange: jest.fn(() => ({setFormula})),
+      };
+      jest
+        .spyOn(spreadsheetService, 'getSpreadsheet')
+        .mockReturnValue(
+          sheet as unknown as GoogleAppsScript.Spreadsheet.Sheet
+        );
+      jest
+        .spyOn(spreadsheetService, 'getColumnIndexes')
+        .mockReturnValue([18, 2]);
+
+      // Act
+      spreadsheetService.fillFormulas('Simulations', {
+        'Value-cost': 'K2-N2',
+        Ratio: 'A2/B2',
+      });
+
+      // Assert
+      expect(spreadsheetService.getColumnIndexes).toHaveBeenCalledWith(
+        'Simulations',
+        ['Value-cost', 'Ratio']
+      );
+      expect(sheet.getRange).toHaveBeenCalledWith(2, 19);
+      expect(sheet.getRange).toHaveBeenCalledWith(3, 19, 8);
+      expect(setFormula).toHaveBeenCalledWith('K2-N2');
+      expect(sheet.getRange).toHaveBeenCalledWith(2, 3);
+      expect(setFormula).toHaveBeenCalledWith('A2/B2');
+      expect(copyTo).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {resolveTargetInput} from '../src/target_input';
+
+describe('resolveTargetInput', () => {
+  it('should keep absolute targets', () => {
+    expect(resolveTargetInput(4.5, 4)).toEqual(4.5);
+    expect(resolveTargetInput(' 4.5 ', '')).toEqual(4.5);
+  });
+
+  it('should apply percent changes', () => {
+    expect(resolveTargetInput('+10%', 4.5)).toEqual(4.95);
+    expect(resolveTargetInput('-5%', 20)).toEqual(19);
+  });
+
+  it('should apply absolute changes', () => {
+    expect(resolveTargetInput('+0.5', 4)).toEqual(4.5);
+    expect(resolveTargetInput('-1', 4)).toEqual(3);
+  });
+
+  it('should apply factors', () => {
+    expect(resolveTargetInput('x1.1', 10)).toEqual(11);
+    expect(resolveTargetInput('*0.9', 10)).toEqual(9);
+  });
+
+  it('should reject invalid inputs', () => {
+    expect(() => resolveTargetInput('ten', 4)).toThrow(
+      'Invalid new target: ten'
+    );
+    expect(() => resolveTargetInput('+10%%', 4)).toThrow(
+      'Invalid new target: +10%%'
+    );
+  });
+
+  it('should reject relative inputs without a current target', () => {
+    expect(() => resolveTargetInput('+10%', '')).toThrow(
+      'Cannot apply +10%: the current target is unknown'
+    );
+  });
+});
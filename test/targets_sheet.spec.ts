@@ -16,13 +16,25 @@
 
 import {TargetsSheet, TargetsLabelsIndex} from '../src/targets_sheet';
 import {SpreadsheetService} from '../src/spreadsheet_service';
+import {
+  AuditAction,
+  AuditLogLabelsIndex,
+  AuditLogSheet,
+} from '../src/audit_log_sheet';
+import {
+  PendingChangesLabelsIndex,
+  PendingChangesSheet,
+} from '../src/pending_changes_sheet';
 import {
   GoogleAdsClient,
+  MutateStatus,
   StrategyType,
   BiddingStrategyResponse,
   CampaignResponse,
   AdGroupResponse,
 } from '../src/google_ads_client';
+import {GoogleAdsTransport} from '../src/google_ads_transport';
+import {DEFAULT_SETTINGS} from '../src/settings';
 
 // Mock dependencies to isolate the TargetsSheet class for testing.
 jest.mock('../src/spreadsheet_service');
@@ -39,14 +51,21 @@ describe('TargetsSheet', () => {
       ''
     ) as jest.Mocked<SpreadsheetService>;
     googleAdsClient = new GoogleAdsClient(
-      '',
-      '',
+      {} as GoogleAdsTransport,
       []
     ) as jest.Mocked<GoogleAdsClient>;
     targetsSheet = new TargetsSheet(spreadsheetService);
 
     // Clear all mock history before each test.
     jest.clearAllMocks();
+    // The mocked sheets have their columns in the default order
+    spreadsheetService.readRows.mockImplementation(sheetName =>
+      spreadsheetService
+        .getSpreadsheet(sheetName)
+        .getDataRange()
+        .getValues()
+        .slice(1)
+    );
   });
 
   describe('initializeSheet', () => {
@@ -65,6 +84,8 @@ describe('TargetsSheet', () => {
         'New target'
       );
       expect(calledHeaders).toContain('cost - LAST_30_DAYS');
+      expect(calledHeaders).toContain('actual ROAS - LAST_30_DAYS');
+      expect(calledHeaders).toContain('target gap (%) - LAST_30_DAYS');
     });
   });
 
@@ -79,6 +100,7 @@ describe('TargetsSheet', () => {
             type: StrategyType.TARGET_ROAS,
             targetRoas: {targetRoas: 5},
           },
+          customer: {currencyCode: 'EUR'},
           metrics: {
             conversions: 10,
             conversionsValue: 50,
@@ -95,6 +117,7 @@ describe('TargetsSheet', () => {
             biddingStrategyType: StrategyType.MAXIMIZE_CONVERSIONS,
             maximizeConversions: {targetCpaMicros: 20000000},
           },
+          customer: {currencyCode: 'EUR'},
           metrics: {
             conversions: 10,
             conversionsValue: 50,
@@ -111,6 +134,7 @@ describe('TargetsSheet', () => {
             targetRoas: 3,
           },
           campaign: {biddingStrategyType: StrategyType.TARGET_ROAS},
+          customer: {currencyCode: 'EUR'},
           metrics: {
             conversions: 10,
             conversionsValue: 50,
@@ -133,21 +157,41 @@ describe('TargetsSheet', () => {
           'TARGET_ROAS',
           5,
           '',
+          '',
+          '',
+          '',
+          'EUR',
+          '',
+          '',
           10,
           50,
           10,
           2,
+          5,
+          1,
+          0,
+          0,
         ],
         [
           'customers/1/campaigns/201',
           'Campaign tCPA',
           'MAXIMIZE_CONVERSIONS',
-          20000000,
+          20,
+          '',
+          '',
+          '',
+          '',
+          'EUR',
+          '',
           '',
           10,
           50,
           10,
           3,
+          5,
+          1,
+          -19,
+          -95,
         ],
         [
           'customers/1/adGroups/301',
@@ -155,10 +199,20 @@ describe('TargetsSheet', () => {
           'TARGET_ROAS',
           3,
           '',
+          '',
+          '',
+          '',
+          'EUR',
+          '',
+          '',
           10,
           50,
           10,
           4,
+          5,
+          1,
+          2,
+          (2 / 3) * 100,
         ],
       ];
 
@@ -167,12 +221,98 @@ describe('TargetsSheet', () => {
 
       // Assert
       expect(googleAdsClient.searchStream).toHaveBeenCalledTimes(4);
-      expect(spreadsheetService.updateRows).toHaveBeenCalledWith(
+      expect(spreadsheetService.mergeRows).toHaveBeenCalledWith(
         TargetsSheet.TARGETS_SHEET,
+        expect.arrayContaining(['ID', 'New target', 'Sync status']),
         expectedRows,
-        TargetsLabelsIndex.ID
+        TargetsLabelsIndex.ID,
+        {
+          userColumns: [
+            TargetsLabelsIndex.NEW_TARGET,
+            TargetsLabelsIndex.OVERRIDE_GUARDRAILS,
+            TargetsLabelsIndex.LAST_UPDATE_STATUS,
+            TargetsLabelsIndex.LAST_UPDATE_ERROR,
+            TargetsLabelsIndex.APPLY_ON,
+          ],
+          staleColumn: TargetsLabelsIndex.SYNC_STATUS,
+          staleValue: TargetsSheet.STALE,
+          keep: expect.any(Function),
+        }
+      );
+      expect(spreadsheetService.setThresholdHighlights).toHaveBeenCalledWith(
+        TargetsSheet.TARGETS_SHEET,
+        ['target gap (%) - LAST_30_DAYS'],
+        20,
+        expect.any(Object)
       );
     });
+
+    it('should keep the rows of the accounts that failed as they are', () => {
+      // Arrange
+      googleAdsClient.searchStream.mockReturnValue([]);
+      googleAdsClient.hasFailed.mockImplementation(cid => cid === '2');
+
+      // Act
+      targetsSheet.load(googleAdsClient);
+
+      // Assert
+      const [, , , , {keep}] = spreadsheetService.mergeRows.mock.calls[0];
+      expect(keep!('customers/2/campaigns/201')).toBe(true);
+      expect(keep!('customers/1/campaigns/201')).toBe(false);
+    });
+
+    it('should list entities active in any of the date ranges', () => {
+      // Arrange
+      targetsSheet = new TargetsSheet(spreadsheetService, {
+        ...DEFAULT_SETTINGS,
+        dateRanges: ['LAST_7_DAYS', 'BETWEEN 2025-01-01 AND 2025-01-31'],
+        targetsMetrics: ['conversions'],
+      });
+      const mockPortfolioResponse: BiddingStrategyResponse[] = [
+        {
+          biddingStrategy: {
+            resourceName: 'customers/1/biddingStrategies/101',
+            name: 'Portfolio tROAS',
+            type: StrategyType.TARGET_ROAS,
+            targetRoas: {targetRoas: 5},
+          },
+          metrics: {conversions: 10},
+        },
+      ];
+      (googleAdsClient.searchStream as jest.Mock)
+        .mockReturnValueOnce([]) // portfolio, LAST_7_DAYS
+        .mockReturnValueOnce(mockPortfolioResponse); // portfolio, BETWEEN
+      for (let i = 0; i < 6; i++) {
+        // campaigns, ad groups (roas) and ad groups (cpa) of both ranges
+        (googleAdsClient.searchStream as jest.Mock).mockReturnValueOnce([]);
+      }
+
+      // Act
+      targetsSheet.load(googleAdsClient);
+
+      // Assert
+      expect(googleAdsClient.searchStream).toHaveBeenCalledTimes(8);
+      expect(
+        String((googleAdsClient.searchStream as jest.Mock).mock.calls[1][0])
+      ).toContain("segments.date BETWEEN '2025-01-01' AND '2025-01-31'");
+      expect(spreadsheetService.mergeRows.mock.calls[0][2]).toEqual([
+        [
+          'customers/1/biddingStrategies/101',
+          'Portfolio tROAS',
+          'TARGET_ROAS',
+          5,
+          '',
+          '',
+          '',
+          '',
+          '',
+          '',
+          '',
+          '',
+          10,
+        ],
+      ]);
+    });
   });
 
   describe('update', () => {
@@ -192,7 +332,7 @@ describe('TargetsSheet', () => {
           'Campaign tCPA',
           StrategyType.TARGET_CPA,
           10,
-          12,
+          12.5,
         ],
         [
           'customers/123/adGroups/3',
@@ -224,22 +364,354 @@ describe('TargetsSheet', () => {
       );
       (googleAdsClient.getCids as jest.Mock).mockReturnValue(['123']);
       (googleAdsClient.searchStream as jest.Mock).mockReturnValue([]); // For the final load() call
+      (googleAdsClient.mutateTargets as jest.Mock).mockReturnValueOnce([
+        {status: MutateStatus.SUCCESS},
+        {status: MutateStatus.SUCCESS},
+        {status: MutateStatus.SUCCESS},
+      ]);
 
       // Act
       targetsSheet.update(googleAdsClient);
 
       // Assert
       expect(googleAdsClient.mutateTargets).toHaveBeenCalledTimes(1);
-      expect(googleAdsClient.mutateTargets).toHaveBeenCalledWith('123', [
+      expect(googleAdsClient.mutateTargets).toHaveBeenCalledWith(
+        '123',
+        [
+          expect.objectContaining({
+            biddingStrategyOperation: expect.any(Object),
+          }),
+          // CPA targets are converted from account currency to micros
+          {
+            campaignOperation: {
+              updateMask: 'targetCpa.targetCpaMicros',
+              update: {
+                resourceName: 'customers/123/campaigns/2',
+                targetCpa: {targetCpaMicros: 12500000},
+              },
+            },
+          },
+          expect.objectContaining({adGroupOperation: expect.any(Object)}),
+        ],
+        false
+      );
+
+      // Verify that load() is called at the end to refresh data.
+      expect(googleAdsClient.searchStream).toHaveBeenCalled();
+    });
+
+    it('should keep the formulas of the rows it does not change', () => {
+      // Arrange
+      const {SpreadsheetService: ActualSpreadsheetService} = jest.requireActual<
+        typeof import('../src/spreadsheet_service')
+      >('../src/spreadsheet_service');
+      const storage = new ActualSpreadsheetService('');
+      const headers = targetsSheet.getFixedHeaders();
+      const values = [
+        headers,
+        ['customers/123/campaigns/1', 'Changed', StrategyType.TARGET_ROAS, 5],
+        ['customers/123/campaigns/2', 'Helper', StrategyType.TARGET_ROAS, 5],
+      ].map(r => headers.map((_h, i) => r[i] ?? ''));
+      values[1][TargetsLabelsIndex.NEW_TARGET] = 6;
+      values[2][TargetsLabelsIndex.NEW_TARGET] = 5.5;
+      const formulas = values.map(r => r.map(() => ''));
+      formulas[2][TargetsLabelsIndex.NEW_TARGET] = '=D3*1.1';
+      const setValues = jest.fn();
+      jest.spyOn(storage, 'getSpreadsheet').mockReturnValue({
+        getDataRange: () => ({
+          getValues: () => values,
+          getFormulas: () => formulas,
+        }),
+        getRange: () => ({setValues}),
+      } as unknown as GoogleAppsScript.Spreadsheet.Sheet);
+      for (const method of [
+        'mergeRows',
+        'insertSheet',
+        'appendRows',
+        'setThresholdHighlights',
+      ] as const) {
+        jest.spyOn(storage, method).mockImplementation(() => 0);
+      }
+      (googleAdsClient.getCids as jest.Mock).mockReturnValue(['123']);
+      (googleAdsClient.searchStream as jest.Mock).mockReturnValue([]);
+      (googleAdsClient.mutateTargets as jest.Mock).mockReturnValueOnce([
+        {status: MutateStatus.SUCCESS},
+        // The helper row fails, so that its new target is kept
+        {status: MutateStatus.FAILED, error: 'Internal error'},
+      ]);
+
+      // Act
+      new TargetsSheet(storage).update(googleAdsClient);
+
+      // Assert
+      expect(setValues).toHaveBeenCalledWith([[''], ['=D3*1.1']]);
+    });
+
+    it('should write the outcome of each changed row to the sheet and audit log', () => {
+      // Arrange
+      const mockSheetData = [
+        ['ID', 'Name', 'Bidding strategy type', 'Current target', 'New target'],
+        [
+          'customers/123/campaigns/1',
+          'Succeeds',
+          StrategyType.TARGET_ROAS,
+          5,
+          6,
+        ],
+        ['customers/123/campaigns/2', 'Fails', StrategyType.TARGET_ROAS, 5, 7],
+        [
+          'customers/123/campaigns/3',
+          'Invalid',
+          StrategyType.TARGET_ROAS,
+          5,
+          'abc',
+        ],
+        ['customers/456/campaigns/4', 'Other', StrategyType.TARGET_ROAS, 5, 6],
+      ];
+      const mockSheet = {
+        getDataRange: () => ({getValues: () => mockSheetData}),
+      };
+      (spreadsheetService.getSpreadsheet as jest.Mock).mockReturnValue(
+        mockSheet
+      );
+      (googleAdsClient.getCids as jest.Mock).mockReturnValue(['123']);
+      (googleAdsClient.searchStream as jest.Mock).mockReturnValue([]);
+      (googleAdsClient.mutateTargets as jest.Mock).mockReturnValueOnce([
+        {status: MutateStatus.SUCCESS},
+        {status: MutateStatus.FAILED, error: 'Target too high'},
+      ]);
+
+      // Act
+      targetsSheet.update(googleAdsClient);
+
+      // Assert
+      const [auditSheetName, auditRows] =
+        spreadsheetService.appendRows.mock.calls[0];
+      expect(auditSheetName).toBe(AuditLogSheet.AUDIT_LOG_SHEET);
+      expect(auditRows.length).toBe(2);
+      expect(auditRows[1][AuditLogLabelsIndex.USER]).toBe('trigger');
+      expect(auditRows[1][AuditLogLabelsIndex.CUSTOMER_ID]).toBe('123');
+      expect(auditRows[1][AuditLogLabelsIndex.RESOURCE_NAME]).toBe(
+        'customers/123/campaigns/2'
+      );
+      expect(auditRows[1][AuditLogLabelsIndex.OLD_TARGET]).toBe(5);
+      expect(auditRows[1][AuditLogLabelsIndex.NEW_TARGET]).toBe(7);
+      expect(auditRows[1][AuditLogLabelsIndex.OUTCOME]).toBe(
+        MutateStatus.FAILED
+      );
+      expect(auditRows[1][AuditLogLabelsIndex.ERROR]).toBe('Target too high');
+      expect(spreadsheetService.updateColumnsById).toHaveBeenCalledWith(
+        TargetsSheet.TARGETS_SHEET,
+        'ID',
+        ['Last update status', 'Last update error'],
+        {
+          'customers/123/campaigns/1': [MutateStatus.SUCCESS, ''],
+          'customers/123/campaigns/2': [MutateStatus.FAILED, 'Target too high'],
+          'customers/123/campaigns/3': [
+            MutateStatus.SKIPPED,
+            'Invalid new target: abc',
+          ],
+          'customers/456/campaigns/4': [
+            MutateStatus.SKIPPED,
+            'Customer ID is not listed in the Customers sheet',
+          ],
+        }
+      );
+    });
+
+    it('should block rows that break the guardrails unless overridden', () => {
+      // Arrange
+      const headers = [
+        'ID',
+        'Name',
+        'Bidding strategy type',
+        'Current target',
+        'New target',
+        'Override guardrails',
+      ];
+      const mockSheetData = [
+        headers,
+        [
+          'customers/123/campaigns/1',
+          'Typo',
+          StrategyType.TARGET_ROAS,
+          4,
+          40,
+          '',
+        ],
+        [
+          'customers/123/campaigns/2',
+          'Intended',
+          StrategyType.TARGET_ROAS,
+          4,
+          8,
+          true,
+        ],
+      ];
+      const mockSheet = {
+        getDataRange: () => ({getValues: () => mockSheetData}),
+      };
+      (spreadsheetService.getSpreadsheet as jest.Mock).mockReturnValue(
+        mockSheet
+      );
+      (googleAdsClient.getCids as jest.Mock).mockReturnValue(['123']);
+      (googleAdsClient.searchStream as jest.Mock).mockReturnValue([]);
+      (googleAdsClient.mutateTargets as jest.Mock).mockReturnValueOnce([
+        {status: MutateStatus.SUCCESS},
+      ]);
+
+      // Act
+      targetsSheet.update(googleAdsClient);
+
+      // Assert
+      const [, operations] = (googleAdsClient.mutateTargets as jest.Mock).mock
+        .calls[0];
+      expect(operations).toEqual([
         expect.objectContaining({
-          biddingStrategyOperation: expect.any(Object),
+          campaignOperation: expect.objectContaining({
+            update: expect.objectContaining({
+              resourceName: 'customers/123/campaigns/2',
+            }),
+          }),
         }),
-        expect.objectContaining({campaignOperation: expect.any(Object)}),
-        expect.objectContaining({adGroupOperation: expect.any(Object)}),
       ]);
+      const [, , , valuesById] =
+        spreadsheetService.updateColumnsById.mock.calls[0];
+      expect(valuesById['customers/123/campaigns/1']).toEqual([
+        MutateStatus.BLOCKED,
+        'Change of 900.0% exceeds the maximum of 50%',
+      ]);
+      // The new target and the override only apply to a single update
+      expect(spreadsheetService.updateColumnsById).toHaveBeenCalledWith(
+        TargetsSheet.TARGETS_SHEET,
+        'ID',
+        ['New target', 'Override guardrails', 'Apply on'],
+        {'customers/123/campaigns/2': ['', false, '']}
+      );
+    });
 
-      // Verify that load() is called at the end to refresh data.
-      expect(googleAdsClient.searchStream).toHaveBeenCalled();
+    it('should skip rows of entities that no longer exist', () => {
+      // Arrange
+      const staleRow: Array<string | number> = [
+        'customers/123/campaigns/1',
+        'Removed',
+        StrategyType.TARGET_ROAS,
+        4,
+        5,
+      ];
+      staleRow[TargetsLabelsIndex.SYNC_STATUS] = TargetsSheet.STALE;
+      const mockSheet = {
+        getDataRange: () => ({getValues: () => [[], staleRow]}),
+      };
+      (spreadsheetService.getSpreadsheet as jest.Mock).mockReturnValue(
+        mockSheet
+      );
+      (googleAdsClient.getCids as jest.Mock).mockReturnValue(['123']);
+      (googleAdsClient.searchStream as jest.Mock).mockReturnValue([]);
+
+      // Act
+      targetsSheet.update(googleAdsClient);
+
+      // Assert
+      expect(googleAdsClient.mutateTargets).not.toHaveBeenCalled();
+      expect(spreadsheetService.updateColumnsById).toHaveBeenCalledWith(
+        TargetsSheet.TARGETS_SHEET,
+        'ID',
+        ['Last update status', 'Last update error'],
+        {
+          'customers/123/campaigns/1': [
+            MutateStatus.SKIPPED,
+            'The entity was not found by the last load',
+          ],
+        }
+      );
+    });
+
+    it('should resolve relative new targets from the current target', () => {
+      // Arrange
+      const mockSheetData = [
+        ['ID', 'Name', 'Bidding strategy type', 'Current target', 'New target'],
+        ['customers/123/campaigns/1', 'A', StrategyType.TARGET_ROAS, 4, '+10%'],
+        ['customers/123/campaigns/2', 'B', StrategyType.TARGET_ROAS, 4, '+0%'],
+        ['customers/123/campaigns/3', 'C', StrategyType.TARGET_ROAS, '', 'x2'],
+      ];
+      const mockSheet = {
+        getDataRange: () => ({getValues: () => mockSheetData}),
+      };
+      (spreadsheetService.getSpreadsheet as jest.Mock).mockReturnValue(
+        mockSheet
+      );
+      (googleAdsClient.getCids as jest.Mock).mockReturnValue(['123']);
+      (googleAdsClient.searchStream as jest.Mock).mockReturnValue([]);
+      (googleAdsClient.mutateTargets as jest.Mock).mockReturnValueOnce([
+        {status: MutateStatus.SUCCESS},
+      ]);
+
+      // Act
+      targetsSheet.update(googleAdsClient);
+
+      // Assert
+      const [, operations] = (googleAdsClient.mutateTargets as jest.Mock).mock
+        .calls[0];
+      expect(operations).toEqual([
+        {
+          campaignOperation: {
+            updateMask: 'targetRoas.targetRoas',
+            update: {
+              resourceName: 'customers/123/campaigns/1',
+              targetRoas: {targetRoas: 4.4},
+            },
+          },
+        },
+      ]);
+      const [, , , valuesById] =
+        spreadsheetService.updateColumnsById.mock.calls[0];
+      // Unchanged targets are not sent
+      expect(valuesById['customers/123/campaigns/2']).toBeUndefined();
+      expect(valuesById['customers/123/campaigns/3']).toEqual([
+        MutateStatus.SKIPPED,
+        'Cannot apply x2: the current target is unknown, set an absolute ' +
+          'new target instead',
+      ]);
+    });
+
+    it('should mark all rows of a CID as failed when its request fails', () => {
+      // Arrange
+      const mockSheetData = [
+        ['ID', 'Name', 'Bidding strategy type', 'Current target', 'New target'],
+        ['customers/123/campaigns/1', 'A', StrategyType.TARGET_ROAS, 5, 6],
+        ['customers/123/campaigns/2', 'B', StrategyType.TARGET_ROAS, 5, 7],
+      ];
+      const mockSheet = {
+        getDataRange: () => ({getValues: () => mockSheetData}),
+      };
+      (spreadsheetService.getSpreadsheet as jest.Mock).mockReturnValue(
+        mockSheet
+      );
+      (googleAdsClient.getCids as jest.Mock).mockReturnValue(['123']);
+      (googleAdsClient.searchStream as jest.Mock).mockReturnValue([]);
+      (googleAdsClient.mutateTargets as jest.Mock).mockImplementationOnce(
+        () => {
+          throw new Error('API error: Permission denied');
+        }
+      );
+
+      // Act
+      targetsSheet.update(googleAdsClient);
+
+      // Assert
+      const [, , , valuesById] =
+        spreadsheetService.updateColumnsById.mock.calls[0];
+      expect(valuesById).toEqual({
+        'customers/123/campaigns/1': [
+          MutateStatus.FAILED,
+          'API error: Permission denied',
+        ],
+        'customers/123/campaigns/2': [
+          MutateStatus.FAILED,
+          'API error: Permission denied',
+        ],
+      });
     });
 
     it('should not call mutateTargets if no rows are updated', () => {
@@ -278,4 +750,545 @@ describe('TargetsSheet', () => {
       expect(googleAdsClient.searchStream).toHaveBeenCalled(); // load() is still called
     });
   });
+
+  describe('applyScheduled', () => {
+    const now = new Date('2025-11-28T00:30:00');
+
+    /**
+     * Returns a tROAS row of CID 123 moving from 4 to 5.
+     */
+    function scheduledRow(id: number, applyOn: string | Date) {
+      const row: Array<string | number | Date> = [
+        `customers/123/campaigns/${id}`,
+        `Campaign ${id}`,
+        StrategyType.TARGET_ROAS,
+        4,
+        5,
+      ];
+      row[TargetsLabelsIndex.APPLY_ON] = applyOn;
+      return row;
+    }
+
+    beforeEach(() => {
+      (googleAdsClient.getCids as jest.Mock).mockReturnValue(['123']);
+      (googleAdsClient.searchStream as jest.Mock).mockReturnValue([]);
+      (googleAdsClient.mutateTargets as jest.Mock).mockReturnValueOnce([
+        {status: MutateStatus.SUCCESS},
+        {status: MutateStatus.SUCCESS},
+      ]);
+    });
+
+    it('should only apply the rows whose time has passed, then clear them', () => {
+      // Arrange
+      spreadsheetService.readRows.mockReturnValueOnce([
+        scheduledRow(1, new Date('2025-11-28T00:00:00')),
+        scheduledRow(2, '2025-11-27 23:00'),
+        scheduledRow(3, '2025-12-01 00:00'),
+        scheduledRow(4, ''),
+      ]);
+
+      // Act
+      targetsSheet.applyScheduled(googleAdsClient, now);
+
+      // Assert
+      const [, operations] = (googleAdsClient.mutateTargets as jest.Mock).mock
+        .calls[0];
+      expect(
+        operations.map(
+          (o: {campaignOperation: {update: {resourceName: string}}}) =>
+            o.campaignOperation.update.resourceName
+        )
+      ).toEqual(['customers/123/campaigns/1', 'customers/123/campaigns/2']);
+      expect(spreadsheetService.updateColumnsById).toHaveBeenCalledWith(
+        TargetsSheet.TARGETS_SHEET,
+        'ID',
+        ['New target', 'Override guardrails', 'Apply on'],
+        {
+          'customers/123/campaigns/1': ['', undefined, ''],
+          'customers/123/campaigns/2': ['', undefined, ''],
+        }
+      );
+    });
+
+    it('should unschedule the rows that could not be applied', () => {
+      // Arrange
+      (googleAdsClient.mutateTargets as jest.Mock)
+        .mockReset()
+        .mockReturnValueOnce([
+          {status: MutateStatus.SUCCESS},
+          {status: MutateStatus.FAILED, error: 'Internal error'},
+        ]);
+      spreadsheetService.readRows.mockReturnValueOnce([
+        scheduledRow(1, '2025-11-27 23:00'),
+        scheduledRow(2, '2025-11-27 23:00'),
+      ]);
+
+      // Act
+      targetsSheet.applyScheduled(googleAdsClient, now);
+
+      // Assert
+      expect(spreadsheetService.updateColumnsById).toHaveBeenCalledWith(
+        TargetsSheet.TARGETS_SHEET,
+        'ID',
+        ['Apply on', 'Last update error'],
+        {
+          'customers/123/campaigns/2': [
+            '',
+            'Internal error (not retried: set Apply on again to retry)',
+          ],
+        }
+      );
+    });
+
+    it('should not reload the targets when no row is due', () => {
+      // Arrange
+      spreadsheetService.readRows.mockReturnValueOnce([
+        scheduledRow(1, '2025-12-01 00:00'),
+        scheduledRow(2, ''),
+      ]);
+
+      // Act
+      targetsSheet.applyScheduled(googleAdsClient, now);
+
+      // Assert
+      expect(googleAdsClient.mutateTargets).not.toHaveBeenCalled();
+      expect(googleAdsClient.searchStream).not.toHaveBeenCalled();
+    });
+
+    it('should report invalid times', () => {
+      // Arrange
+      spreadsheetService.readRows.mockReturnValueOnce([
+        scheduledRow(1, 'Black Friday'),
+      ]);
+
+      // Act
+      targetsSheet.applyScheduled(googleAdsClient, now);
+
+      // Assert
+      expect(googleAdsClient.mutateTargets).not.toHaveBeenCalled();
+      expect(spreadsheetService.updateColumnsById).toHaveBeenCalledWith(
+        TargetsSheet.TARGETS_SHEET,
+        'ID',
+        ['Last update status', 'Last update error'],
+        {
+          'customers/123/campaigns/1': [
+            MutateStatus.SKIPPED,
+            'Invalid apply on time: Black Friday',
+          ],
+        }
+      );
+      expect(spreadsheetService.updateColumnsById).not.toHaveBeenCalledWith(
+        TargetsSheet.TARGETS_SHEET,
+        'ID',
+        ['Apply on', 'Last update error'],
+        expect.anything()
+      );
+    });
+
+    it('should leave the rows scheduled later out of manual updates', () => {
+      // Arrange
+      spreadsheetService.readRows.mockReturnValueOnce([
+        scheduledRow(1, new Date(Date.now() + 24 * 60 * 60 * 1000)),
+      ]);
+
+      // Act
+      targetsSheet.update(googleAdsClient);
+
+      // Assert
+      expect(googleAdsClient.mutateTargets).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('applyRampSteps', () => {
+    it('should send the steps through the guardrails, leaving the new targets entered', () => {
+      // Arrange
+      spreadsheetService.readRows.mockReturnValueOnce([
+        [
+          'customers/123/campaigns/1',
+          'A',
+          StrategyType.TARGET_ROAS,
+          4,
+          '+50%',
+          true,
+        ],
+        ['customers/123/campaigns/2', 'B', StrategyType.TARGET_ROAS, 4, '', ''],
+        ['customers/123/campaigns/3', 'C', StrategyType.TARGET_ROAS, 4, '', ''],
+      ]);
+      (googleAdsClient.getCids as jest.Mock).mockReturnValue(['123']);
+      (googleAdsClient.searchStream as jest.Mock).mockReturnValue([]);
+      (googleAdsClient.mutateTargets as jest.Mock).mockReturnValueOnce([
+        {status: MutateStatus.SUCCESS},
+      ]);
+
+      // Act
+      const results = targetsSheet.applyRampSteps(googleAdsClient, {
+        'customers/123/campaigns/1': 4.25,
+        'customers/123/campaigns/2': 40,
+      });
+
+      // Assert
+      expect(results).toEqual({
+        'customers/123/campaigns/1': {status: MutateStatus.SUCCESS},
+        'customers/123/campaigns/2': {
+          status: MutateStatus.BLOCKED,
+          error: 'Change of 900.0% exceeds the maximum of 50%',
+        },
+      });
+      const [, auditRows] = spreadsheetService.appendRows.mock.calls[0];
+      expect(auditRows[0][AuditLogLabelsIndex.ACTION]).toBe(AuditAction.RAMP);
+      expect(auditRows[0][AuditLogLabelsIndex.NEW_TARGET]).toBe(4.25);
+      // Only the outcomes are written to the Targets sheet
+      expect(spreadsheetService.updateColumnsById).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('preview', () => {
+    const mockSheetData = [
+      ['ID', 'Name', 'Bidding strategy type', 'Current target', 'New target'],
+      [
+        'customers/123/campaigns/2',
+        'Campaign tROAS',
+        StrategyType.TARGET_ROAS,
+        4,
+        5,
+      ],
+      [
+        'customers/123/adGroups/3',
+        'AdGroup tCPA',
+        StrategyType.TARGET_CPA,
+        10,
+        '',
+      ],
+    ];
+
+    beforeEach(() => {
+      const mockSheet = {
+        getDataRange: () => ({getValues: () => mockSheetData}),
+      };
+      (spreadsheetService.getSpreadsheet as jest.Mock).mockReturnValue(
+        mockSheet
+      );
+      (googleAdsClient.getCids as jest.Mock).mockReturnValue(['123']);
+    });
+
+    it('should validate operations and write them to the Pending changes sheet', () => {
+      // Arrange
+      (googleAdsClient.mutateTargets as jest.Mock).mockReturnValueOnce([
+        {status: MutateStatus.SUCCESS},
+      ]);
+
+      // Act
+      targetsSheet.preview(googleAdsClient);
+
+      // Assert
+      expect(googleAdsClient.mutateTargets).toHaveBeenCalledWith(
+        '123',
+        [expect.objectContaining({campaignOperation: expect.any(Object)})],
+        true
+      );
+      expect(spreadsheetService.clearSheet).toHaveBeenCalledWith(
+        PendingChangesSheet.PENDING_CHANGES_SHEET
+      );
+      const [sheetName, rows] = spreadsheetService.appendRows.mock.calls[0];
+      expect(sheetName).toBe(PendingChangesSheet.PENDING_CHANGES_SHEET);
+      expect(rows.length).toBe(1);
+      expect(rows[0][PendingChangesLabelsIndex.ENTITY_ID]).toBe(
+        'customers/123/campaigns/2'
+      );
+      expect(rows[0][PendingChangesLabelsIndex.ABSOLUTE_CHANGE]).toBe(1);
+      expect(rows[0][PendingChangesLabelsIndex.PERCENT_CHANGE]).toBe(25);
+      expect(rows[0][PendingChangesLabelsIndex.UPDATE_MASK]).toBe(
+        'targetRoas.targetRoas'
+      );
+      expect(rows[0][PendingChangesLabelsIndex.VALIDATION]).toBe('OK');
+      // Nothing is loaded back as nothing was changed.
+      expect(googleAdsClient.searchStream).not.toHaveBeenCalled();
+    });
+
+    it('should report validation errors returned by the API', () => {
+      // Arrange
+      (googleAdsClient.mutateTargets as jest.Mock).mockImplementationOnce(
+        () => {
+          throw new Error('API error: Invalid target');
+        }
+      );
+
+      // Act
+      targetsSheet.preview(googleAdsClient);
+
+      // Assert
+      const [, rows] = spreadsheetService.appendRows.mock.calls[0];
+      expect(rows[0][PendingChangesLabelsIndex.VALIDATION]).toBe(
+        'API error: Invalid target'
+      );
+    });
+
+    it('should list blocked rows without an operation as skipped', () => {
+      // Arrange
+      (spreadsheetService.getSpreadsheet as jest.Mock).mockReturnValue({
+        getDataRange: () => ({
+          getValues: () => [
+            mockSheetData[0],
+            [
+              'customers/123/keywords/9',
+              'Keyword',
+              StrategyType.TARGET_ROAS,
+              4,
+              40,
+            ],
+          ],
+        }),
+      });
+
+      // Act
+      targetsSheet.preview(googleAdsClient);
+
+      // Assert
+      expect(googleAdsClient.mutateTargets).not.toHaveBeenCalled();
+      const [, rows] = spreadsheetService.appendRows.mock.calls[0];
+      expect(rows).toHaveLength(1);
+      expect(rows[0][PendingChangesLabelsIndex.UPDATE_MASK]).toBe('');
+      expect(rows[0][PendingChangesLabelsIndex.VALIDATION]).toBe(
+        'SKIPPED: Invalid ID: customers/123/keywords/9'
+      );
+    });
+    it('should list the rows update() would skip, with the same outcome', () => {
+      // Arrange
+      (spreadsheetService.getSpreadsheet as jest.Mock).mockReturnValue({
+        getDataRange: () => ({
+          getValues: () => [
+            mockSheetData[0],
+            [
+              'customers/123/campaigns/2',
+              'Invalid',
+              StrategyType.TARGET_ROAS,
+              4,
+              'abc',
+            ],
+            [
+              'customers/456/campaigns/5',
+              'Other CID',
+              StrategyType.TARGET_ROAS,
+              4,
+              5,
+            ],
+          ],
+        }),
+      });
+
+      // Act
+      targetsSheet.preview(googleAdsClient);
+
+      // Assert
+      expect(googleAdsClient.mutateTargets).not.toHaveBeenCalled();
+      const [, rows] = spreadsheetService.appendRows.mock.calls[0];
+      expect(
+        rows.map(r => [
+          r[PendingChangesLabelsIndex.ENTITY_ID],
+          r[PendingChangesLabelsIndex.CUSTOMER_ID],
+          r[PendingChangesLabelsIndex.NEW_TARGET],
+          r[PendingChangesLabelsIndex.VALIDATION],
+        ])
+      ).toEqual([
+        [
+          'customers/123/campaigns/2',
+          '123',
+          'abc',
+          'SKIPPED: Invalid new target: abc',
+        ],
+        [
+          'customers/456/campaigns/5',
+          '456',
+          5,
+          'SKIPPED: Customer ID is not listed in the Customers sheet',
+        ],
+      ]);
+    });
+  });
+
+  describe('revertLastUpdate', () => {
+    const auditHeaders = [
+      'Timestamp',
+      'User',
+      'Action',
+      'Customer ID',
+      'Resource name',
+      'Bidding strategy type',
+      'Old target',
+      'New target',
+      'Outcome',
+      'Error',
+    ];
+
+    function mockAuditLog(rows: Array<Array<string | number>>) {
+      (spreadsheetService.getSpreadsheet as jest.Mock).mockReturnValue({
+        getDataRange: () => ({getValues: () => [auditHeaders, ...rows]}),
+      });
+      (googleAdsClient.getCids as jest.Mock).mockReturnValue(['123']);
+      (googleAdsClient.searchStream as jest.Mock).mockReturnValue([]);
+    }
+
+    it('should restore the previous targets of the last batch', () => {
+      // Arrange
+      mockAuditLog([
+        [
+          't1',
+          'a@b.c',
+          AuditAction.UPDATE,
+          '123',
+          'customers/123/campaigns/1',
+          StrategyType.TARGET_ROAS,
+          2,
+          3,
+          MutateStatus.SUCCESS,
+          '',
+        ],
+        [
+          't2',
+          'a@b.c',
+          AuditAction.UPDATE,
+          '123',
+          'customers/123/campaigns/1',
+          StrategyType.TARGET_ROAS,
+          3,
+          40,
+          MutateStatus.SUCCESS,
+          '',
+        ],
+        [
+          't2',
+          'a@b.c',
+          AuditAction.UPDATE,
+          '123',
+          'customers/123/adGroups/2',
+          StrategyType.TARGET_ROAS,
+          5,
+          6,
+          MutateStatus.FAILED,
+          'Error',
+        ],
+      ]);
+      (googleAdsClient.mutateTargets as jest.Mock).mockReturnValueOnce([
+        {status: MutateStatus.SUCCESS},
+      ]);
+
+      // Act
+      targetsSheet.revertLastUpdate(googleAdsClient);
+
+      // Assert
+      expect(googleAdsClient.mutateTargets).toHaveBeenCalledWith(
+        '123',
+        [
+          {
+            campaignOperation: {
+              updateMask: 'targetRoas.targetRoas',
+              update: {
+                resourceName: 'customers/123/campaigns/1',
+                targetRoas: {targetRoas: 3},
+              },
+            },
+          },
+        ],
+        false
+      );
+      const [auditSheetName, auditRows] =
+        spreadsheetService.appendRows.mock.calls[0];
+      expect(auditSheetName).toBe(AuditLogSheet.AUDIT_LOG_SHEET);
+      expect(auditRows[0][AuditLogLabelsIndex.ACTION]).toBe(AuditAction.REVERT);
+      expect(auditRows[0][AuditLogLabelsIndex.OLD_TARGET]).toBe(40);
+      expect(auditRows[0][AuditLogLabelsIndex.NEW_TARGET]).toBe(3);
+    });
+
+    it('should not revert a batch that is itself a revert', () => {
+      // Arrange
+      mockAuditLog([
+        [
+          't3',
+          'a@b.c',
+          AuditAction.REVERT,
+          '123',
+          'customers/123/campaigns/1',
+          StrategyType.TARGET_ROAS,
+          40,
+          3,
+          MutateStatus.SUCCESS,
+          '',
+        ],
+      ]);
+
+      // Act & Assert
+      expect(() => targetsSheet.revertLastUpdate(googleAdsClient)).toThrow(
+        'The last update has already been reverted.'
+      );
+      expect(googleAdsClient.mutateTargets).not.toHaveBeenCalled();
+    });
+
+    it('should send the failed operations of a revert again', () => {
+      // Arrange
+      mockAuditLog([
+        [
+          't3',
+          'a@b.c',
+          AuditAction.REVERT,
+          '123',
+          'customers/123/campaigns/1',
+          StrategyType.TARGET_ROAS,
+          40,
+          3,
+          MutateStatus.SUCCESS,
+          '',
+        ],
+        [
+          't3',
+          'a@b.c',
+          AuditAction.REVERT,
+          '123',
+          'customers/123/campaigns/2',
+          StrategyType.TARGET_ROAS,
+          6,
+          5,
+          MutateStatus.FAILED,
+          'Internal error',
+        ],
+      ]);
+      (googleAdsClient.mutateTargets as jest.Mock).mockReturnValueOnce([
+        {status: MutateStatus.SUCCESS},
+      ]);
+
+      // Act
+      targetsSheet.revertLastUpdate(googleAdsClient);
+
+      // Assert
+      expect(googleAdsClient.mutateTargets).toHaveBeenCalledWith(
+        '123',
+        [
+          {
+            campaignOperation: {
+              updateMask: 'targetRoas.targetRoas',
+              update: {
+                resourceName: 'customers/123/campaigns/2',
+                targetRoas: {targetRoas: 5},
+              },
+            },
+          },
+        ],
+        false
+      );
+      const [, auditRows] = spreadsheetService.appendRows.mock.calls[0];
+      expect(auditRows).toHaveLength(1);
+      expect(auditRows[0][AuditLogLabelsIndex.ACTION]).toBe(AuditAction.REVERT);
+      expect(auditRows[0][AuditLogLabelsIndex.OLD_TARGET]).toBe(6);
+      expect(auditRows[0][AuditLogLabelsIndex.NEW_TARGET]).toBe(5);
+    });
+
+    it('should throw if there is no update to revert', () => {
+      // Arrange
+      mockAuditLog([]);
+
+      // Act & Assert
+      expect(() => targetsSheet.revertLastUpdate(googleAdsClient)).toThrow(
+        'There is no update to revert in the Audit log sheet.'
+      );
+    });
+  });
 });